@@ -1,42 +1,63 @@
 
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { VerbList } from './components/VerbList';
 import { ConjugationDisplay } from './components/ConjugationDisplay';
 import { ExampleSentences } from './components/ExampleSentences';
 import { getConjugations, getExamples, validateVerb, getGeneralVerbExamples } from './services/geminiService';
-import { INITIAL_VERBS } from './constants';
-import type { ConjugationData, Example, SelectedConjugation } from './types';
+import { getErrorMessage, isCancellation } from './services/aiErrors';
+import { setLanguageVariant } from './services/languageVariant';
+import { CONJUGATION_MASTERY_RECORD, LANGUAGE_SETTINGS_RECORD, PROFILES_RECORD, STORED_RECORDS, VERB_LISTS_RECORD, WORD_BANK_RECORD, WORD_REVIEW_RECORD } from './services/storedRecords';
+import { removeStoredValue, writeStoredValue } from './services/userStorage';
+import { addProfile, deleteProfile, getActiveProfile, renameProfile } from './services/profiles';
+import { useStoredState } from './hooks/useStoredState';
+import type { ConjugationData, ConjugationFocus, ConjugationForms, Example, LanguageSettings, ProfilesState, SelectedConjugation } from './types';
+import { getMasteryKey, recordAnswer } from './utils/conjugationMastery';
+import { getDueWords } from './utils/wordReview';
+import {
+  addList, addVerbToList, createVerbList, deleteList, getActiveList, moveVerbInList, removeVerbFromList, renameList, setVerbTags,
+} from './utils/verbLists';
+import type { FormMatch } from './services/formLookup';
 import { Header } from './components/Header';
 import { Footer } from './components/Footer';
 import { GrammarExplorer } from './components/GrammarExplorer';
 import { VocabularyExplorer } from './components/VocabularyExplorer';
 import { FunctionalLanguageExplorer } from './components/FunctionalLanguageExplorer';
 import { AiChat } from './components/AiChat';
+import { FormLookup } from './components/FormLookup';
+import { formatRoute, parseRoute } from './utils/routes';
+import type { AppRoute, AppView, GrammarMode } from './utils/routes';
+import { ConjugationDrillModal } from './components/ConjugationDrillModal';
+import { VerbProfilePanel } from './components/VerbProfilePanel';
+import { BackupModal } from './components/BackupModal';
 
-const VERBS_STORAGE_KEY = 'portugueseVerbs';
+// "fazer" → "Fazer", as verbs are shown in the list.
+const formatVerb = (verb: string) => verb.charAt(0).toUpperCase() + verb.slice(1).toLowerCase();
 
 const App: React.FC = () => {
-  const [verbs, setVerbs] = useState<string[]>(() => {
-    try {
-      const savedVerbs = window.localStorage.getItem(VERBS_STORAGE_KEY);
-      if (savedVerbs) {
-        const parsed = JSON.parse(savedVerbs);
-        // Basic validation to ensure we're loading a string array
-        if (Array.isArray(parsed) && parsed.every(item => typeof item === 'string')) {
-          return parsed;
-        }
-      }
-    } catch (error) {
-      console.error("Error reading verbs from localStorage:", error);
-    }
-    // Fallback to initial verbs if nothing is saved or data is corrupt
-    return INITIAL_VERBS;
-  });
+  const [route, setRoute] = useState<AppRoute>(() => parseRoute(window.location.hash));
+  const activeView = route.view;
+
+  const [profilesState, setProfilesState] = useStoredState(PROFILES_RECORD);
+  const activeProfile = getActiveProfile(profilesState);
 
-  const [activeView, setActiveView] = useState<'conjugator' | 'grammar' | 'vocabulary' | 'functional' | 'ai_chat'>('conjugator');
-  const [selectedVerb, setSelectedVerb] = useState<string | null>(verbs[0] || null);
+  const [verbLists, setVerbLists] = useStoredState(VERB_LISTS_RECORD);
+  const activeList = getActiveList(verbLists);
+  const verbs = activeList.entries.map(entry => entry.verb);
+
+  const [languageSettings, setLanguageSettings] = useStoredState(LANGUAGE_SETTINGS_RECORD);
+  const [conjugationMastery, setConjugationMastery] = useStoredState(CONJUGATION_MASTERY_RECORD);
+  // Read here only for the number of words due, shown in the header.
+  const [wordBank] = useStoredState(WORD_BANK_RECORD);
+  const [wordReviewSchedule] = useStoredState(WORD_REVIEW_RECORD);
+  const [isDrillOpen, setIsDrillOpen] = useState<boolean>(false);
+  const [isBackupOpen, setIsBackupOpen] = useState<boolean>(false);
+  // A verb in the URL is opened even if it isn't in the list.
+  const [selectedVerb, setSelectedVerb] = useState<string | null>(() =>
+    route.verb ? verbs.find(v => v.toLowerCase() === route.verb) ?? formatVerb(route.verb) : verbs[0] || null
+  );
   const [conjugations, setConjugations] = useState<ConjugationData | null>(null);
   const [selectedConjugation, setSelectedConjugation] = useState<SelectedConjugation | null>(null);
+  const [conjugationFocus, setConjugationFocus] = useState<ConjugationFocus | null>(null);
   const [examples, setExamples] = useState<Example[] | null>(null);
 
   const [isLoadingConjugations, setIsLoadingConjugations] = useState<boolean>(true);
@@ -49,17 +70,91 @@ const App: React.FC = () => {
   const [isAddingVerb, setIsAddingVerb] = useState<boolean>(false);
   const [addVerbError, setAddVerbError] = useState<string | null>(null);
 
-  // Effect to save verbs to localStorage whenever the list changes
+  // Requests for a verb or conjugation the user has already moved away from are cancelled,
+  // so a slow response can't overwrite what's currently on screen.
+  const conjugationRequestRef = useRef<AbortController | null>(null);
+  const exampleRequestRef = useRef<AbortController | null>(null);
+  const predictivePrefetchRef = useRef<AbortController | null>(null);
+  // A lookup result or linked form waiting for its verb's conjugations to load.
+  const pendingFocusRef = useRef<ConjugationFocus | null>(
+    route.verb && route.conjugationPath ? { verb: route.verb, path: route.conjugationPath } : null
+  );
+
+  const startExampleRequest = () => {
+    exampleRequestRef.current?.abort();
+    const controller = new AbortController();
+    exampleRequestRef.current = controller;
+    return controller.signal;
+  };
+
+  // --- Routing ---
   useEffect(() => {
-    try {
-      window.localStorage.setItem(VERBS_STORAGE_KEY, JSON.stringify(verbs));
-    } catch (error) {
-      console.error("Error saving verbs to localStorage:", error);
+    const handleHashChange = () => setRoute(parseRoute(window.location.hash));
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, []);
+
+  // Pushes a history entry unless `replace` is set; the route state follows through hashchange.
+  const navigate = (next: AppRoute, { replace = false } = {}) => {
+    const hash = formatRoute(next);
+    if (hash === window.location.hash) return;
+    if (replace) {
+      window.history.replaceState(null, '', hash);
+      setRoute(parseRoute(hash));
+    } else {
+      window.location.hash = hash;
     }
-  }, [verbs]);
+  };
+
+  const handleViewChange = (view: AppView) => {
+    navigate(view === 'conjugator'
+      ? { view, verb: selectedVerb ?? undefined, conjugationPath: selectedConjugation?.path }
+      : { view });
+  };
+
+  // Back/forward and edited URLs: brings the conjugator in line with the route.
+  useEffect(() => {
+    if (route.view !== 'conjugator') return;
+    if (!route.verb) {
+      if (selectedVerb) {
+        navigate({ view: 'conjugator', verb: selectedVerb, conjugationPath: selectedConjugation?.path }, { replace: true });
+      }
+      return;
+    }
+
+    const focus = route.conjugationPath ? { verb: route.verb, path: route.conjugationPath } : null;
+    if (route.verb !== selectedVerb?.toLowerCase()) {
+      pendingFocusRef.current = focus;
+      setSelectedVerb(verbs.find(v => v.toLowerCase() === route.verb) ?? formatVerb(route.verb));
+    } else if (focus && focus.path !== selectedConjugation?.path) {
+      if (conjugations) {
+        setConjugationFocus(focus);
+      } else {
+        pendingFocusRef.current = focus;
+      }
+    } else if (!focus && selectedConjugation) {
+      clearSelectedConjugation();
+    }
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [route]);
+
+  // Selecting a verb or a form adds a history entry, so the back button returns to it.
+  // Nothing is written while a linked form of this verb is still being opened.
+  useEffect(() => {
+    const isOpeningForm = pendingFocusRef.current?.verb.toLowerCase() === selectedVerb?.toLowerCase() || conjugationFocus;
+    if (route.view !== 'conjugator' || isOpeningForm) return;
+    navigate({ view: 'conjugator', verb: selectedVerb ?? undefined, conjugationPath: selectedConjugation?.path });
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedVerb, selectedConjugation]);
+
+  // The stored variant is set in index.tsx before the first render; this follows later changes.
+  useEffect(() => {
+    setLanguageVariant(languageSettings.variant);
+  }, [languageSettings.variant]);
 
   // On initial load, prefetch conjugations for ALL initial verbs to make navigation instant.
   useEffect(() => {
+    const controller = new AbortController();
     const prefetchInitialVerbs = () => {
       // The first verb (verbs[0]) is already being fetched by the main useEffect [selectedVerb].
       // We prefetch the REST of the list in the background. The geminiService will check
@@ -69,8 +164,11 @@ const App: React.FC = () => {
       
       console.log('Prefetching all remaining verbs:', verbsToPrefetch);
       
+      // These run in the 'prefetch' lane, so they queue behind anything the user asks for
+      // and are capped by the service's concurrency limit.
       verbsToPrefetch.forEach(verb => {
-        getConjugations(verb).catch(error => {
+        getConjugations(verb, { priority: 'prefetch', signal: controller.signal }).catch(error => {
+          if (isCancellation(error)) return;
           // This is a background task, so we just log the warning.
           // The user can still click the verb to trigger a manual fetch if needed.
           console.warn(`Initial prefetch failed for "${verb}":`, error);
@@ -81,11 +179,19 @@ const App: React.FC = () => {
     // Delay prefetching slightly to not interfere with the main thread during initial render.
     const timerId = setTimeout(prefetchInitialVerbs, 1500);
 
-    return () => clearTimeout(timerId);
+    return () => {
+      clearTimeout(timerId);
+      controller.abort();
+    };
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []); // Run only once on mount
 
   const fetchConjugations = useCallback(async (verb: string) => {
+    conjugationRequestRef.current?.abort();
+    exampleRequestRef.current?.abort();
+    const controller = new AbortController();
+    conjugationRequestRef.current = controller;
+
     setIsLoadingConjugations(true);
     setConjugations(null);
     setSelectedConjugation(null);
@@ -94,13 +200,21 @@ const App: React.FC = () => {
     setExampleError(null);
 
     try {
-      const data = await getConjugations(verb);
+      const data = await getConjugations(verb, { signal: controller.signal });
       setConjugations(data);
+      if (pendingFocusRef.current?.verb.toLowerCase() === verb.toLowerCase()) {
+        setConjugationFocus(pendingFocusRef.current);
+        pendingFocusRef.current = null;
+      }
     } catch (error) {
+      if (isCancellation(error)) return;
+      pendingFocusRef.current = null;
       console.error("Error fetching conjugations:", error);
-      setConjugationError("Failed to load conjugations. The AI model might be busy. Please try again.");
+      setConjugationError(getErrorMessage(error, "Failed to load conjugations. The AI model might be busy. Please try again."));
     } finally {
-      setIsLoadingConjugations(false);
+      if (!controller.signal.aborted) {
+        setIsLoadingConjugations(false);
+      }
     }
   }, []);
 
@@ -109,12 +223,42 @@ const App: React.FC = () => {
       fetchConjugations(selectedVerb);
     } else {
       // Handle case where there are no verbs at all
+      conjugationRequestRef.current?.abort();
+      exampleRequestRef.current?.abort();
       setIsLoadingConjugations(false);
       setConjugations(null);
       setExamples(null);
     }
   // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [selectedVerb, activeView]);
+  }, [selectedVerb, activeView, languageSettings.variant]);
+
+  // Tu is the everyday form of address in Portugal, so switching there shows it too.
+  const handleLanguageSettingsChange = (changes: Partial<LanguageSettings>) => {
+    setLanguageSettings(prev => ({
+      ...prev,
+      ...(changes.variant === 'pt-PT' && prev.variant !== 'pt-PT' ? { showTu: true } : {}),
+      ...changes,
+    }));
+  };
+
+  // Every view reads its data for the active profile when it mounts, so switching reloads the page.
+  const saveProfilesAndReload = (next: ProfilesState) => {
+    writeStoredValue(PROFILES_RECORD, next);
+    window.location.reload();
+  };
+
+  const handleSelectProfile = (profileId: string) => {
+    saveProfilesAndReload({ ...profilesState, activeProfileId: profileId });
+  };
+
+  const handleCreateProfile = (name: string) => {
+    saveProfilesAndReload(addProfile(profilesState, name));
+  };
+
+  const handleDeleteProfile = (profileId: string) => {
+    STORED_RECORDS.forEach(record => removeStoredValue(record, profileId));
+    saveProfilesAndReload(deleteProfile(profilesState, profileId));
+  };
 
   const handleVerbSelect = (verb: string) => {
     setSelectedVerb(verb);
@@ -122,12 +266,18 @@ const App: React.FC = () => {
     // --- Predictive Prefetching ---
     // When a user selects a verb, prefetch the next couple in the list
     // to make navigation feel faster. The `getConjugations` service will
-    // cache the results, making the next selection instant.
+    // cache the results, making the next selection instant. Prefetches for the
+    // previously selected verb's neighbours are no longer useful and are cancelled.
+    predictivePrefetchRef.current?.abort();
+    const controller = new AbortController();
+    predictivePrefetchRef.current = controller;
+
     const currentIndex = verbs.findIndex(v => v === verb);
     if (currentIndex > -1) {
       const nextVerbsToPrefetch = verbs.slice(currentIndex + 1, currentIndex + 3); // Get the next two
       nextVerbsToPrefetch.forEach(nextVerb => {
-        getConjugations(nextVerb).catch(error => {
+        getConjugations(nextVerb, { priority: 'prefetch', signal: controller.signal }).catch(error => {
+          if (isCancellation(error)) return;
           console.warn(`Predictive prefetch failed for "${nextVerb}":`, error);
         });
       });
@@ -137,7 +287,7 @@ const App: React.FC = () => {
   const handleAddVerb = async (verbToAdd: string): Promise<boolean> => {
     setIsAddingVerb(true);
     setAddVerbError(null);
-    const formattedVerb = verbToAdd.charAt(0).toUpperCase() + verbToAdd.slice(1).toLowerCase();
+    const formattedVerb = formatVerb(verbToAdd);
     
     if (verbs.some(v => v.toLowerCase() === formattedVerb.toLowerCase())) {
         setAddVerbError(`"${formattedVerb}" is already in the list.`);
@@ -149,8 +299,7 @@ const App: React.FC = () => {
         const validation = await validateVerb(formattedVerb);
 
         if (validation.isValid) {
-            const newVerbs = [formattedVerb, ...verbs];
-            setVerbs(newVerbs); // This will trigger the useEffect to save to localStorage
+            setVerbLists(prev => addVerbToList(prev, activeList.id, formattedVerb)); // useStoredState saves the change
             setSelectedVerb(formattedVerb);
             setIsAddingVerb(false);
             return true;
@@ -161,58 +310,134 @@ const App: React.FC = () => {
         }
     } catch (error) {
         console.error("Error in handleAddVerb:", error);
-        setAddVerbError("An unexpected error occurred while adding the verb.");
+        setAddVerbError(getErrorMessage(error, "An unexpected error occurred while adding the verb."));
         setIsAddingVerb(false);
         return false;
     }
   };
 
+  const handleDeleteVerb = (verb: string) => {
+    if (selectedVerb === verb) {
+      const index = verbs.indexOf(verb);
+      setSelectedVerb(verbs[index + 1] ?? verbs[index - 1] ?? null);
+    }
+    setVerbLists(prev => removeVerbFromList(prev, activeList.id, verb));
+  };
+
+  // Switching lists keeps the selected verb if the new list has it too.
+  const handleSelectList = (listId: string) => {
+    const list = getActiveList({ ...verbLists, activeListId: listId });
+    setVerbLists(prev => ({ ...prev, activeListId: listId }));
+    if (!list.entries.some(entry => entry.verb === selectedVerb)) {
+      setSelectedVerb(list.entries[0]?.verb ?? null);
+    }
+  };
+
+  const handleCreateList = (name: string) => {
+    setVerbLists(prev => addList(prev, createVerbList(name)));
+    setSelectedVerb(null);
+  };
+
+  const handleDeleteList = (listId: string) => {
+    const remaining = deleteList(verbLists, listId);
+    if (remaining.activeListId !== verbLists.activeListId) {
+      setSelectedVerb(getActiveList(remaining).entries[0]?.verb ?? null);
+    }
+    setVerbLists(remaining);
+  };
+
+  // Opens the verb of a reverse-lookup result (adding it to the list if needed) and selects
+  // the matching cell once its table is shown.
+  const handleLookupSelect = async (match: FormMatch) => {
+    const focus = { verb: match.verb, path: match.path };
+    if (selectedVerb?.toLowerCase() === match.verb.toLowerCase() && conjugations) {
+      setConjugationFocus(focus);
+      return;
+    }
+
+    pendingFocusRef.current = focus;
+    const listedVerb = verbs.find(v => v.toLowerCase() === match.verb.toLowerCase());
+    if (listedVerb) {
+      handleVerbSelect(listedVerb);
+    } else if (!await handleAddVerb(match.verb)) {
+      pendingFocusRef.current = null;
+    }
+  };
+
+  const clearSelectedConjugation = () => {
+    exampleRequestRef.current?.abort();
+    setSelectedConjugation(null);
+    setExamples(null);
+    setIsLoadingExamples(false);
+  };
+
   const handleConjugationSelect = async (conjugation: SelectedConjugation) => {
     if (selectedConjugation?.tense === conjugation.tense && selectedConjugation?.pronoun === conjugation.pronoun) {
       // Deselect if clicking the same one again
-      setSelectedConjugation(null);
-      setExamples(null);
+      clearSelectedConjugation();
       return;
     }
 
     setSelectedConjugation(conjugation);
+    await fetchExamples(conjugation);
+  };
+
+  const fetchExamples = async (conjugation: SelectedConjugation) => {
+    const signal = startExampleRequest();
     setIsLoadingExamples(true);
     setExamples(null);
     setExampleError(null);
 
     try {
-      const exampleData = await getExamples(conjugation.verb, conjugation.form);
+      const exampleData = await getExamples(conjugation.verb, conjugation.form, undefined, { signal });
       setExamples(exampleData);
     } catch (error) {
+      if (isCancellation(error)) return;
       console.error("Error fetching examples:", error);
-      setExampleError("Failed to load examples. The AI model might be busy. Please try again.");
+      setExampleError(getErrorMessage(error, "Failed to load examples. The AI model might be busy. Please try again."));
     } finally {
-      setIsLoadingExamples(false);
+      if (!signal.aborted) {
+        setIsLoadingExamples(false);
+      }
     }
   };
 
   const handleGenerateGeneralExamples = async () => {
     if (!selectedVerb) return;
 
+    const signal = startExampleRequest();
     setSelectedConjugation(null); // Deselect specific conjugation
     setIsLoadingExamples(true);
     setExamples(null);
     setExampleError(null);
 
     try {
-      const exampleData = await getGeneralVerbExamples(selectedVerb);
+      const exampleData = await getGeneralVerbExamples(selectedVerb, undefined, { signal });
       setExamples(exampleData);
     } catch (error) {
+      if (isCancellation(error)) return;
       console.error("Error fetching general examples:", error);
-      setExampleError("Failed to load general examples. The AI model might be busy. Please try again.");
+      setExampleError(getErrorMessage(error, "Failed to load general examples. The AI model might be busy. Please try again."));
     } finally {
-      setIsLoadingExamples(false);
+      if (!signal.aborted) {
+        setIsLoadingExamples(false);
+      }
+    }
+  };
+
+  // Repeats whichever example request failed: for the selected conjugation, or general ones.
+  const handleRetryExamples = () => {
+    if (selectedConjugation) {
+      fetchExamples(selectedConjugation);
+    } else {
+      handleGenerateGeneralExamples();
     }
   };
 
   const handleGenerateMoreExamples = async () => {
     if (!examples || !selectedVerb) return;
 
+    const signal = startExampleRequest();
     setIsGeneratingMoreExamples(true);
     setExampleError(null); // Clear previous error on new attempt
 
@@ -220,34 +445,52 @@ const App: React.FC = () => {
       let newExamples: Example[];
       if (selectedConjugation) {
         // Mode: specific conjugation examples
-        newExamples = await getExamples(selectedConjugation.verb, selectedConjugation.form, examples);
+        newExamples = await getExamples(selectedConjugation.verb, selectedConjugation.form, examples, { signal });
       } else {
         // Mode: general verb examples
-        newExamples = await getGeneralVerbExamples(selectedVerb, examples);
+        newExamples = await getGeneralVerbExamples(selectedVerb, examples, { signal });
       }
       setExamples(newExamples); // Replace existing examples
     } catch (error) {
+      if (isCancellation(error)) return;
       console.error("Error fetching more examples:", error);
-      setExampleError("Failed to load more examples. Please try again.");
+      setExampleError(getErrorMessage(error, "Failed to load more examples. Please try again."));
     } finally {
       setIsGeneratingMoreExamples(false);
     }
   };
 
+  const handleRecordDrillAnswer = (verb: string, tense: string, pronoun: keyof ConjugationForms, correct: boolean) => {
+    setConjugationMastery(prev => recordAnswer(prev, getMasteryKey(verb, tense, pronoun), correct));
+  };
+
+  const handleOpenGrammarTopic = (topicId: string) => {
+    navigate({ view: 'grammar', topicId });
+  };
+
   const renderActiveView = () => {
     switch(activeView) {
       case 'conjugator':
         return (
           <div className="grid grid-cols-1 lg:grid-cols-12 gap-6 lg:gap-8">
-            <div className="lg:col-span-3">
+            <div className="lg:col-span-3 space-y-6">
+              <FormLookup verbs={verbs} onSelectMatch={handleLookupSelect} />
               <VerbList 
-                verbs={verbs} 
+                lists={verbLists.lists}
+                activeList={activeList}
                 selectedVerb={selectedVerb} 
                 onSelectVerb={handleVerbSelect}
                 onAddVerb={handleAddVerb}
                 isAdding={isAddingVerb}
                 addError={addVerbError}
                 onClearAddError={() => setAddVerbError(null)}
+                onDeleteVerb={handleDeleteVerb}
+                onMoveVerb={(verb, targetVerb) => setVerbLists(prev => moveVerbInList(prev, activeList.id, verb, targetVerb))}
+                onSetVerbTags={(verb, tags) => setVerbLists(prev => setVerbTags(prev, activeList.id, verb, tags))}
+                onSelectList={handleSelectList}
+                onCreateList={handleCreateList}
+                onRenameList={(listId, name) => setVerbLists(prev => renameList(prev, listId, name))}
+                onDeleteList={handleDeleteList}
               />
             </div>
             <div className="lg:col-span-9 grid grid-cols-1 md:grid-cols-5 gap-6 lg:gap-8">
@@ -257,16 +500,30 @@ const App: React.FC = () => {
                   conjugations={conjugations}
                   isLoading={isLoadingConjugations}
                   error={conjugationError}
+                  onRetry={() => selectedVerb && fetchConjugations(selectedVerb)}
                   selectedConjugation={selectedConjugation}
                   onSelectConjugation={handleConjugationSelect}
                   onGenerateGeneralExamples={handleGenerateGeneralExamples}
+                  languageSettings={languageSettings}
+                  onLanguageSettingsChange={handleLanguageSettingsChange}
+                  focus={conjugationFocus}
+                  onFocusHandled={() => setConjugationFocus(null)}
+                  mastery={conjugationMastery}
+                  onStartDrill={() => setIsDrillOpen(true)}
                 />
               </div>
-              <div className="md:col-span-2">
+              <div className="md:col-span-2 space-y-6">
+                <VerbProfilePanel
+                  verb={selectedVerb}
+                  conjugations={conjugations}
+                  variant={languageSettings.variant}
+                  onOpenGrammarTopic={handleOpenGrammarTopic}
+                />
                 <ExampleSentences
                   examples={examples}
                   isLoading={isLoadingExamples}
                   error={exampleError}
+                  onRetry={handleRetryExamples}
                   selectedConjugation={selectedConjugation}
                   selectedVerb={selectedVerb}
                   isGeneratingMore={isGeneratingMoreExamples}
@@ -277,13 +534,36 @@ const App: React.FC = () => {
           </div>
         );
       case 'grammar':
-        return <GrammarExplorer />;
+        return (
+          <GrammarExplorer
+            topicId={route.topicId ?? null}
+            mode={route.grammarMode ?? null}
+            onNavigate={(topicId: string | null, mode?: GrammarMode) => navigate({ view: 'grammar', topicId: topicId ?? undefined, grammarMode: mode })}
+          />
+        );
       case 'vocabulary':
-        return <VocabularyExplorer />;
+        return (
+          <VocabularyExplorer
+            categoryId={route.categoryId ?? null}
+            onSelectCategory={categoryId => navigate({ view: 'vocabulary', categoryId: categoryId ?? undefined })}
+          />
+        );
       case 'functional':
-        return <FunctionalLanguageExplorer />;
+        return (
+          <FunctionalLanguageExplorer
+            domainId={route.domainId ?? null}
+            subtopicSlug={route.subtopic ?? null}
+            functionSlug={route.func ?? null}
+            onNavigate={(domainId, subtopicSlug, functionSlug) => navigate({
+              view: 'functional',
+              domainId: domainId ?? undefined,
+              subtopic: subtopicSlug ?? undefined,
+              func: functionSlug ?? undefined,
+            })}
+          />
+        );
       case 'ai_chat':
-        return <AiChat onClose={() => setActiveView('conjugator')} />;
+        return <AiChat onClose={() => handleViewChange('conjugator')} />;
       default:
         return null;
     }
@@ -291,11 +571,34 @@ const App: React.FC = () => {
 
   return (
     <div className="min-h-screen flex flex-col bg-slate-50">
-      <Header activeView={activeView} onViewChange={setActiveView} />
+      <Header
+        activeView={activeView}
+        onViewChange={handleViewChange}
+        variant={languageSettings.variant}
+        onVariantChange={variant => handleLanguageSettingsChange({ variant })}
+        onOpenBackup={() => setIsBackupOpen(true)}
+        profiles={profilesState.profiles}
+        activeProfile={activeProfile}
+        onSelectProfile={handleSelectProfile}
+        onCreateProfile={handleCreateProfile}
+        onRenameProfile={(profileId, name) => setProfilesState(prev => renameProfile(prev, profileId, name))}
+        onDeleteProfile={handleDeleteProfile}
+        vocabularyDueCount={getDueWords(wordBank, wordReviewSchedule).length}
+      />
       <main className="flex-grow container mx-auto p-4 md:p-6 lg:p-8">
         {renderActiveView()}
       </main>
       <Footer />
+      <ConjugationDrillModal
+        isOpen={isDrillOpen}
+        onClose={() => setIsDrillOpen(false)}
+        verbs={verbs}
+        initialVerb={selectedVerb}
+        languageSettings={languageSettings}
+        mastery={conjugationMastery}
+        onRecordAnswer={handleRecordDrillAnswer}
+      />
+      <BackupModal isOpen={isBackupOpen} onClose={() => setIsBackupOpen(false)} />
     </div>
   );
 };
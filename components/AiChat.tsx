@@ -1,9 +1,13 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { Card, CardContent } from './Card';
 import { Loader } from './Loader';
+import { ErrorMessage } from './ErrorMessage';
 import { CHAT_TOPICS } from '../constants';
 import { startChat, getChatResponseStream, getSuggestedResponse } from '../services/geminiService';
+import { getErrorMessage, isCancellation } from '../services/aiErrors';
 import type { ChatMessage } from '../types';
+import { CHAT_HISTORY_RECORD } from '../services/storedRecords';
+import { useStoredState } from '../hooks/useStoredState';
 
 type ChatState = 'selecting_topic' | 'starting_chat' | 'chatting' | 'error';
 
@@ -12,22 +16,41 @@ interface AiChatProps {
 }
 
 export const AiChat: React.FC<AiChatProps> = ({ onClose }) => {
-    const [chatState, setChatState] = useState<ChatState>('selecting_topic');
-    const [selectedTopic, setSelectedTopic] = useState<{ id: string, name: string } | null>(null);
-    const [messages, setMessages] = useState<ChatMessage[]>([]);
+    // The last conversation is picked up where it was left.
+    const [savedChat, setSavedChat] = useStoredState(CHAT_HISTORY_RECORD);
+    const [chatState, setChatState] = useState<ChatState>(savedChat ? 'chatting' : 'selecting_topic');
+    const [selectedTopic, setSelectedTopic] = useState<{ id: string, name: string } | null>(savedChat?.topic ?? null);
+    const [messages, setMessages] = useState<ChatMessage[]>(savedChat?.messages ?? []);
     const [userInput, setUserInput] = useState('');
     const [customTopicInput, setCustomTopicInput] = useState('');
     const [isLoadingResponse, setIsLoadingResponse] = useState(false);
     const [isLoadingSuggestion, setIsLoadingSuggestion] = useState(false);
     const [error, setError] = useState<string | null>(null);
+    // The message whose reply failed, so it can be sent again from the error bar.
+    const [failedMessage, setFailedMessage] = useState<string | null>(null);
     const [showTranslations, setShowTranslations] = useState(true);
 
     const chatEndRef = useRef<HTMLDivElement>(null);
+    // Shared by every request of the current conversation; aborted on restart and unmount.
+    const requestControllerRef = useRef<AbortController>(new AbortController());
+
+    useEffect(() => {
+        requestControllerRef.current = new AbortController();
+        return () => requestControllerRef.current.abort();
+    }, []);
 
     useEffect(() => {
         chatEndRef.current?.scrollIntoView({ behavior: 'smooth' });
     }, [messages]);
 
+    // Saved once each reply has finished streaming.
+    useEffect(() => {
+        if (chatState === 'chatting' && selectedTopic && !isLoadingResponse) {
+            setSavedChat({ topic: selectedTopic, messages });
+        }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [chatState, selectedTopic, messages, isLoadingResponse]);
+
     const handleSelectTopic = async (topic: { id: string, name: string }) => {
         setSelectedTopic(topic);
         setChatState('starting_chat');
@@ -35,7 +58,7 @@ export const AiChat: React.FC<AiChatProps> = ({ onClose }) => {
         setMessages([]);
 
         try {
-            const firstMessage = await startChat(topic.name);
+            const firstMessage = await startChat(topic.name, { signal: requestControllerRef.current.signal });
             setMessages([{
                 id: Date.now(),
                 sender: 'ai',
@@ -43,8 +66,9 @@ export const AiChat: React.FC<AiChatProps> = ({ onClose }) => {
             }]);
             setChatState('chatting');
         } catch (err) {
+            if (isCancellation(err)) return;
             console.error("Error starting chat:", err);
-            setError("Failed to start the chat. The AI might be busy. Please try again.");
+            setError(getErrorMessage(err, "Failed to start the chat. The AI might be busy. Please try again."));
             setChatState('error');
         }
     };
@@ -61,7 +85,11 @@ export const AiChat: React.FC<AiChatProps> = ({ onClose }) => {
     
     const handleSendMessage = async (e: React.FormEvent) => {
         e.preventDefault();
-        const trimmedInput = userInput.trim();
+        await sendMessage(userInput);
+    };
+
+    const sendMessage = async (text: string) => {
+        const trimmedInput = text.trim();
         if (!trimmedInput || isLoadingResponse) return;
     
         const userMessage: ChatMessage = {
@@ -77,9 +105,10 @@ export const AiChat: React.FC<AiChatProps> = ({ onClose }) => {
         setUserInput('');
         setIsLoadingResponse(true);
         setError(null);
+        setFailedMessage(null);
     
         try {
-            const stream = getChatResponseStream(currentMessages, trimmedInput);
+            const stream = getChatResponseStream(currentMessages, trimmedInput, { signal: requestControllerRef.current.signal });
             const aiMessageId = Date.now() + 1;
             let isAiMessageAdded = false;
     
@@ -118,9 +147,11 @@ export const AiChat: React.FC<AiChatProps> = ({ onClose }) => {
                 }
             }
         } catch (err) {
+            if (isCancellation(err)) return;
             console.error("Error in chat stream:", err);
-            setError("An error occurred during the conversation. Please try sending your message again.");
-            // Optional: remove the user's message on error to allow retry
+            setError(getErrorMessage(err, "An error occurred during the conversation. Please try sending your message again."));
+            setFailedMessage(trimmedInput);
+            // Remove the user's message on error so that retrying doesn't duplicate it
             setMessages(prev => prev.filter(msg => msg.id !== userMessage.id));
         } finally {
             setIsLoadingResponse(false);
@@ -131,21 +162,28 @@ export const AiChat: React.FC<AiChatProps> = ({ onClose }) => {
         setIsLoadingSuggestion(true);
         setError(null);
         try {
-            const suggestion = await getSuggestedResponse(messages);
+            const suggestion = await getSuggestedResponse(messages, { signal: requestControllerRef.current.signal });
             setUserInput(suggestion.portuguese);
         } catch (err) {
+            if (isCancellation(err)) return;
             console.error("Error getting suggestion:", err);
-            setError("Sorry, I couldn't get a suggestion right now.");
+            setError(getErrorMessage(err, "Sorry, I couldn't get a suggestion right now."));
         } finally {
             setIsLoadingSuggestion(false);
         }
     };
 
     const handleRestart = () => {
+        requestControllerRef.current.abort();
+        requestControllerRef.current = new AbortController();
         setChatState('selecting_topic');
         setSelectedTopic(null);
         setMessages([]);
+        setSavedChat(null);
         setError(null);
+        setFailedMessage(null);
+        setIsLoadingResponse(false);
+        setIsLoadingSuggestion(false);
     }
 
     const renderTopicSelection = () => {
@@ -281,7 +319,16 @@ export const AiChat: React.FC<AiChatProps> = ({ onClose }) => {
                  )}
                 <div ref={chatEndRef} />
             </div>
-            {error && <div className="p-2 text-sm text-center text-red-600 bg-red-50">{error}</div>}
+            {error && (
+                <div className="p-2 text-sm text-center text-red-600 bg-red-50">
+                    {error}
+                    {failedMessage && (
+                        <button onClick={() => sendMessage(failedMessage)} className="ml-2 font-semibold underline hover:text-red-800">
+                            Retry
+                        </button>
+                    )}
+                </div>
+            )}
             <div className="p-4 border-t border-slate-200 bg-white flex-shrink-0">
                 <form onSubmit={handleSendMessage} className="space-y-3">
                     <div className="flex items-center gap-3">
@@ -338,9 +385,9 @@ export const AiChat: React.FC<AiChatProps> = ({ onClose }) => {
             case 'error':
                  return (
                     <div className="flex flex-col items-center justify-center h-full text-center p-8">
-                        <p className="text-red-600 bg-red-50 p-4 rounded-lg">{error}</p>
+                        <ErrorMessage message={error ?? ''} onRetry={selectedTopic ? () => handleSelectTopic(selectedTopic) : undefined} />
                         <button onClick={handleRestart} className="mt-4 px-4 py-2 bg-indigo-600 text-white font-semibold rounded-md">
-                            Try Again
+                            Choose Another Topic
                         </button>
                     </div>
                 );
@@ -0,0 +1,79 @@
+import React from 'react';
+import type { AnswerGrade, DiffKind, DiffSegment } from '../utils/answerGrading';
+
+interface AnswerFeedbackProps {
+    grade: AnswerGrade;
+    // The answer to show, when it isn't the one the learner's answer was compared with
+    // (e.g. the whole translation rather than the meaning that matched).
+    answer?: string;
+}
+
+const SEGMENT_CLASSES: Record<DiffKind, string> = {
+    same: '',
+    accent: 'bg-amber-100 text-amber-800 underline decoration-amber-500',
+    extra: 'bg-red-100 text-red-700 line-through',
+    missing: 'bg-green-100 text-green-800 underline decoration-green-600',
+};
+
+// An answer with the letters to add, remove or re-accent highlighted.
+export const AnswerDiff: React.FC<{ diff: DiffSegment[] }> = ({ diff }) => (
+    <>
+        {diff.map((segment, index) => (
+            <span key={index} className={SEGMENT_CLASSES[segment.kind]}>{segment.text}</span>
+        ))}
+    </>
+);
+
+const getMessage = (grade: AnswerGrade): string => {
+    switch (grade.verdict) {
+        case 'exact':
+            return 'Correct!';
+        case 'accent':
+            return grade.isCorrect ? 'Correct! Just watch the accents.' : 'Check the accents.';
+        case 'typo':
+            return grade.isCorrect ? 'Correct, apart from a small typo.' : 'Almost: check the accents and spelling.';
+        case 'wrong-form':
+            return 'Right word, wrong form.';
+        case 'missing-article':
+            return 'Right word, but the article is missing.';
+        case 'wrong':
+            return 'Not quite.';
+    }
+};
+
+// Says how an answer was graded and, unless it was exact, shows the learner's answer with
+// the letters to fix highlighted.
+export const AnswerFeedback: React.FC<AnswerFeedbackProps> = ({ grade, answer = grade.expected }) => {
+    const showDiff = grade.verdict !== 'exact' && grade.verdict !== 'wrong';
+
+    return (
+        <div className="space-y-2 text-sm">
+            <div className={`flex items-center gap-2 font-semibold ${grade.isCorrect ? 'text-green-600' : 'text-red-600'}`}>
+                {grade.isCorrect ? (
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 flex-shrink-0" viewBox="0 0 20 20" fill="currentColor">
+                        <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" />
+                    </svg>
+                ) : (
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 flex-shrink-0" viewBox="0 0 20 20" fill="currentColor">
+                        <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zM8.707 7.293a1 1 0 00-1.414 1.414L8.586 10l-1.293 1.293a1 1 0 101.414 1.414L10 11.414l1.293 1.293a1 1 0 001.414-1.414L11.414 10l1.293-1.293a1 1 0 00-1.414-1.414L10 8.586 8.707 7.293z" clipRule="evenodd" />
+                    </svg>
+                )}
+                <span>{getMessage(grade)}</span>
+            </div>
+            {showDiff && (
+                <p className="text-slate-700">
+                    Your answer:{' '}
+                    <span className="font-mono font-bold" aria-label={`Your answer compared with ${grade.expected}`}>
+                        <AnswerDiff diff={grade.diff} />
+                    </span>
+                </p>
+            )}
+            {grade.verdict !== 'exact' && (
+                <p className="text-slate-700">
+                    {grade.isCorrect ? 'The exact spelling is: ' : 'Correct answer: '}
+                    <strong className="font-bold text-green-700">"{answer}"</strong>
+                </p>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,192 @@
+import React, { useEffect, useState } from 'react';
+import { applyBackup, BackupError, countCacheEntries, createBackup, getBackupFileName, parseBackup, previewBackup } from '../services/backup';
+import type { ImportMode, ParsedBackup } from '../services/backup';
+
+interface BackupModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export const BackupModal: React.FC<BackupModalProps> = ({ isOpen, onClose }) => {
+  const [includeCaches, setIncludeCaches] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [importFileName, setImportFileName] = useState('');
+  const [parsedBackup, setParsedBackup] = useState<ParsedBackup | null>(null);
+  const [importMode, setImportMode] = useState<ImportMode>('merge');
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setImportFileName('');
+      setParsedBackup(null);
+      setImportMode('merge');
+      setError(null);
+    }
+  }, [isOpen]);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setError(null);
+    try {
+      const backup = await createBackup({ includeCaches });
+      const url = URL.createObjectURL(new Blob([JSON.stringify(backup)], { type: 'application/json' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = getBackupFileName(backup);
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error("Error exporting learner data:", err);
+      setError("The backup couldn't be created. Please try again.");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setImportFileName(file.name);
+    setParsedBackup(null);
+    setError(null);
+    try {
+      setParsedBackup(parseBackup(await file.text()));
+    } catch (err) {
+      console.error("Error reading backup file:", err);
+      setError(err instanceof Error ? err.message : "The file couldn't be read.");
+    }
+  };
+
+  const handleImport = async () => {
+    if (!parsedBackup) return;
+    if (importMode === 'replace' && !window.confirm("Replace your current data with the backup? Anything not in the backup file is kept.")) return;
+    setIsImporting(true);
+    try {
+      await applyBackup(parsedBackup, importMode);
+      // Every view reads its data on load, so this is the simplest way to show the result.
+      window.location.reload();
+    } catch (err) {
+      console.error("Error importing learner data:", err);
+      setError(err instanceof BackupError ? err.message : "The backup couldn't be imported. Your data hasn't been changed.");
+      setIsImporting(false);
+    }
+  };
+
+  const renderPreview = () => {
+    if (!parsedBackup) return null;
+    const preview = previewBackup(parsedBackup);
+    const cacheEntryCount = countCacheEntries(parsedBackup);
+    return (
+      <div className="space-y-3">
+        {parsedBackup.exportedAt && (
+          <p className="text-sm text-slate-500">Exported on {new Date(parsedBackup.exportedAt).toLocaleString()}</p>
+        )}
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm text-left">
+            <thead>
+              <tr className="text-slate-500 border-b border-slate-200">
+                <th className="py-2 pr-3 font-semibold"></th>
+                <th className="py-2 pr-3 font-semibold">Now</th>
+                <th className="py-2 pr-3 font-semibold">In file</th>
+                <th className="py-2 font-semibold">{importMode === 'merge' ? 'After merging' : 'After replacing'}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {preview.map(item => (
+                <tr key={item.label} className="border-b border-slate-100">
+                  <th className="py-2 pr-3 font-medium text-slate-700">{item.label}</th>
+                  <td className="py-2 pr-3 text-slate-600">{item.current}</td>
+                  <td className="py-2 pr-3 text-slate-600">{item.incoming ?? '—'}</td>
+                  <td className="py-2 font-medium text-slate-800">
+                    {item.incoming === null ? item.current : importMode === 'merge' ? item.merged : item.incoming}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        {cacheEntryCount > 0 && (
+          <p className="text-sm text-slate-500">Also includes {cacheEntryCount} cached AI responses, which are added to yours.</p>
+        )}
+        {parsedBackup.invalidSections.length > 0 && (
+          <p className="text-sm text-amber-700 bg-amber-50 border border-amber-200 rounded-md px-3 py-2">
+            Skipped because they couldn't be read: {parsedBackup.invalidSections.join(', ')}.
+          </p>
+        )}
+        <div className="flex flex-wrap gap-4 text-sm text-slate-700">
+          <label className="flex items-center gap-2">
+            <input type="radio" name="import-mode" checked={importMode === 'merge'} onChange={() => setImportMode('merge')} className="text-indigo-600 focus:ring-indigo-500" />
+            <span><span className="font-semibold">Merge</span> — add what's missing and keep your settings</span>
+          </label>
+          <label className="flex items-center gap-2">
+            <input type="radio" name="import-mode" checked={importMode === 'replace'} onChange={() => setImportMode('replace')} className="text-indigo-600 focus:ring-indigo-500" />
+            <span><span className="font-semibold">Replace</span> — use the backup as it is</span>
+          </label>
+        </div>
+        <button
+          type="button"
+          onClick={handleImport}
+          disabled={isImporting}
+          className="w-full bg-indigo-600 text-white font-bold py-3 px-6 rounded-lg hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {isImporting ? 'Importing...' : 'Import'}
+        </button>
+      </div>
+    );
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4 animate-fade-in">
+        <style>{`
+            @keyframes fade-in { from { opacity: 0; } to { opacity: 1; } }
+            .animate-fade-in { animation: fade-in 0.2s ease-out forwards; }
+            @keyframes slide-up { from { opacity: 0; transform: translateY(20px); } to { opacity: 1; transform: translateY(0); } }
+            .animate-slide-up { animation: slide-up 0.3s ease-out forwards; }
+        `}</style>
+        <div className="bg-white rounded-xl shadow-2xl w-full max-w-2xl max-h-[90vh] flex flex-col overflow-hidden animate-slide-up relative">
+             <button onClick={onClose} className="absolute top-4 right-4 text-slate-400 hover:text-slate-600 transition-colors z-10" aria-label="Close backup">
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-7 w-7" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+            </button>
+            <div className="p-6 border-b border-slate-200 flex-shrink-0">
+              <h2 className="text-2xl font-bold text-slate-800">Backup</h2>
+              <p className="text-slate-500 mt-1">Your lists, word bank, topics and progress are only saved in this browser.</p>
+            </div>
+            <div className="flex-grow p-6 space-y-6 overflow-y-auto bg-slate-50">
+              <section className="space-y-3">
+                <h3 className="font-semibold text-slate-700">Export</h3>
+                <label className="flex items-center gap-2 text-sm text-slate-700">
+                  <input type="checkbox" checked={includeCaches} onChange={e => setIncludeCaches(e.target.checked)} className="rounded text-indigo-600 focus:ring-indigo-500" />
+                  <span>Include cached AI responses (a larger file, but fewer requests on the new machine)</span>
+                </label>
+                <button
+                  type="button"
+                  onClick={handleExport}
+                  disabled={isExporting}
+                  className="px-4 py-2 bg-white border border-slate-300 text-slate-700 text-sm font-semibold rounded-md shadow-sm hover:bg-slate-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50 transition-colors"
+                >
+                  {isExporting ? 'Exporting...' : 'Export my data'}
+                </button>
+              </section>
+              <section className="space-y-3">
+                <h3 className="font-semibold text-slate-700">Import</h3>
+                <label className="inline-flex items-center gap-3 text-sm text-slate-700">
+                  <span className="px-4 py-2 bg-white border border-slate-300 font-semibold rounded-md shadow-sm hover:bg-slate-50 cursor-pointer">Choose a backup file</span>
+                  <span className="text-slate-500">{importFileName}</span>
+                  <input type="file" accept=".json,application/json" onChange={handleFileChange} className="sr-only" />
+                </label>
+                {error && (
+                  <p className="text-sm text-red-700 bg-red-50 border border-red-200 rounded-md px-3 py-2" role="alert">{error}</p>
+                )}
+                {renderPreview()}
+              </section>
+            </div>
+        </div>
+    </div>
+  );
+};
@@ -1,56 +1,290 @@
-import React from 'react';
-import type { ConjugationData, SelectedConjugation } from '../types';
+import React, { useEffect, useMemo, useState } from 'react';
+import type { ConjugationData, ConjugationFocus, ConjugationForms, LanguageSettings, SelectedConjugation } from '../types';
+import { PRONOUN_LABELS, TENSE_LABELS } from '../constants';
+import { analyzeConjugations } from '../utils/conjugationAnalysis';
+import type { FormAnnotation, FormIrregularity } from '../utils/conjugationAnalysis';
+import { getMasteryKey, getMasteryLevel } from '../utils/conjugationMastery';
+import type { ConjugationMastery } from '../utils/conjugationMastery';
 import { Card, CardHeader, CardContent } from './Card';
 import { Loader } from './Loader';
+import { ErrorMessage } from './ErrorMessage';
 
 interface ConjugationDisplayProps {
   verb: string | null;
   conjugations: ConjugationData | null;
   isLoading: boolean;
   error: string | null;
+  onRetry?: () => void;
   selectedConjugation: SelectedConjugation | null;
   onSelectConjugation: (conjugation: SelectedConjugation) => void;
   onGenerateGeneralExamples: () => void;
+  languageSettings: LanguageSettings;
+  onLanguageSettingsChange: (changes: Partial<LanguageSettings>) => void;
+  // Cell to select as soon as this verb's table is shown.
+  focus?: ConjugationFocus | null;
+  onFocusHandled?: () => void;
+  mastery: ConjugationMastery;
+  onStartDrill: () => void;
 }
 
-const TENSE_MAP: { [key: string]: string } = {
-  presente: 'Present',
-  preterito_perfeito: 'Simple Past (Preterite)',
-  preterito_imperfeito: 'Imperfect Past',
-  preterito_perfeito_composto: 'Present Perfect',
-  futuro_do_presente: 'Simple Future',
-  futuro_do_preterito: 'Conditional',
-  presente_do_subjuntivo: 'Present Subjunctive',
-  imperfeito_do_subjuntivo: 'Imperfect Subjunctive',
-};
+type PersonTense = Exclude<keyof ConjugationData, 'gerundio' | 'participio'>;
+
+interface MoodGroup {
+  id: string;
+  label: string;
+  tenses: PersonTense[];
+  // Gerund and participle, which have a single form rather than one per pronoun.
+  showNonFinite?: boolean;
+}
 
-const TENSE_ORDER: (keyof ConjugationData)[] = [
-  'presente',
-  'preterito_perfeito',
-  'preterito_imperfeito',
-  'preterito_perfeito_composto',
-  'futuro_do_presente',
-  'futuro_do_preterito',
-  'presente_do_subjuntivo',
-  'imperfeito_do_subjuntivo',
+const MOOD_GROUPS: MoodGroup[] = [
+  {
+    id: 'indicative',
+    label: 'Indicative',
+    tenses: [
+      'presente',
+      'preterito_perfeito',
+      'preterito_imperfeito',
+      'preterito_mais_que_perfeito',
+      'preterito_perfeito_composto',
+      'preterito_mais_que_perfeito_composto',
+      'futuro_do_presente',
+      'futuro_do_preterito',
+    ],
+  },
+  { id: 'subjunctive', label: 'Subjunctive', tenses: ['presente_do_subjuntivo', 'imperfeito_do_subjuntivo', 'futuro_do_subjuntivo'] },
+  { id: 'imperative', label: 'Imperative', tenses: ['imperativo_afirmativo', 'imperativo_negativo'] },
+  { id: 'non_finite', label: 'Infinitive, Gerund & Participle', tenses: ['infinitivo_pessoal'], showNonFinite: true },
 ];
 
-const PRONOUNS: { key: keyof ConjugationData['presente']; label: string }[] = [
-    { key: 'eu', label: 'Eu' },
-    { key: 'voce', label: 'Você/Ele/Ela' },
-    { key: 'nos', label: 'Nós' },
-    { key: 'voces', label: 'Vocês/Eles/Elas' },
+// Groups that start collapsed, to keep the most used tenses near the top.
+const INITIALLY_COLLAPSED = ['imperative', 'non_finite'];
+
+const IRREGULARITY_STYLES: Record<FormIrregularity, { label: string; className: string; dotClassName: string }> = {
+  irregular: { label: 'Irregular', className: 'text-rose-700', dotClassName: 'bg-rose-500' },
+  stem_change: { label: 'Stem change', className: 'text-amber-700', dotClassName: 'bg-amber-500' },
+  spelling: { label: 'Spelling change', className: 'text-sky-700', dotClassName: 'bg-sky-500' },
+};
+
+// Heatmap colours for drill mastery, from never drilled to every recent answer right.
+const MASTERY_STYLES = [
+  { label: 'Not drilled', className: 'bg-slate-100 hover:bg-slate-200', minLevel: null },
+  { label: 'Struggling', className: 'bg-red-100 hover:bg-red-200', minLevel: 0 },
+  { label: 'Learning', className: 'bg-amber-100 hover:bg-amber-200', minLevel: 0.4 },
+  { label: 'Mastered', className: 'bg-green-100 hover:bg-green-200', minLevel: 0.8 },
 ];
 
+const getMasteryStyle = (level: number | null) =>
+  level === null ? MASTERY_STYLES[0] : [...MASTERY_STYLES].reverse().find(style => style.minLevel !== null && level >= style.minLevel)!;
+
+// "a", "a and b", "a, b and c"
+const joinList = (items: string[]) =>
+  items.length <= 1 ? items.join('') : `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}`;
+
+// Names a whole mood when every tense in it is listed: "the subjunctive" rather than its three tenses.
+const describeTenses = (tenses: string[]) => {
+  const parts = MOOD_GROUPS.flatMap(group => {
+    const groupTenses: string[] = group.showNonFinite ? [...group.tenses, 'gerundio', 'participio'] : group.tenses;
+    const listed = groupTenses.filter(tense => tenses.includes(tense));
+    if (listed.length > 1 && listed.length === groupTenses.length) return [`the ${group.label.toLowerCase()}`];
+    return listed.map(tense => `the ${TENSE_LABELS[tense].toLowerCase()}`);
+  });
+  return joinList(parts);
+};
+
+const PRONOUNS = (Object.keys(PRONOUN_LABELS) as (keyof ConjugationForms)[]).map(key => ({ key, label: PRONOUN_LABELS[key] }));
+
 export const ConjugationDisplay: React.FC<ConjugationDisplayProps> = ({
   verb,
   conjugations,
   isLoading,
   error,
+  onRetry,
   selectedConjugation,
   onSelectConjugation,
   onGenerateGeneralExamples,
+  languageSettings,
+  onLanguageSettingsChange,
+  focus,
+  onFocusHandled,
+  mastery,
+  onStartDrill,
 }) => {
+  const [collapsedGroups, setCollapsedGroups] = useState<string[]>(INITIALLY_COLLAPSED);
+  const [showMastery, setShowMastery] = useState(false);
+
+  const irregularities = useMemo(
+    () => verb && conjugations ? analyzeConjugations(verb, conjugations, languageSettings.variant) : null,
+    [verb, conjugations, languageSettings.variant]
+  );
+
+  useEffect(() => {
+    if (!focus || !verb || !conjugations || focus.verb.toLowerCase() !== verb.toLowerCase()) return;
+    onFocusHandled?.();
+
+    const [tense, key] = focus.path.split('.');
+    const group = MOOD_GROUPS.find(g => g.tenses.includes(tense as PersonTense)) ?? MOOD_GROUPS.find(g => g.showNonFinite);
+    setCollapsedGroups(prev => prev.filter(id => id !== group?.id));
+    if (key === 'tu' && !languageSettings.showTu) onLanguageSettingsChange({ showTu: true });
+    if (key === 'vos' && !languageSettings.showVos) onLanguageSettingsChange({ showVos: true });
+
+    const cell = getCell(tense, key);
+    const isSelected = selectedConjugation?.tense === tense && selectedConjugation?.pronoun === cell?.pronoun;
+    if (cell && !isSelected) {
+      onSelectConjugation({ verb, tense, path: focus.path, ...cell });
+      // Wait for the group to expand before scrolling to the cell.
+      setTimeout(() => document.getElementById(`form-${focus.path}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' }), 0);
+    }
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [focus, verb, conjugations]);
+
+  // The form at a path and the pronoun label it is shown with.
+  const getCell = (tense: string, key: string): { form: string; pronoun: string } | null => {
+    if (tense === 'gerundio') {
+      return conjugations?.gerundio ? { form: conjugations.gerundio, pronoun: 'Gerúndio' } : null;
+    }
+    if (tense === 'participio') {
+      const participles = conjugations?.participio || [];
+      const form = participles[Number(key)];
+      if (!form) return null;
+      return { form, pronoun: participles.length < 2 ? 'Particípio' : key === '0' ? 'Particípio (ter)' : 'Particípio (ser)' };
+    }
+    const form = (conjugations?.[tense as PersonTense] as Partial<ConjugationForms> | undefined)?.[key as keyof ConjugationForms];
+    return form ? { form, pronoun: PRONOUN_LABELS[key as keyof ConjugationForms] } : null;
+  };
+
+  const visiblePronouns = PRONOUNS.filter(({ key }) =>
+    (key !== 'tu' || languageSettings.showTu) && (key !== 'vos' || languageSettings.showVos)
+  );
+
+  const toggleGroup = (groupId: string) => {
+    setCollapsedGroups(prev => prev.includes(groupId) ? prev.filter(id => id !== groupId) : [...prev, groupId]);
+  };
+
+  const renderFormButton = (tense: string, pronounLabel: string, form: string, path: string) => {
+    const isSelected = selectedConjugation?.tense === tense && selectedConjugation?.pronoun === pronounLabel;
+    const annotation: FormAnnotation | undefined = irregularities?.forms[path];
+    const style = annotation && IRREGULARITY_STYLES[annotation.kind];
+    // Only forms with one per pronoun are drilled, so the gerund and participles have no mastery.
+    const [, pronounKey] = path.split('.');
+    const masteryStyle = showMastery && verb && pronounKey in PRONOUN_LABELS
+      ? getMasteryStyle(getMasteryLevel(mastery[getMasteryKey(verb, tense, pronounKey as keyof ConjugationForms)]))
+      : null;
+
+    return (
+        <button
+        key={`${tense}-${pronounLabel}`}
+        id={`form-${path}`}
+        onClick={() => verb && onSelectConjugation({ verb, form, tense, pronoun: pronounLabel, path })}
+        className={`p-3 rounded-lg transition-all duration-200 ease-in-out text-left flex items-center space-x-3 focus:outline-none focus-visible:ring-2 focus-visible:ring-offset-2 focus-visible:ring-indigo-500 ${
+            isSelected
+            ? 'bg-indigo-100 text-indigo-800 ring-2 ring-indigo-500'
+            : masteryStyle ? masteryStyle.className : 'bg-slate-100 hover:bg-slate-200'
+        }`}
+        title={masteryStyle ? masteryStyle.label : undefined}
+        >
+          <div className="flex items-baseline space-x-3">
+            <span className="font-medium text-slate-600 w-32 shrink-0">{pronounLabel}</span>
+            <span
+              className={`font-bold ${style ? style.className : 'text-slate-900'}`}
+              title={annotation && `${style.label} (regular pattern: ${annotation.regularForm})`}
+            >
+              {form}
+            </span>
+            {style && <span className={`w-1.5 h-1.5 rounded-full self-center ${style.dotClassName}`} aria-label={style.label} />}
+          </div>
+        </button>
+    );
+  };
+
+  const renderTense = (tense: PersonTense) => {
+    // Imperative tenses have no "eu" form.
+    const forms: Partial<ConjugationForms> | undefined = conjugations?.[tense];
+    if (!forms) return null;
+
+    return (
+      <div key={tense}>
+        <h3 className="text-lg font-semibold text-indigo-700 mb-3 capitalize">{TENSE_LABELS[tense]}</h3>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            {visiblePronouns.map(({key: pronounKey, label: pronounLabel}) => {
+                const form = forms[pronounKey];
+                if (!form) return null;
+                return renderFormButton(tense, pronounLabel, form, `${tense}.${pronounKey}`);
+            })}
+        </div>
+      </div>
+    );
+  };
+
+  const renderNonFinite = () => {
+    if (!conjugations) return null;
+
+    return (
+      <div>
+        <h3 className="text-lg font-semibold text-indigo-700 mb-3 capitalize">{TENSE_LABELS.gerundio} &amp; {TENSE_LABELS.participio}</h3>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            {['gerundio', 'participio.0', 'participio.1'].map(path => {
+                const [tense, key] = path.split('.');
+                const cell = getCell(tense, key);
+                return cell && renderFormButton(tense, cell.pronoun, cell.form, path);
+            })}
+        </div>
+      </div>
+    );
+  };
+
+  const renderPronounToggle = (setting: 'showTu' | 'showVos', label: string) => (
+    <button
+      onClick={() => onLanguageSettingsChange({ [setting]: !languageSettings[setting] })}
+      className={`px-2 py-1 text-xs font-semibold rounded-md border transition-colors ${
+        languageSettings[setting]
+          ? 'bg-indigo-100 text-indigo-700 border-indigo-200'
+          : 'bg-white text-slate-500 border-slate-300 hover:bg-slate-50'
+      }`}
+      aria-pressed={languageSettings[setting]}
+    >
+      {label}
+    </button>
+  );
+
+  const renderMasteryLegend = () => (
+    <div className="flex flex-wrap items-center gap-3 text-xs text-slate-500 px-1">
+      <span className="font-semibold">Drill mastery:</span>
+      {MASTERY_STYLES.map(style => (
+        <span key={style.label} className="flex items-center gap-1">
+          <span className={`w-3 h-3 rounded ${style.className}`} />
+          {style.label}
+        </span>
+      ))}
+    </div>
+  );
+
+  const renderIrregularitySummary = () => {
+    if (!irregularities) return null;
+    const { irregularTenses, stemChangeTenses, spellingTenses } = irregularities;
+    const sentences = [
+      irregularTenses.length > 0 && `Irregular in ${describeTenses(irregularTenses)}.`,
+      stemChangeTenses.length > 0 && `Stem vowel changes in ${describeTenses(stemChangeTenses)}.`,
+      spellingTenses.length > 0 && `Spelling changes in ${describeTenses(spellingTenses)}.`,
+    ].filter(Boolean);
+
+    return (
+      <div className="rounded-lg bg-slate-50 border border-slate-200 px-4 py-3 text-sm text-slate-700">
+        <p>{sentences.length > 0 ? sentences.join(' ') : 'Regular verb: every form follows the pattern of its class.'}</p>
+        {sentences.length > 0 && (
+          <div className="flex flex-wrap gap-3 mt-2 text-xs text-slate-500">
+            {(Object.keys(IRREGULARITY_STYLES) as FormIrregularity[]).map(kind => (
+              <span key={kind} className="flex items-center gap-1">
+                <span className={`w-1.5 h-1.5 rounded-full ${IRREGULARITY_STYLES[kind].dotClassName}`} />
+                {IRREGULARITY_STYLES[kind].label}
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
   const renderContent = () => {
     if (isLoading) {
       return (
@@ -61,7 +295,7 @@ export const ConjugationDisplay: React.FC<ConjugationDisplayProps> = ({
     }
 
     if (error) {
-      return <div className="p-4 text-center text-red-600 bg-red-50 rounded-lg">{error}</div>;
+      return <ErrorMessage message={error} onRetry={onRetry} />;
     }
 
     if (!conjugations) {
@@ -69,41 +303,31 @@ export const ConjugationDisplay: React.FC<ConjugationDisplayProps> = ({
     }
 
     return (
-      <div className="space-y-6">
-        {TENSE_ORDER.map((tense) => {
-            const forms = conjugations[tense];
-            if (!forms) return null;
-
+      <div className="space-y-4">
+        {renderIrregularitySummary()}
+        {showMastery && renderMasteryLegend()}
+        {MOOD_GROUPS.map(group => {
+            const isCollapsed = collapsedGroups.includes(group.id);
             return (
-              <div key={tense}>
-                <h3 className="text-lg font-semibold text-indigo-700 mb-3 capitalize">{TENSE_MAP[tense]}</h3>
-                <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
-                    {PRONOUNS.map(({key: pronounKey, label: pronounLabel}) => {
-                        const form = forms[pronounKey];
-                        if (!form) return null;
-
-                        const isSelected = selectedConjugation?.tense === tense && selectedConjugation?.pronoun === pronounLabel;
-                        
-                        return (
-                            <button
-                            key={pronounKey}
-                            onClick={() => verb && onSelectConjugation({ verb, form, tense, pronoun: pronounLabel })}
-                            className={`p-3 rounded-lg transition-all duration-200 ease-in-out text-left flex items-center space-x-3 focus:outline-none focus-visible:ring-2 focus-visible:ring-offset-2 focus-visible:ring-indigo-500 ${
-                                isSelected
-                                ? 'bg-indigo-100 text-indigo-800 ring-2 ring-indigo-500'
-                                : 'bg-slate-100 hover:bg-slate-200'
-                            }`}
-                            >
-                              <div className="flex items-baseline space-x-3">
-                                <span className="font-medium text-slate-600 w-32 shrink-0">{pronounLabel}</span>
-                                <span className="font-bold text-slate-900">{form}</span>
-                              </div>
-                            </button>
-                        )
-                    })}
-                </div>
-              </div>
-            )
+              <section key={group.id} className="border border-slate-200 rounded-lg">
+                <button
+                  onClick={() => toggleGroup(group.id)}
+                  className="w-full flex items-center justify-between px-4 py-3 text-left font-bold text-slate-800 hover:bg-slate-50 rounded-lg focus:outline-none focus-visible:ring-2 focus-visible:ring-indigo-500"
+                  aria-expanded={!isCollapsed}
+                >
+                  <span>{group.label}</span>
+                  <svg xmlns="http://www.w3.org/2000/svg" className={`h-5 w-5 text-slate-500 transition-transform ${isCollapsed ? '' : 'rotate-180'}`} viewBox="0 0 20 20" fill="currentColor">
+                    <path fillRule="evenodd" d="M5.293 7.293a1 1 0 011.414 0L10 10.586l3.293-3.293a1 1 0 111.414 1.414l-4 4a1 1 0 01-1.414 0l-4-4a1 1 0 010-1.414z" clipRule="evenodd" />
+                  </svg>
+                </button>
+                {!isCollapsed && (
+                  <div className="space-y-6 px-4 pb-4">
+                    {group.tenses.map(renderTense)}
+                    {group.showNonFinite && renderNonFinite()}
+                  </div>
+                )}
+              </section>
+            );
         })}
       </div>
     );
@@ -118,8 +342,35 @@ export const ConjugationDisplay: React.FC<ConjugationDisplayProps> = ({
                 Conjugations for <span className="text-indigo-600">{verb || '...'}</span>
                 </h2>
                 <p className="text-sm text-slate-500">Click a form to see examples</p>
+                <div className="flex items-center gap-2 mt-2">
+                    <span className="text-xs text-slate-500">Also show:</span>
+                    {renderPronounToggle('showTu', 'tu')}
+                    {renderPronounToggle('showVos', 'vós')}
+                    <button
+                      onClick={() => setShowMastery(prev => !prev)}
+                      className={`px-2 py-1 text-xs font-semibold rounded-md border transition-colors ${
+                        showMastery
+                          ? 'bg-indigo-100 text-indigo-700 border-indigo-200'
+                          : 'bg-white text-slate-500 border-slate-300 hover:bg-slate-50'
+                      }`}
+                      aria-pressed={showMastery}
+                    >
+                      Mastery
+                    </button>
+                </div>
             </div>
             {verb && (
+              <div className="flex flex-col sm:flex-row gap-2 flex-shrink-0">
+                <button
+                    onClick={onStartDrill}
+                    className="flex-shrink-0 px-3 py-2 bg-white border border-slate-300 text-slate-700 text-sm font-semibold rounded-md shadow-sm hover:bg-slate-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 transition-colors flex items-center gap-2"
+                    aria-label={`Start a conjugation drill for ${verb}`}
+                >
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                        <path strokeLinecap="round" strokeLinejoin="round" d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                    </svg>
+                    <span>Drill</span>
+                </button>
                 <button
                     onClick={onGenerateGeneralExamples}
                     className="flex-shrink-0 px-3 py-2 bg-white border border-slate-300 text-slate-700 text-sm font-semibold rounded-md shadow-sm hover:bg-slate-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 transition-colors flex items-center gap-2"
@@ -130,6 +381,7 @@ export const ConjugationDisplay: React.FC<ConjugationDisplayProps> = ({
                     </svg>
                     <span>Verb Examples</span>
                 </button>
+              </div>
             )}
         </div>
       </CardHeader>
@@ -0,0 +1,405 @@
+import React, { useState, useEffect, useRef } from 'react';
+import type { ConjugationData, ConjugationForms, LanguageSettings } from '../types';
+import { getConjugations } from '../services/geminiService';
+import { getErrorMessage, isCancellation } from '../services/aiErrors';
+import { PRONOUN_LABELS, TENSE_LABELS } from '../constants';
+import { getMasteryKey, getMasteryLevel } from '../utils/conjugationMastery';
+import type { ConjugationMastery } from '../utils/conjugationMastery';
+import { listForms } from '../utils/conjugationEngine';
+import { gradeAnswer } from '../utils/answerGrading';
+import type { AnswerGrade } from '../utils/answerGrading';
+import { AnswerFeedback } from './AnswerFeedback';
+import { Loader } from './Loader';
+
+interface ConjugationDrillModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  verbs: string[];
+  initialVerb: string | null;
+  languageSettings: LanguageSettings;
+  mastery: ConjugationMastery;
+  onRecordAnswer: (verb: string, tense: string, pronoun: keyof ConjugationForms, correct: boolean) => void;
+}
+
+type DrillStatus = 'setup' | 'loading' | 'running' | 'finished' | 'error';
+
+interface DrillItem {
+  verb: string;
+  tense: string;
+  pronoun: keyof ConjugationForms;
+  answer: string;
+  // The verb's other forms, so that typing one of them is marked as a wrong form.
+  otherForms: string[];
+}
+
+interface DrillFeedback {
+  item: DrillItem;
+  userAnswer: string;
+  grade: AnswerGrade;
+}
+
+// Every tense with one form per pronoun; the gerund and participle aren't drilled.
+const DRILL_TENSES = Object.keys(TENSE_LABELS).filter(tense => tense !== 'gerundio' && tense !== 'participio');
+const DEFAULT_TENSES = ['presente', 'preterito_perfeito'];
+const TIME_LIMITS = [1, 2, 5];
+
+// "não" is optional in negative imperative answers, and spacing doesn't matter.
+const simplifyAnswer = (str: string) => str.trim().toLowerCase().replace(/\s+/g, ' ').replace(/^não /, '');
+
+const shuffle = <T,>(items: T[]): T[] => {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+};
+
+const toggleItem = <T,>(list: T[], item: T): T[] =>
+  list.includes(item) ? list.filter(existing => existing !== item) : [...list, item];
+
+export const ConjugationDrillModal: React.FC<ConjugationDrillModalProps> = ({
+  isOpen,
+  onClose,
+  verbs,
+  initialVerb,
+  languageSettings,
+  mastery,
+  onRecordAnswer,
+}) => {
+  const [status, setStatus] = useState<DrillStatus>('setup');
+  const [error, setError] = useState<string | null>(null);
+  const [selectedVerbs, setSelectedVerbs] = useState<string[]>([]);
+  const [selectedTenses, setSelectedTenses] = useState<string[]>(DEFAULT_TENSES);
+  const [selectedPronouns, setSelectedPronouns] = useState<(keyof ConjugationForms)[]>([]);
+  const [timeLimitMinutes, setTimeLimitMinutes] = useState(2);
+  const [accentStrict, setAccentStrict] = useState(false);
+
+  const [queue, setQueue] = useState<DrillItem[]>([]);
+  const [position, setPosition] = useState(0);
+  const [userAnswer, setUserAnswer] = useState('');
+  const [feedback, setFeedback] = useState<DrillFeedback | null>(null);
+  const [results, setResults] = useState<DrillFeedback[]>([]);
+  const [secondsLeft, setSecondsLeft] = useState(0);
+
+  const requestRef = useRef<AbortController | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const availablePronouns = (Object.keys(PRONOUN_LABELS) as (keyof ConjugationForms)[]).filter(pronoun =>
+    (pronoun !== 'tu' || languageSettings.showTu) && (pronoun !== 'vos' || languageSettings.showVos)
+  );
+
+  useEffect(() => {
+    if (isOpen) {
+      setSelectedVerbs(initialVerb ? [initialVerb] : verbs.slice(0, 1));
+      setSelectedPronouns(availablePronouns);
+      setStatus('setup');
+    } else {
+      requestRef.current?.abort();
+      // Delay reset to allow for fade-out animation
+      setTimeout(() => {
+        setQueue([]);
+        setResults([]);
+        setFeedback(null);
+        setUserAnswer('');
+        setError(null);
+      }, 300);
+    }
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen]);
+
+  // Counts down while the drill runs; running out of time ends it.
+  useEffect(() => {
+    if (status !== 'running') return;
+    if (secondsLeft <= 0) {
+      setStatus('finished');
+      return;
+    }
+    const timerId = setTimeout(() => setSecondsLeft(seconds => seconds - 1), 1000);
+    return () => clearTimeout(timerId);
+  }, [status, secondsLeft]);
+
+  useEffect(() => {
+    if (status === 'running') inputRef.current?.focus();
+  }, [status, position]);
+
+  // The least practised cells come first; the order among equals is random.
+  const buildQueue = (tables: [string, ConjugationData][]): DrillItem[] => {
+    const items = tables.flatMap(([verb, table]) => {
+      const otherForms = listForms(table).map(simplifyAnswer);
+      return selectedTenses.flatMap(tense => {
+        const forms = table[tense as keyof ConjugationData] as Partial<ConjugationForms> | undefined;
+        return selectedPronouns
+          .filter(pronoun => forms?.[pronoun])
+          .map(pronoun => ({ verb, tense, pronoun, answer: forms![pronoun]!, otherForms }));
+      });
+    });
+    const level = (item: DrillItem) => getMasteryLevel(mastery[getMasteryKey(item.verb, item.tense, item.pronoun)]) ?? -1;
+    return shuffle(items).sort((a, b) => level(a) - level(b));
+  };
+
+  const startDrill = async () => {
+    requestRef.current?.abort();
+    const controller = new AbortController();
+    requestRef.current = controller;
+
+    setStatus('loading');
+    setError(null);
+    try {
+      const tables = await Promise.all(selectedVerbs.map(async verb =>
+        [verb, await getConjugations(verb, { signal: controller.signal })] as [string, ConjugationData]
+      ));
+      const items = buildQueue(tables);
+      if (items.length === 0) {
+        throw new Error("None of the selected tenses have forms for the selected pronouns.");
+      }
+      setQueue(items);
+      setPosition(0);
+      setResults([]);
+      setFeedback(null);
+      setUserAnswer('');
+      setSecondsLeft(timeLimitMinutes * 60);
+      setStatus('running');
+    } catch (err) {
+      if (isCancellation(err)) return;
+      console.error("Failed to start conjugation drill:", err);
+      setError(getErrorMessage(err, "Could not load the conjugations for the drill. Please try again."));
+      setStatus('error');
+    }
+  };
+
+  const currentItem = queue.length > 0 ? queue[position % queue.length] : null;
+
+  const handleSubmitAnswer = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!currentItem || status !== 'running') return;
+
+    // The first Enter checks the answer, the second moves on.
+    if (feedback) {
+      setFeedback(null);
+      setUserAnswer('');
+      setPosition(p => p + 1);
+      return;
+    }
+
+    const grade = gradeAnswer(simplifyAnswer(userAnswer), simplifyAnswer(currentItem.answer), { otherForms: currentItem.otherForms, accentStrict, allowTypos: false });
+    const result = { item: currentItem, userAnswer, grade };
+    onRecordAnswer(currentItem.verb, currentItem.tense, currentItem.pronoun, grade.isCorrect);
+    setResults(prev => [...prev, result]);
+    setFeedback(result);
+  };
+
+  const formatTime = (seconds: number) => `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+  const renderCheckboxList = <T extends string,>(options: T[], selected: T[], onToggle: (option: T) => void, getLabel: (option: T) => string) => (
+    <div className="flex flex-wrap gap-2">
+      {options.map(option => (
+        <button
+          key={option}
+          type="button"
+          onClick={() => onToggle(option)}
+          className={`px-3 py-1.5 text-sm font-medium rounded-md border transition-colors ${
+            selected.includes(option)
+              ? 'bg-indigo-100 text-indigo-700 border-indigo-300'
+              : 'bg-white text-slate-600 border-slate-300 hover:bg-slate-50'
+          }`}
+          aria-pressed={selected.includes(option)}
+        >
+          {getLabel(option)}
+        </button>
+      ))}
+    </div>
+  );
+
+  const renderSetup = () => (
+    <div className="flex flex-col flex-grow min-h-0">
+      <div className="p-6 border-b border-slate-200 flex-shrink-0">
+        <h2 className="text-2xl font-bold text-slate-800">Conjugation Drill</h2>
+        <p className="text-slate-500 mt-1">Choose what to practise, then type as many forms as you can before time runs out.</p>
+      </div>
+      <div className="flex-grow p-6 space-y-5 overflow-y-auto bg-slate-50">
+        <div>
+          <h3 className="font-semibold text-slate-700 mb-2">Verbs</h3>
+          {renderCheckboxList(verbs, selectedVerbs, verb => setSelectedVerbs(prev => toggleItem(prev, verb)), verb => verb)}
+        </div>
+        <div>
+          <h3 className="font-semibold text-slate-700 mb-2">Tenses</h3>
+          {renderCheckboxList(DRILL_TENSES, selectedTenses, tense => setSelectedTenses(prev => toggleItem(prev, tense)), tense => TENSE_LABELS[tense])}
+        </div>
+        <div>
+          <h3 className="font-semibold text-slate-700 mb-2">Pronouns</h3>
+          {renderCheckboxList(availablePronouns, selectedPronouns, pronoun => setSelectedPronouns(prev => toggleItem(prev, pronoun)), pronoun => PRONOUN_LABELS[pronoun])}
+        </div>
+        <div className="flex flex-wrap items-center gap-6">
+          <label className="flex items-center gap-2 text-sm text-slate-700">
+            <span className="font-semibold">Time limit</span>
+            <select
+              value={timeLimitMinutes}
+              onChange={e => setTimeLimitMinutes(Number(e.target.value))}
+              className="px-2 py-1 bg-white border border-slate-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            >
+              {TIME_LIMITS.map(minutes => <option key={minutes} value={minutes}>{minutes} min</option>)}
+            </select>
+          </label>
+          <label className="flex items-center gap-2 text-sm text-slate-700">
+            <input type="checkbox" checked={accentStrict} onChange={e => setAccentStrict(e.target.checked)} className="rounded text-indigo-600 focus:ring-indigo-500" />
+            <span>Accents must be exact</span>
+          </label>
+        </div>
+      </div>
+      <div className="p-6 border-t border-slate-200 bg-white flex-shrink-0">
+        <button
+          type="button"
+          onClick={startDrill}
+          disabled={selectedVerbs.length === 0 || selectedTenses.length === 0 || selectedPronouns.length === 0}
+          className="w-full bg-indigo-600 text-white font-bold py-3 px-6 rounded-lg hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          Start Drill
+        </button>
+      </div>
+    </div>
+  );
+
+  const renderRunning = () => {
+    if (!currentItem) return null;
+
+    return (
+      <form onSubmit={handleSubmitAnswer} className="flex flex-col flex-grow min-h-0">
+        <div className="p-6 border-b border-slate-200 flex-shrink-0 flex items-center justify-between pr-14">
+          <h2 className="text-2xl font-bold text-slate-800">Conjugation Drill</h2>
+          <div className="text-right">
+            <p className={`text-2xl font-bold tabular-nums ${secondsLeft <= 10 ? 'text-red-600' : 'text-indigo-600'}`}>{formatTime(secondsLeft)}</p>
+            <p className="text-xs text-slate-500">{results.filter(r => r.grade.isCorrect).length} / {results.length} correct</p>
+          </div>
+        </div>
+        <div className="flex-grow p-6 bg-slate-50 space-y-4">
+          <div className="text-center">
+            <p className="text-sm font-semibold text-slate-500 uppercase tracking-wide">{TENSE_LABELS[currentItem.tense]}</p>
+            <p className="mt-2 text-3xl font-bold text-slate-800">
+              <span className="text-indigo-600">{currentItem.verb}</span> · {PRONOUN_LABELS[currentItem.pronoun]}
+            </p>
+          </div>
+          <input
+            ref={inputRef}
+            type="text"
+            value={userAnswer}
+            onChange={e => setUserAnswer(e.target.value)}
+            readOnly={!!feedback}
+            className={`block w-full px-4 py-3 bg-white border-2 rounded-lg text-2xl text-center font-bold shadow-sm focus:outline-none focus:ring-1 ${
+              feedback
+                ? feedback.grade.isCorrect ? 'border-green-500 text-green-700' : 'border-red-500 text-red-700'
+                : 'border-slate-300 text-indigo-700 focus:border-indigo-500 focus:ring-indigo-500'
+            }`}
+            aria-label="Your answer"
+            autoComplete="off"
+            autoCapitalize="off"
+            spellCheck={false}
+          />
+          {feedback && (
+            <div className={`p-3 rounded-lg ${feedback.grade.isCorrect ? 'bg-green-50' : 'bg-red-50'}`}>
+              <AnswerFeedback grade={feedback.grade} answer={feedback.item.answer} />
+              <p className="text-xs text-slate-500 mt-2">Press Enter to continue</p>
+            </div>
+          )}
+        </div>
+        <div className="p-6 border-t border-slate-200 bg-white flex-shrink-0 flex gap-3">
+          <button type="button" onClick={() => setStatus('finished')} className="px-6 py-3 bg-white border border-slate-300 text-slate-700 text-sm font-semibold rounded-md shadow-sm hover:bg-slate-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 transition-colors">
+            Finish
+          </button>
+          <button type="submit" className="flex-1 bg-indigo-600 text-white font-bold py-3 px-6 rounded-lg hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 transition-colors">
+            {feedback ? 'Next' : 'Check'}
+          </button>
+        </div>
+      </form>
+    );
+  };
+
+  const renderFinished = () => {
+    const mistakes = results.filter(result => !result.grade.isCorrect);
+    return (
+      <div className="flex flex-col flex-grow min-h-0">
+        <div className="p-6 border-b border-slate-200 flex-shrink-0">
+          <h2 className="text-2xl font-bold text-slate-800">Drill Complete!</h2>
+        </div>
+        <div className="flex-grow p-6 space-y-4 overflow-y-auto bg-slate-50">
+          <div className="p-4 text-center bg-indigo-50 rounded-xl border border-indigo-200">
+            <p className="text-2xl font-bold text-slate-700">
+              You got <span className="text-indigo-600">{results.length - mistakes.length}</span> / <span className="text-slate-500">{results.length}</span> right
+            </p>
+            <p className="mt-1 text-sm text-slate-500">Your progress is shown on the conjugation tables when "Mastery" is switched on.</p>
+          </div>
+          {mistakes.length > 0 && (
+            <div>
+              <h3 className="font-semibold text-slate-700 mb-2">To review</h3>
+              <ul className="space-y-2">
+                {mistakes.map((mistake, index) => (
+                  <li key={index} className="p-3 bg-white border border-slate-200 rounded-lg text-sm">
+                    <span className="font-semibold text-slate-700">{mistake.item.verb} · {TENSE_LABELS[mistake.item.tense]} · {PRONOUN_LABELS[mistake.item.pronoun]}</span>
+                    <span className="block text-slate-600">
+                      <span className="line-through text-red-600">{mistake.userAnswer || '—'}</span> → <strong className="text-green-700">{mistake.item.answer}</strong>
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+        <div className="p-6 border-t border-slate-200 bg-white flex-shrink-0 flex flex-col sm:flex-row gap-3">
+          <button type="button" onClick={onClose} className="w-full sm:w-auto px-6 py-3 bg-white border border-slate-300 text-slate-700 text-sm font-semibold rounded-md shadow-sm hover:bg-slate-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 transition-colors">
+            Close
+          </button>
+          <button type="button" onClick={() => setStatus('setup')} className="w-full sm:flex-1 bg-indigo-600 text-white font-bold py-3 px-6 rounded-lg hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 transition-colors">
+            New Drill
+          </button>
+        </div>
+      </div>
+    );
+  };
+
+  const renderContent = () => {
+    switch (status) {
+      case 'setup':
+        return renderSetup();
+      case 'loading':
+        return <div className="p-12"><Loader message="Loading conjugations..." size="lg" /></div>;
+      case 'running':
+        return renderRunning();
+      case 'finished':
+        return renderFinished();
+      case 'error':
+        return (
+          <div className="text-center p-6">
+            <h3 className="text-xl font-bold mb-2 text-red-600">An Error Occurred</h3>
+            <p className="text-slate-600">{error}</p>
+            <div className="mt-6 flex justify-center gap-3">
+              <button onClick={() => setStatus('setup')} className="bg-slate-600 text-white font-bold py-2 px-4 rounded-lg">Back</button>
+              <button onClick={startDrill} className="bg-indigo-600 text-white font-bold py-2 px-4 rounded-lg hover:bg-indigo-700">Try Again</button>
+            </div>
+          </div>
+        );
+      default:
+        return null;
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4 animate-fade-in">
+        <style>{`
+            @keyframes fade-in { from { opacity: 0; } to { opacity: 1; } }
+            .animate-fade-in { animation: fade-in 0.2s ease-out forwards; }
+            @keyframes slide-up { from { opacity: 0; transform: translateY(20px); } to { opacity: 1; transform: translateY(0); } }
+            .animate-slide-up { animation: slide-up 0.3s ease-out forwards; }
+        `}</style>
+        <div className="bg-white rounded-xl shadow-2xl w-full max-w-2xl max-h-[90vh] flex flex-col overflow-hidden animate-slide-up relative">
+             <button onClick={onClose} className="absolute top-4 right-4 text-slate-400 hover:text-slate-600 transition-colors z-10" aria-label="Close conjugation drill">
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-7 w-7" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+            </button>
+            {renderContent()}
+        </div>
+    </div>
+  );
+};
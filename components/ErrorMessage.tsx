@@ -0,0 +1,24 @@
+import React from 'react';
+
+interface ErrorMessageProps {
+  message: string;
+  onRetry?: () => void;
+  retryLabel?: string;
+  className?: string;
+}
+
+export const ErrorMessage: React.FC<ErrorMessageProps> = ({ message, onRetry, retryLabel = 'Try Again', className = '' }) => {
+  return (
+    <div className={`p-4 text-center text-red-600 bg-red-50 rounded-lg ${className}`} role="alert">
+      <p>{message}</p>
+      {onRetry && (
+        <button
+          onClick={onRetry}
+          className="mt-3 px-4 py-1.5 text-sm bg-white text-red-700 font-semibold border border-red-200 rounded-md hover:bg-red-100 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 transition-colors"
+        >
+          {retryLabel}
+        </button>
+      )}
+    </div>
+  );
+};
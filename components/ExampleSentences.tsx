@@ -2,13 +2,16 @@ import React, { useState, useRef, useEffect } from 'react';
 import type { Example, SelectedConjugation } from '../types';
 import { Card, CardHeader, CardContent } from './Card';
 import { Loader } from './Loader';
+import { ErrorMessage } from './ErrorMessage';
 import { getSpeech } from '../services/geminiService';
+import { getErrorMessage, isCancellation } from '../services/aiErrors';
 import { playAudio } from '../utils/audio';
 
 interface ExampleSentencesProps {
   examples: Example[] | null;
   isLoading: boolean;
   error: string | null;
+  onRetry?: () => void;
   selectedConjugation: SelectedConjugation | null;
   selectedVerb: string | null;
   isGeneratingMore: boolean;
@@ -41,6 +44,7 @@ export const ExampleSentences: React.FC<ExampleSentencesProps> = ({
   examples,
   isLoading,
   error,
+  onRetry,
   selectedConjugation,
   selectedVerb,
   isGeneratingMore,
@@ -57,15 +61,20 @@ export const ExampleSentences: React.FC<ExampleSentencesProps> = ({
       return;
     }
 
+    // Prefetches for a previous set of examples are cancelled once it's replaced. Clicking
+    // play joins an in-flight prefetch instead of starting a second request.
+    const controller = new AbortController();
+
     const prefetchAudio = async (text: string) => {
       // Don't re-fetch if already in cache
       if (audioCache[text]) return; 
 
       try {
-        const audioBase64 = await getSpeech(text);
+        const audioBase64 = await getSpeech(text, { priority: 'prefetch', signal: controller.signal });
         // Use a functional update to avoid stale closures
         setAudioCache(prevCache => ({ ...prevCache, [text]: audioBase64 }));
       } catch (error) {
+        if (isCancellation(error)) return;
         console.warn(`Silent prefetch failed for: "${text}"`, error);
         // We fail silently. The user can still click to trigger a manual fetch.
       }
@@ -75,6 +84,8 @@ export const ExampleSentences: React.FC<ExampleSentencesProps> = ({
     examples.forEach(example => {
       prefetchAudio(example.portuguese);
     });
+
+    return () => controller.abort();
     // This effect should only run when the list of examples changes.
     // audioCache is not included as a dependency to prevent an infinite loop.
     // eslint-disable-next-line react-hooks/exhaustive-deps
@@ -120,7 +131,7 @@ export const ExampleSentences: React.FC<ExampleSentencesProps> = ({
         await playAudio(audioBase64, audioCtx);
     } catch (error) {
         console.error("Failed to fetch and play audio for sentence:", error);
-        alert("Sorry, could not play the audio. The AI might be busy.");
+        alert(getErrorMessage(error, "Sorry, could not play the audio. The AI might be busy."));
     } finally {
         // Remove from loading set regardless of success or failure
         setLoadingAudio(prev => {
@@ -189,7 +200,7 @@ export const ExampleSentences: React.FC<ExampleSentencesProps> = ({
     
     // If we have no examples, any error must be from the initial load. Show the full block.
     if (error) {
-      return <div className="p-4 text-center text-red-600 bg-red-50 rounded-lg">{error}</div>;
+      return <ErrorMessage message={error} onRetry={onRetry} />;
     }
     
     if (!selectedConjugation && !(examples && examples.length > 0)) {
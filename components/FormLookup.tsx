@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { Card, CardHeader, CardContent } from './Card';
+import { findConjugatedForm } from '../services/formLookup';
+import type { FormMatch } from '../services/formLookup';
+import { PRONOUN_LABELS, TENSE_LABELS } from '../constants';
+import type { ConjugationForms } from '../types';
+
+interface FormLookupProps {
+  verbs: string[];
+  onSelectMatch: (match: FormMatch) => void;
+}
+
+// "imperfeito_do_subjuntivo.nos" → "Imperfect Subjunctive · Nós"; "participio.1" → "Past Participle"
+const describePath = (path: string) => {
+  const [tense, person] = path.split('.');
+  const pronoun = PRONOUN_LABELS[person as keyof ConjugationForms];
+  return pronoun ? `${TENSE_LABELS[tense]} · ${pronoun}` : TENSE_LABELS[tense];
+};
+
+export const FormLookup: React.FC<FormLookupProps> = ({ verbs, onSelectMatch }) => {
+  const [query, setQuery] = useState('');
+  const [matches, setMatches] = useState<FormMatch[] | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!query.trim() || isSearching) return;
+
+    setIsSearching(true);
+    try {
+      setMatches(await findConjugatedForm(query, verbs));
+    } catch (error) {
+      console.error("Error looking up conjugated form:", error);
+      setMatches([]);
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const hasGuesses = matches?.some(match => match.guessed);
+
+  return (
+    <Card>
+      <CardHeader>
+        <h2 className="text-xl font-bold text-slate-800">Look Up a Form</h2>
+        <p className="text-sm text-slate-500">Find the verb behind any conjugated form</p>
+      </CardHeader>
+      <CardContent className="p-2">
+        <form onSubmit={handleSubmit} className="p-2 flex items-center space-x-2">
+          <input
+            type="text"
+            value={query}
+            onChange={e => { setQuery(e.target.value); setMatches(null); }}
+            placeholder="e.g. fizéssemos"
+            className="block w-full px-3 py-2 bg-white border border-slate-300 rounded-md text-sm shadow-sm placeholder-slate-400 focus:outline-none focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500"
+            aria-label="Conjugated form to look up"
+          />
+          <button
+            type="submit"
+            className="px-4 py-2 bg-indigo-600 text-white font-semibold rounded-md shadow-sm hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors w-20"
+            disabled={!query.trim() || isSearching}
+          >
+            Find
+          </button>
+        </form>
+        {matches && (
+          <div className="px-2 pb-2">
+            {matches.length === 0 ? (
+              <p className="text-sm text-slate-500 px-2">No verb has this form.</p>
+            ) : (
+              <ul className="space-y-1 max-h-64 overflow-y-auto">
+                {matches.map(match => (
+                  <li key={`${match.verb}-${match.path}`}>
+                    <button
+                      onClick={() => onSelectMatch(match)}
+                      className="w-full text-left px-3 py-2 rounded-lg bg-slate-100 hover:bg-slate-200 focus:outline-none focus-visible:ring-2 focus-visible:ring-indigo-500"
+                    >
+                      <span className="font-bold text-slate-900">{match.verb}</span>
+                      {match.guessed && <span className="ml-2 text-xs font-semibold text-amber-700 bg-amber-100 rounded px-1.5 py-0.5">possible</span>}
+                      <span className="block text-sm text-slate-600">{describePath(match.path)}: <span className="font-medium">{match.form}</span></span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+            {hasGuesses && (
+              <p className="text-xs text-slate-500 px-2 mt-2">"Possible" verbs follow the regular pattern but aren't known yet; they're checked when you open them.</p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -1,10 +1,14 @@
 import React, { useState, useRef, useMemo, useEffect } from 'react';
 import { Card, CardContent } from './Card';
 import { Loader } from './Loader';
-import { FUNCTIONAL_DOMAINS, FUNCTIONAL_CUSTOM_DOMAINS_STORAGE_KEY } from '../constants';
+import { FUNCTIONAL_DOMAINS } from '../constants';
 import { getFunctionalScene, getSpeech, generateFunctionalDomain } from '../services/geminiService';
+import { getErrorMessage } from '../services/aiErrors';
+import { FUNCTIONAL_CUSTOM_DOMAINS_RECORD } from '../services/storedRecords';
+import { useStoredState } from '../hooks/useStoredState';
 import type { FunctionalScene, FunctionalDomain, FunctionalSubtopic } from '../types';
 import { playAudio } from '../utils/audio';
+import { toRouteSlug } from '../utils/routes';
 
 const WelcomeContent: React.FC = () => (
     <div className="text-center flex flex-col items-center justify-center h-full p-8">
@@ -81,7 +85,16 @@ const AudioButton: React.FC<{ isLoading: boolean; onClick: () => void; }> = ({ i
     );
 };
 
-export const FunctionalLanguageExplorer: React.FC = () => {
+interface FunctionalLanguageExplorerProps {
+    // The open domain and function come from the URL; the subtopic and function are slugs
+    // of their names. Choosing another one navigates.
+    domainId: string | null;
+    subtopicSlug: string | null;
+    functionSlug: string | null;
+    onNavigate: (domainId: string | null, subtopicSlug?: string, functionSlug?: string) => void;
+}
+
+export const FunctionalLanguageExplorer: React.FC<FunctionalLanguageExplorerProps> = ({ domainId, subtopicSlug, functionSlug, onNavigate }) => {
     // Navigation State
     const [selectedDomain, setSelectedDomain] = useState<FunctionalDomain | null>(null);
     const [selectedSubtopic, setSelectedSubtopic] = useState<FunctionalSubtopic | null>(null);
@@ -90,7 +103,7 @@ export const FunctionalLanguageExplorer: React.FC = () => {
     const [generationChoice, setGenerationChoice] = useState<{ query: string } | null>(null);
 
     // Custom Topics State
-    const [customDomains, setCustomDomains] = useState<FunctionalDomain[]>([]);
+    const [customDomains, setCustomDomains] = useStoredState(FUNCTIONAL_CUSTOM_DOMAINS_RECORD);
     
     // Data State
     const [scene, setScene] = useState<FunctionalScene | null>(null);
@@ -104,30 +117,53 @@ export const FunctionalLanguageExplorer: React.FC = () => {
     const [audioCache, setAudioCache] = useState<Record<string, string>>({});
     const audioContextRef = useRef<AudioContext | null>(null);
 
-    // --- Load and Save Custom Domains ---
-    useEffect(() => {
-        try {
-            const savedDomains = window.localStorage.getItem(FUNCTIONAL_CUSTOM_DOMAINS_STORAGE_KEY);
-            if (savedDomains) setCustomDomains(JSON.parse(savedDomains));
-        } catch (error) {
-            console.error("Failed to load custom domains from localStorage:", error);
-        }
-    }, []);
-
-    useEffect(() => {
-        try {
-            window.localStorage.setItem(FUNCTIONAL_CUSTOM_DOMAINS_STORAGE_KEY, JSON.stringify(customDomains));
-        } catch (error) {
-            console.error("Failed to save custom domains:", error);
-        }
-    }, [customDomains]);
-
     const allDomains = useMemo(() => [...customDomains, ...FUNCTIONAL_DOMAINS], [customDomains]);
 
     const filteredDomains = useMemo((): FunctionalDomain[] => {
         return allDomains;
     }, [allDomains]);
 
+    // Opens the domain and function in the URL. Custom domains are only known once they've loaded.
+    useEffect(() => {
+        const domain = allDomains.find(d => d.id === domainId);
+        if (!domain) {
+            if (!domainId && selectedDomain) {
+                setSelectedDomain(null);
+                setSelectedSubtopic(null);
+                setSelectedFunction(null);
+                setScene(null);
+                setError(null);
+            }
+            return;
+        }
+
+        const isNewDomain = domain.id !== selectedDomain?.id;
+        if (isNewDomain) {
+            setSelectedDomain(domain);
+            setSelectedSubtopic(null);
+            setSelectedFunction(null);
+            setScene(null);
+            setError(null);
+        }
+        const subtopic = domain.subtopics.find(st => toRouteSlug(st.name) === subtopicSlug);
+        const func = subtopic?.functions.find(f => toRouteSlug(f) === functionSlug);
+        if (subtopic && func) {
+            if (isNewDomain || func !== selectedFunction || subtopic.name !== selectedSubtopic?.name) {
+                setSelectedSubtopic(subtopic);
+                handleSelectFunction(func, domain, subtopic);
+            }
+        } else if (!isNewDomain && selectedFunction) {
+            setSelectedSubtopic(null);
+            setSelectedFunction(null);
+            setScene(null);
+        }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [domainId, subtopicSlug, functionSlug, allDomains]);
+
+    const navigateToFunction = (domain: FunctionalDomain, subtopic: FunctionalSubtopic, func: string) => {
+        onNavigate(domain.id, toRouteSlug(subtopic.name), toRouteSlug(func));
+    };
+
     const handleSelectFunction = async (func: string, domain?: FunctionalDomain | null, subtopic?: FunctionalSubtopic | null) => {
         const currentDomain = domain || selectedDomain;
         const currentSubtopic = subtopic || selectedSubtopic;
@@ -144,7 +180,7 @@ export const FunctionalLanguageExplorer: React.FC = () => {
             setScene(data);
         } catch (err) {
             console.error("Error fetching functional scene:", err);
-            setError("Failed to load scene. The AI model may be busy. Please try again.");
+            setError(getErrorMessage(err, "Failed to load scene. The AI model may be busy. Please try again."));
         } finally {
             setIsLoading(false);
         }
@@ -167,9 +203,7 @@ export const FunctionalLanguageExplorer: React.FC = () => {
         const randomFunctionIndex = Math.floor(Math.random() * randomSubtopic.functions.length);
         const randomFunction = randomSubtopic.functions[randomFunctionIndex];
     
-        // Reuse the existing handler to fetch data and update state
-        setSelectedSubtopic(randomSubtopic); // Set this first for UI consistency
-        handleSelectFunction(randomFunction, selectedDomain, randomSubtopic);
+        navigateToFunction(selectedDomain, randomSubtopic, randomFunction);
     };
 
     const handleSelectRandomFunctionFromSubtopic = (subtopic: FunctionalSubtopic) => {
@@ -180,9 +214,7 @@ export const FunctionalLanguageExplorer: React.FC = () => {
         const randomIndex = Math.floor(Math.random() * subtopic.functions.length);
         const randomFunction = subtopic.functions[randomIndex];
 
-        // Reuse the existing handler to fetch data and update state
-        setSelectedSubtopic(subtopic); // Set this first for UI consistency
-        handleSelectFunction(randomFunction, selectedDomain, subtopic);
+        navigateToFunction(selectedDomain, subtopic, randomFunction);
     };
 
     const handleGenerateChoice = (e: React.FormEvent) => {
@@ -197,6 +229,7 @@ export const FunctionalLanguageExplorer: React.FC = () => {
         setSelectedSubtopic(null);
         setScene(null);
         setAudioCache({});
+        onNavigate(null);
     };
 
     const handleGenerateQuickConversation = async (query: string) => {
@@ -208,7 +241,7 @@ export const FunctionalLanguageExplorer: React.FC = () => {
             setSelectedFunction(query); // Set this to show a title
         } catch (err) {
             console.error("Error generating quick conversation:", err);
-            setError(`Failed to generate a scene for "${query}". The AI may be busy. Please try again.`);
+            setError(getErrorMessage(err, `Failed to generate a scene for "${query}". The AI may be busy. Please try again.`));
         } finally {
             setIsLoading(false);
         }
@@ -229,7 +262,7 @@ export const FunctionalLanguageExplorer: React.FC = () => {
             setSearchQuery(''); // Clear search
         } catch (err) {
             console.error("Error generating topic card:", err);
-            setError(`Failed to create a topic card for "${query}". Please try a different topic or try again.`);
+            setError(getErrorMessage(err, `Failed to create a topic card for "${query}". Please try a different topic or try again.`));
             setGenerationChoice(null); // Also close on error
         } finally {
             setIsGeneratingCard(false);
@@ -263,7 +296,7 @@ export const FunctionalLanguageExplorer: React.FC = () => {
             setScene(data);
         } catch (err) {
             console.error("Error regenerating scene:", err);
-            setError("Failed to generate a new scene. Please try again.");
+            setError(getErrorMessage(err, "Failed to generate a new scene. Please try again."));
         } finally {
             setIsRegenerating(false);
         }
@@ -314,6 +347,7 @@ export const FunctionalLanguageExplorer: React.FC = () => {
         setError(null);
         setSearchQuery('');
         setGenerationChoice(null);
+        onNavigate(null);
     }
     
     const renderLeftPanel = () => {
@@ -359,10 +393,7 @@ export const FunctionalLanguageExplorer: React.FC = () => {
                                         {subtopic.functions.map(func => (
                                             <li key={func}>
                                                 <button
-                                                    onClick={() => {
-                                                        setSelectedSubtopic(subtopic);
-                                                        handleSelectFunction(func, selectedDomain, subtopic);
-                                                    }}
+                                                    onClick={() => navigateToFunction(selectedDomain, subtopic, func)}
                                                     className={`w-full text-left px-4 py-2.5 rounded-lg text-md font-medium transition-all duration-200 ease-in-out focus:outline-none focus-visible:ring-2 focus-visible:ring-offset-2 focus-visible:ring-indigo-500 ${
                                                         selectedFunction === func && selectedSubtopic?.name === subtopic.name
                                                         ? 'bg-indigo-600 text-white shadow-sm'
@@ -409,7 +440,7 @@ export const FunctionalLanguageExplorer: React.FC = () => {
                         {filteredDomains.map(domain => (
                             <div key={domain.id} className="relative group">
                                 <button 
-                                    onClick={() => setSelectedDomain(domain)}
+                                    onClick={() => onNavigate(domain.id)}
                                     className="w-full p-4 flex flex-col items-center justify-center text-center aspect-square rounded-lg bg-slate-50 hover:bg-indigo-50 hover:text-indigo-700 border border-transparent hover:border-indigo-200 transition-all duration-200 focus:outline-none focus-visible:ring-2 focus-visible:ring-offset-2 focus-visible:ring-indigo-500"
                                 >
                                     <span className="text-4xl">{domain.emoji}</span>
@@ -1,15 +1,29 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Card, CardHeader, CardContent } from './Card';
 import { GRAMMAR_TOPIC_GROUPS } from '../constants';
 import { generateGrammarParagraph, getGrammarTheory } from '../services/geminiService';
+import { getErrorMessage } from '../services/aiErrors';
 import type { GrammarParagraph, GrammarTheory } from '../types';
+import type { GrammarMode } from '../utils/routes';
 import { GrammarWrittenDrillModal } from './GrammarWrittenDrillModal';
+import { GrammarWritingDrillModal } from './GrammarWritingDrillModal';
 import { GrammarSpeakingDrillModal } from './GrammarSpeakingDrillModal';
 import { GrammarPracticeModal } from './GrammarPracticeModal';
 import { GrammarResultDisplayModal } from './GrammarResultDisplayModal';
 
-export const GrammarExplorer: React.FC = () => {
-    const [selectedTopic, setSelectedTopic] = useState<{id: string, name: string, description: string} | null>(null);
+interface GrammarExplorerProps {
+    // The open topic and activity come from the URL; choosing another one navigates.
+    topicId: string | null;
+    mode: GrammarMode | null;
+    onNavigate: (topicId: string | null, mode?: GrammarMode) => void;
+}
+
+type GrammarTopic = {id: string; name: string; description: string};
+
+const ALL_TOPICS: GrammarTopic[] = GRAMMAR_TOPIC_GROUPS.flatMap(group => group.topics);
+
+export const GrammarExplorer: React.FC<GrammarExplorerProps> = ({ topicId, mode, onNavigate }) => {
+    const [selectedTopic, setSelectedTopic] = useState<GrammarTopic | null>(null);
     
     // State for API calls and results
     const [isLoading, setIsLoading] = useState(false);
@@ -24,79 +38,96 @@ export const GrammarExplorer: React.FC = () => {
     const [isPracticeModalOpen, setIsPracticeModalOpen] = useState(false);
     const [isResultModalOpen, setIsResultModalOpen] = useState(false);
     const [isWrittenDrillModalOpen, setIsWrittenDrillModalOpen] = useState(false);
+    const [isWritingDrillModalOpen, setIsWritingDrillModalOpen] = useState(false);
     const [isSpeakingDrillModalOpen, setIsSpeakingDrillModalOpen] = useState(false);
     
     const [lastTheme, setLastTheme] = useState('');
 
-    const handleSelectTopic = (topic: {id: string; name: string; description: string}) => {
-        setSelectedTopic(topic);
-        setIsPracticeModalOpen(true);
-        // Clear previous results when selecting a new topic
+    const clearResults = () => {
         setResult(null);
         setTheory(null);
         setError(null);
         setTheoryError(null);
     };
 
-    const handleGenerate = async (theme: string) => {
-        if (!selectedTopic) return;
-        setLastTheme(theme);
-        setIsPracticeModalOpen(false); // Close practice modal
-        setIsResultModalOpen(true);   // Open result modal
-
+    const generateParagraph = async (topic: GrammarTopic, theme: string) => {
+        setIsResultModalOpen(true);
         setIsLoading(true);
-        setError(null);
-        setResult(null);
-        setTheory(null);
-        setTheoryError(null);
+        clearResults();
 
         try {
-            const data = await generateGrammarParagraph(selectedTopic.name, theme);
+            const data = await generateGrammarParagraph(topic.name, theme);
             setResult(data);
         } catch (err) {
             console.error(err);
-            setError("Failed to generate paragraph. The AI model might be busy or the request was invalid. Please try again.");
+            setError(getErrorMessage(err, "Failed to generate paragraph. The AI model might be busy or the request was invalid. Please try again."));
         } finally {
             setIsLoading(false);
         }
     };
 
-    const handleGenerateAnother = () => {
-        handleGenerate(lastTheme);
-    };
-
-    const handleLearnTheory = async () => {
-        if (!selectedTopic) return;
-        setIsPracticeModalOpen(false); // Close practice modal
-        setIsResultModalOpen(true);   // Open result modal
-
+    const loadTheory = async (topic: GrammarTopic) => {
+        setIsResultModalOpen(true);
         setIsTheoryLoading(true);
-        setTheory(null);
-        setTheoryError(null);
-        setResult(null);
-        setError(null);
+        clearResults();
 
         try {
-            const data = await getGrammarTheory(selectedTopic.name);
+            const data = await getGrammarTheory(topic.name);
             setTheory(data);
         } catch (err) {
             console.error(err);
-            setTheoryError("Failed to load theory. The AI model might be busy. Please try again.");
+            setTheoryError(getErrorMessage(err, "Failed to load theory. The AI model might be busy. Please try again."));
         } finally {
             setIsTheoryLoading(false);
         }
     };
-    
-    const handleCloseResultModal = () => {
-        setIsResultModalOpen(false);
-        // Delay clearing data to allow for modal fade-out animation
-        setTimeout(() => {
-            setResult(null);
-            setTheory(null);
-            setError(null);
-            setTheoryError(null);
-        }, 300);
-    }
+
+    // Opens whatever the URL points at, so that links and the back button work.
+    useEffect(() => {
+        const topic = ALL_TOPICS.find(t => t.id === topicId);
+        if (!topic) {
+            setIsPracticeModalOpen(false);
+            setIsWrittenDrillModalOpen(false);
+            setIsWritingDrillModalOpen(false);
+            setIsSpeakingDrillModalOpen(false);
+            setIsResultModalOpen(false);
+            // Delay clearing data to allow for modal fade-out animation
+            setTimeout(clearResults, 300);
+            return;
+        }
+
+        if (topic.id !== selectedTopic?.id) {
+            setSelectedTopic(topic);
+            // Clear previous results when selecting a new topic
+            clearResults();
+        }
+        // A paragraph can't be regenerated without its theme, e.g. after a reload.
+        const activity = mode === 'paragraph' && !lastTheme ? 'practice' : mode;
+        setIsPracticeModalOpen(activity === 'practice');
+        setIsWrittenDrillModalOpen(activity === 'drill');
+        setIsWritingDrillModalOpen(activity === 'writing');
+        setIsSpeakingDrillModalOpen(activity === 'speaking');
+        if (activity === 'theory') {
+            loadTheory(topic);
+        } else if (activity === 'paragraph') {
+            generateParagraph(topic, lastTheme);
+        } else {
+            setIsResultModalOpen(false);
+        }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [topicId, mode]);
+
+    const handleGenerate = (theme: string) => {
+        if (!selectedTopic) return;
+        setLastTheme(theme);
+        onNavigate(selectedTopic.id, 'paragraph');
+    };
+
+    const handleGenerateAnother = () => {
+        if (selectedTopic) generateParagraph(selectedTopic, lastTheme);
+    };
+
+    const handleClose = () => onNavigate(null);
 
     return (
         <>
@@ -117,7 +148,7 @@ export const GrammarExplorer: React.FC = () => {
                                        {group.topics.map(topic => (
                                             <button
                                                 key={topic.id}
-                                                onClick={() => handleSelectTopic(topic)}
+                                                onClick={() => onNavigate(topic.id)}
                                                 className={`p-4 rounded-xl border-2 transition-all duration-200 text-left h-full flex flex-col focus:outline-none focus-visible:ring-2 focus-visible:ring-offset-2 focus-visible:ring-indigo-500 ${
                                                     selectedTopic?.id === topic.id 
                                                         ? 'border-indigo-500 bg-indigo-50 shadow-lg' 
@@ -149,23 +180,18 @@ export const GrammarExplorer: React.FC = () => {
         
         <GrammarPracticeModal
             isOpen={isPracticeModalOpen}
-            onClose={() => setIsPracticeModalOpen(false)}
+            onClose={handleClose}
             topic={selectedTopic}
             onGenerateParagraph={handleGenerate}
-            onLearnTheory={handleLearnTheory}
-            onStartWrittenDrill={() => {
-                setIsPracticeModalOpen(false);
-                setIsWrittenDrillModalOpen(true);
-            }}
-            onStartSpeakingPractice={() => {
-                setIsPracticeModalOpen(false);
-                setIsSpeakingDrillModalOpen(true);
-            }}
+            onLearnTheory={() => selectedTopic && onNavigate(selectedTopic.id, 'theory')}
+            onStartWrittenDrill={() => selectedTopic && onNavigate(selectedTopic.id, 'drill')}
+            onStartWritingDrill={() => selectedTopic && onNavigate(selectedTopic.id, 'writing')}
+            onStartSpeakingPractice={() => selectedTopic && onNavigate(selectedTopic.id, 'speaking')}
         />
 
         <GrammarResultDisplayModal
             isOpen={isResultModalOpen}
-            onClose={handleCloseResultModal}
+            onClose={handleClose}
             isLoading={isLoading || isTheoryLoading}
             error={error || theoryError}
             paragraph={result}
@@ -177,12 +203,17 @@ export const GrammarExplorer: React.FC = () => {
             <>
                 <GrammarWrittenDrillModal
                     isOpen={isWrittenDrillModalOpen}
-                    onClose={() => setIsWrittenDrillModalOpen(false)}
+                    onClose={handleClose}
+                    topic={selectedTopic}
+                />
+                <GrammarWritingDrillModal
+                    isOpen={isWritingDrillModalOpen}
+                    onClose={handleClose}
                     topic={selectedTopic}
                 />
                 <GrammarSpeakingDrillModal
                     isOpen={isSpeakingDrillModalOpen}
-                    onClose={() => setIsSpeakingDrillModalOpen(false)}
+                    onClose={handleClose}
                     topic={selectedTopic}
                 />
             </>
@@ -7,6 +7,7 @@ interface GrammarPracticeModalProps {
   onLearnTheory: () => void;
   onGenerateParagraph: (theme: string) => void;
   onStartWrittenDrill: () => void;
+  onStartWritingDrill: () => void;
   onStartSpeakingPractice: () => void;
 }
 
@@ -17,6 +18,7 @@ export const GrammarPracticeModal: React.FC<GrammarPracticeModalProps> = ({
     onLearnTheory,
     onGenerateParagraph,
     onStartWrittenDrill,
+    onStartWritingDrill,
     onStartSpeakingPractice,
 }) => {
     const [theme, setTheme] = useState('');
@@ -114,6 +116,18 @@ export const GrammarPracticeModal: React.FC<GrammarPracticeModalProps> = ({
                         </div>
                     </button>
 
+                    <button onClick={onStartWritingDrill} className={buttonStyle}>
+                        <div className={`${iconContainerStyle} bg-amber-100 text-amber-600`}>
+                            <svg xmlns="http://www.w3.org/2000/svg" className="h-full w-full" viewBox="0 0 20 20" fill="currentColor">
+                                <path fillRule="evenodd" d="M18 10c0 3.866-3.582 7-8 7a8.841 8.841 0 01-4.083-.98L2 17l1.338-3.123C2.493 12.767 2 11.434 2 10c0-3.866 3.582-7 8-7s8 3.134 8 7zM7 9H5v2h2V9zm8 0h-2v2h2V9zM9 9h2v2H9V9z" clipRule="evenodd" />
+                            </svg>
+                        </div>
+                        <div>
+                            <h4 className="font-semibold text-slate-800">Free Writing</h4>
+                            <p className="text-sm text-slate-500">Translate or rewrite whole sentences and get them corrected.</p>
+                        </div>
+                    </button>
+
                     <button onClick={onStartSpeakingPractice} className={buttonStyle}>
                          <div className={`${iconContainerStyle} bg-red-100 text-red-600`}>
                             <svg xmlns="http://www.w3.org/2000/svg" className="h-full w-full" viewBox="0 0 20 20" fill="currentColor">
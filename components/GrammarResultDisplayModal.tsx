@@ -2,6 +2,7 @@ import React, { useState, useRef, useEffect } from 'react';
 import type { GrammarParagraph, GrammarTheory } from '../types';
 import { Loader } from './Loader';
 import { getSpeech } from '../services/geminiService';
+import { getErrorMessage, isCancellation } from '../services/aiErrors';
 import { decode, decodeAudioData } from '../utils/audio';
 
 // Helper to render paragraph with highlighted words
@@ -91,17 +92,18 @@ export const GrammarResultDisplayModal: React.FC<GrammarResultDisplayModalProps>
             return;
         }
 
-        let isCancelled = false;
+        const controller = new AbortController();
         const prefetchAudio = async () => {
             try {
-                const audioBase64 = await getSpeech(paragraph.portugueseParagraph);
-                if (!isCancelled) setParagraphAudio(audioBase64);
+                const audioBase64 = await getSpeech(paragraph.portugueseParagraph, { priority: 'prefetch', signal: controller.signal });
+                setParagraphAudio(audioBase64);
             } catch (audioError) {
+                if (isCancellation(audioError)) return;
                 console.warn("Silent audio pre-fetch failed:", audioError);
             }
         };
         prefetchAudio();
-        return () => { isCancelled = true; };
+        return () => controller.abort();
     }, [paragraph]);
 
     const handlePlayAudio = async () => {
@@ -157,7 +159,7 @@ export const GrammarResultDisplayModal: React.FC<GrammarResultDisplayModalProps>
             setParagraphAudio(audioBase64);
             await play(audioBase64);
         } catch (err) {
-            alert("Sorry, could not play the audio. The AI might be busy.");
+            alert(getErrorMessage(err, "Sorry, could not play the audio. The AI might be busy."));
         } finally {
             setIsAudioLoading(false);
         }
@@ -1,6 +1,7 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
 import type { Example } from '../types';
 import { generateGrammarExamplesBatch, getSpeech } from '../services/geminiService';
+import { getErrorMessage, isCancellation } from '../services/aiErrors';
 import { playAudio } from '../utils/audio';
 import { Loader } from './Loader';
 
@@ -23,8 +24,13 @@ export const GrammarSpeakingDrillModal: React.FC<GrammarSpeakingDrillModalProps>
   const [isAudioLoading, setIsAudioLoading] = useState(false);
 
   const audioContextRef = useRef<AudioContext | null>(null);
+  const requestRef = useRef<AbortController | null>(null);
 
   const fetchDrills = useCallback(async (isNewSet = true) => {
+    requestRef.current?.abort();
+    const controller = new AbortController();
+    requestRef.current = controller;
+
     setStatus('loading');
     setError(null);
     setAudioData({}); // Clear audio cache
@@ -33,7 +39,7 @@ export const GrammarSpeakingDrillModal: React.FC<GrammarSpeakingDrillModalProps>
     }
     
     try {
-      const newExamples = await generateGrammarExamplesBatch(topic.name, DRILL_COUNT, isNewSet ? undefined : examples);
+      const newExamples = await generateGrammarExamplesBatch(topic.name, DRILL_COUNT, isNewSet ? undefined : examples, { signal: controller.signal });
       if (newExamples.length < DRILL_COUNT) {
         throw new Error("The AI model returned fewer examples than expected. Please try again.");
       }
@@ -42,8 +48,9 @@ export const GrammarSpeakingDrillModal: React.FC<GrammarSpeakingDrillModalProps>
       setIsRevealed(false);
       setStatus('ready');
     } catch (err) {
+      if (isCancellation(err)) return;
       console.error("Failed to generate speaking drills:", err);
-      setError("Could not generate the speaking drill. The AI might be busy. Please close and try again.");
+      setError(getErrorMessage(err, "Could not generate the speaking drill. The AI might be busy. Please try again."));
       setStatus('error');
     }
   }, [topic.name, examples]);
@@ -61,6 +68,7 @@ export const GrammarSpeakingDrillModal: React.FC<GrammarSpeakingDrillModalProps>
       }
       fetchDrills(true);
     } else {
+      requestRef.current?.abort();
       setTimeout(() => {
         setExamples([]);
         setAudioData({});
@@ -110,7 +118,7 @@ export const GrammarSpeakingDrillModal: React.FC<GrammarSpeakingDrillModalProps>
     const nextIndex = index + 1;
     if (nextIndex < examples.length && !audioData[nextIndex]) {
         // No await needed, this runs in the background
-        getSpeech(examples[nextIndex].portuguese)
+        getSpeech(examples[nextIndex].portuguese, { priority: 'prefetch' })
             .then(base64 => {
                 setAudioData(prev => ({ ...prev, [nextIndex]: base64 }));
             })
@@ -214,9 +222,17 @@ export const GrammarSpeakingDrillModal: React.FC<GrammarSpeakingDrillModalProps>
     }
     if (status === 'error') {
         return (
-            <button onClick={onClose} className="bg-slate-600 text-white font-bold py-3 px-6 rounded-lg hover:bg-slate-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-slate-50 focus:ring-slate-500 transition-colors">
-                Close
-            </button>
+            <div className="flex justify-center gap-3">
+                <button onClick={onClose} className="bg-slate-600 text-white font-bold py-3 px-6 rounded-lg hover:bg-slate-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-slate-50 focus:ring-slate-500 transition-colors">
+                    Close
+                </button>
+                {/* Without an audio context the drill can't run, so there's nothing to retry. */}
+                {audioContextRef.current && (
+                    <button onClick={() => fetchDrills(true)} className="bg-indigo-600 text-white font-bold py-3 px-6 rounded-lg hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-slate-50 focus:ring-indigo-500 transition-colors">
+                        Try Again
+                    </button>
+                )}
+            </div>
         )
     }
     return null;
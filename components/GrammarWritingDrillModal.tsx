@@ -0,0 +1,347 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import type { WritingAssessment, WritingTask } from '../types';
+import { assessWriting, generateWritingTasks } from '../services/geminiService';
+import { getErrorMessage, isCancellation } from '../services/aiErrors';
+import { GRAMMAR_TOPIC_GROUPS } from '../constants';
+import { formatRoute } from '../utils/routes';
+import { diffAnswer } from '../utils/answerGrading';
+import { AnswerDiff } from './AnswerFeedback';
+import { Loader } from './Loader';
+
+interface GrammarWritingDrillModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  topic: {id: string, name: string, description: string};
+}
+
+type DrillStatus = 'loading' | 'ready' | 'finished' | 'error';
+
+const TASK_COUNT = 5;
+
+const ALL_TOPICS = GRAMMAR_TOPIC_GROUPS.flatMap(group => group.topics);
+
+const getTopicName = (topicId: string) => ALL_TOPICS.find(t => t.id === topicId)?.name ?? null;
+
+export const GrammarWritingDrillModal: React.FC<GrammarWritingDrillModalProps> = ({ isOpen, onClose, topic }) => {
+  const [status, setStatus] = useState<DrillStatus>('loading');
+  const [error, setError] = useState<string | null>(null);
+  const [tasks, setTasks] = useState<WritingTask[]>([]);
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [answer, setAnswer] = useState('');
+  // The last assessment of each task, by index; trying a task again replaces it.
+  const [assessments, setAssessments] = useState<Record<number, WritingAssessment>>({});
+  const [isChecking, setIsChecking] = useState(false);
+  const [checkError, setCheckError] = useState<string | null>(null);
+
+  const requestRef = useRef<AbortController | null>(null);
+  const checkRequestRef = useRef<AbortController | null>(null);
+
+  const resetTask = () => {
+    checkRequestRef.current?.abort();
+    setAnswer('');
+    setIsChecking(false);
+    setCheckError(null);
+  };
+
+  const fetchTasks = useCallback(async () => {
+    requestRef.current?.abort();
+    const controller = new AbortController();
+    requestRef.current = controller;
+
+    setStatus('loading');
+    setError(null);
+    setAssessments({});
+    setCurrentIndex(0);
+    resetTask();
+    try {
+      const newTasks = await generateWritingTasks(topic.name, TASK_COUNT, { signal: controller.signal });
+      if (newTasks.length === 0) {
+        throw new Error("The AI model didn't return any exercises. Please try again.");
+      }
+      setTasks(newTasks);
+      setStatus('ready');
+    } catch (err) {
+      if (isCancellation(err)) return;
+      console.error("Failed to generate writing tasks:", err);
+      setError(getErrorMessage(err, "Could not generate the writing exercises. The AI might be busy. Please try again."));
+      setStatus('error');
+    }
+  }, [topic.name]);
+
+  useEffect(() => {
+    if (isOpen) {
+      fetchTasks();
+    } else {
+      requestRef.current?.abort();
+      checkRequestRef.current?.abort();
+      // Delay reset to allow for fade-out animation
+      setTimeout(() => {
+        setTasks([]);
+        setAssessments({});
+        setCurrentIndex(0);
+        setAnswer('');
+        setStatus('loading');
+        setError(null);
+        setCheckError(null);
+      }, 300);
+    }
+  }, [isOpen, fetchTasks]);
+
+  const currentTask = tasks[currentIndex];
+  const currentAssessment = assessments[currentIndex];
+
+  const handleCheck = async () => {
+    if (!currentTask || !answer.trim() || isChecking) return;
+    checkRequestRef.current?.abort();
+    const controller = new AbortController();
+    checkRequestRef.current = controller;
+
+    setIsChecking(true);
+    setCheckError(null);
+    try {
+      const assessment = await assessWriting(topic.name, currentTask, answer.trim(), { signal: controller.signal });
+      setAssessments(prev => ({ ...prev, [currentIndex]: assessment }));
+    } catch (err) {
+      if (isCancellation(err)) return;
+      console.error("Failed to assess answer:", err);
+      setCheckError(getErrorMessage(err, "Could not check your answer. Please try again."));
+    } finally {
+      if (checkRequestRef.current === controller) setIsChecking(false);
+    }
+  };
+
+  const handleTryAgain = () => {
+    setAssessments(prev => {
+      const next = { ...prev };
+      delete next[currentIndex];
+      return next;
+    });
+    setCheckError(null);
+  };
+
+  const handleNext = () => {
+    resetTask();
+    if (currentIndex < tasks.length - 1) {
+      setCurrentIndex(i => i + 1);
+    } else {
+      setStatus('finished');
+    }
+  };
+
+  // Ctrl+Enter (or Cmd+Enter) checks the answer; a plain Enter adds a line break.
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+      e.preventDefault();
+      handleCheck();
+    }
+  };
+
+  const renderTopicTag = (topicId: string) => {
+    const name = getTopicName(topicId);
+    if (!name) return null;
+    return (
+      <a
+        href={formatRoute({ view: 'grammar', topicId, grammarMode: 'theory' })}
+        className="inline-block px-2 py-0.5 text-xs font-semibold rounded-full bg-indigo-100 text-indigo-700 hover:bg-indigo-200"
+        title={`Learn about ${name}`}
+      >
+        {name}
+      </a>
+    );
+  };
+
+  const renderAssessment = (assessment: WritingAssessment) => (
+    <div className="space-y-3">
+      <div className={`p-3 rounded-lg border ${assessment.isCorrect ? 'bg-green-50 border-green-300' : 'bg-red-50 border-red-300'}`}>
+        <p className={`font-semibold ${assessment.isCorrect ? 'text-green-700' : 'text-red-700'}`}>
+          {assessment.isCorrect ? 'Correct!'
+            : assessment.errors.length === 0 ? 'Not quite right.'
+            : assessment.errors.length === 1 ? '1 error to fix' : `${assessment.errors.length} errors to fix`}
+        </p>
+        {!assessment.isCorrect && (
+          <p className="mt-2 text-lg text-slate-800" aria-label={`Corrected answer: ${assessment.correctedSentence}`}>
+            <AnswerDiff diff={diffAnswer(answer, assessment.correctedSentence)} />
+          </p>
+        )}
+      </div>
+      {assessment.errors.length > 0 && (
+        <ul className="space-y-2">
+          {assessment.errors.map((writingError, index) => (
+            <li key={index} className="p-3 bg-white border border-slate-200 rounded-lg text-sm">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="line-through text-red-600">{writingError.original || '—'}</span>
+                <span className="text-slate-400">→</span>
+                <strong className="text-green-700">{writingError.correction || '—'}</strong>
+                {renderTopicTag(writingError.topicId)}
+              </div>
+              <p className="mt-1 text-slate-600">{writingError.explanation}</p>
+            </li>
+          ))}
+        </ul>
+      )}
+      {assessment.comment && <p className="text-sm text-slate-600 italic">{assessment.comment}</p>}
+      {currentTask && (
+        <p className="text-sm text-slate-500">
+          Model answer: <span className="font-semibold text-slate-700">{currentTask.modelAnswer}</span>
+        </p>
+      )}
+    </div>
+  );
+
+  const renderTask = () => {
+    if (!currentTask) return null;
+    return (
+      <div className="flex flex-col flex-grow min-h-0">
+        <div className="p-6 border-b border-slate-200 flex-shrink-0 pr-14">
+          <h2 className="text-2xl font-bold text-slate-800">Free Writing: <span className="text-indigo-600">{topic.name}</span></h2>
+          <p className="text-slate-500 mt-1">Exercise {currentIndex + 1} of {tasks.length}. Any correct answer counts, not just the model one.</p>
+        </div>
+        <div className="flex-grow p-6 space-y-4 overflow-y-auto bg-slate-50">
+          <div>
+            <p className="text-sm font-semibold text-slate-500 uppercase tracking-wide">{currentTask.kind === 'translate' ? 'Translate' : 'Rewrite'}</p>
+            <p className="mt-1 text-slate-700">{currentTask.instruction}</p>
+            <p className="mt-2 text-xl font-medium text-slate-800">"{currentTask.source}"</p>
+          </div>
+          <textarea
+            value={answer}
+            onChange={e => setAnswer(e.target.value)}
+            onKeyDown={handleKeyDown}
+            readOnly={!!currentAssessment || isChecking}
+            rows={3}
+            className={`block w-full px-3 py-2 border-2 border-slate-300 rounded-lg text-lg shadow-sm focus:outline-none focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500 ${
+              currentAssessment || isChecking ? 'bg-slate-100 text-slate-600' : 'bg-white text-slate-800'
+            }`}
+            aria-label="Your answer"
+            placeholder="Write your answer in Portuguese..."
+            autoCapitalize="off"
+            spellCheck={false}
+          />
+          {isChecking && <Loader message="Checking your answer..." />}
+          {checkError && <p className="text-sm text-red-600">{checkError}</p>}
+          {currentAssessment && renderAssessment(currentAssessment)}
+        </div>
+        <div className="p-6 border-t border-slate-200 bg-white flex-shrink-0 flex gap-3">
+          {currentAssessment ? (
+            <>
+              {!currentAssessment.isCorrect && (
+                <button type="button" onClick={handleTryAgain} className="px-6 py-3 bg-white border border-slate-300 text-slate-700 text-sm font-semibold rounded-md shadow-sm hover:bg-slate-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 transition-colors">
+                  Try Again
+                </button>
+              )}
+              <button type="button" onClick={handleNext} className="flex-1 bg-indigo-600 text-white font-bold py-3 px-6 rounded-lg hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 transition-colors">
+                {currentIndex < tasks.length - 1 ? 'Next' : 'See Results'}
+              </button>
+            </>
+          ) : (
+            <>
+              <button type="button" onClick={handleNext} className="px-6 py-3 bg-white border border-slate-300 text-slate-700 text-sm font-semibold rounded-md shadow-sm hover:bg-slate-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 transition-colors">
+                Skip
+              </button>
+              <button
+                type="button"
+                onClick={handleCheck}
+                disabled={!answer.trim() || isChecking}
+                className="flex-1 bg-indigo-600 text-white font-bold py-3 px-6 rounded-lg hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                Check
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  const renderFinished = () => {
+    const checked: WritingAssessment[] = Object.values(assessments);
+    const correctCount = checked.filter(assessment => assessment.isCorrect).length;
+    // How often each grammar topic came up in the errors, most frequent first.
+    const topicCounts = new Map<string, number>();
+    checked.forEach(assessment => assessment.errors.forEach(writingError => {
+      topicCounts.set(writingError.topicId, (topicCounts.get(writingError.topicId) ?? 0) + 1);
+    }));
+    const errorTopics = Array.from(topicCounts.entries()).sort((a, b) => b[1] - a[1]);
+
+    return (
+      <div className="flex flex-col flex-grow min-h-0">
+        <div className="p-6 border-b border-slate-200 flex-shrink-0">
+          <h2 className="text-2xl font-bold text-slate-800">Drill Complete!</h2>
+        </div>
+        <div className="flex-grow p-6 space-y-4 overflow-y-auto bg-slate-50">
+          <div className="p-4 text-center bg-indigo-50 rounded-xl border border-indigo-200">
+            <p className="text-2xl font-bold text-slate-700">
+              <span className="text-indigo-600">{correctCount}</span> / <span className="text-slate-500">{checked.length}</span> answers correct
+            </p>
+            {checked.length < tasks.length && (
+              <p className="mt-1 text-sm text-slate-500">{tasks.length - checked.length} skipped</p>
+            )}
+          </div>
+          {errorTopics.length > 0 && (
+            <div>
+              <h3 className="font-semibold text-slate-700 mb-2">Errors by topic</h3>
+              <ul className="space-y-2">
+                {errorTopics.map(([topicId, count]) => (
+                  <li key={topicId} className="flex items-center justify-between p-3 bg-white border border-slate-200 rounded-lg text-sm">
+                    {renderTopicTag(topicId) ?? <span className="text-slate-600">Other</span>}
+                    <span className="text-slate-500">{count === 1 ? '1 error' : `${count} errors`}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+        <div className="p-6 border-t border-slate-200 bg-white flex-shrink-0 flex flex-col sm:flex-row gap-3">
+          <button type="button" onClick={onClose} className="w-full sm:w-auto px-6 py-3 bg-white border border-slate-300 text-slate-700 text-sm font-semibold rounded-md shadow-sm hover:bg-slate-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 transition-colors">
+            Close
+          </button>
+          <button type="button" onClick={fetchTasks} className="w-full sm:flex-1 bg-indigo-600 text-white font-bold py-3 px-6 rounded-lg hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 transition-colors">
+            Try a New Set
+          </button>
+        </div>
+      </div>
+    );
+  };
+
+  const renderContent = () => {
+    switch (status) {
+      case 'loading':
+        return <div className="p-12"><Loader message={`Writing exercises for "${topic.name}"...`} size="lg" /></div>;
+      case 'ready':
+        return renderTask();
+      case 'finished':
+        return renderFinished();
+      case 'error':
+        return (
+          <div className="text-center p-4">
+            <h3 className="text-xl font-bold mb-2 text-red-600">An Error Occurred</h3>
+            <p className="text-slate-600">{error}</p>
+            <div className="mt-6 flex justify-center gap-3">
+              <button onClick={onClose} className="bg-slate-600 text-white font-bold py-2 px-4 rounded-lg">Close</button>
+              <button onClick={fetchTasks} className="bg-indigo-600 text-white font-bold py-2 px-4 rounded-lg hover:bg-indigo-700">Try Again</button>
+            </div>
+          </div>
+        );
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4 animate-fade-in">
+        <style>{`
+            @keyframes fade-in { from { opacity: 0; } to { opacity: 1; } }
+            .animate-fade-in { animation: fade-in 0.2s ease-out forwards; }
+            @keyframes slide-up { from { opacity: 0; transform: translateY(20px); } to { opacity: 1; transform: translateY(0); } }
+            .animate-slide-up { animation: slide-up 0.3s ease-out forwards; }
+        `}</style>
+        <div className="bg-white rounded-xl shadow-2xl w-full max-w-2xl max-h-[90vh] flex flex-col overflow-hidden animate-slide-up relative">
+             <button onClick={onClose} className="absolute top-4 right-4 text-slate-400 hover:text-slate-600 transition-colors z-10" aria-label="Close writing drill">
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-7 w-7" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+            </button>
+            {renderContent()}
+        </div>
+    </div>
+  );
+};
@@ -1,6 +1,10 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import type { WrittenDrill } from '../types';
 import { generateWrittenDrills } from '../services/geminiService';
+import { getErrorMessage, isCancellation } from '../services/aiErrors';
+import { findRelatedForms } from '../services/formLookup';
+import { gradeAnswer } from '../utils/answerGrading';
+import { AnswerFeedback } from './AnswerFeedback';
 import { Loader } from './Loader';
 
 interface GrammarWrittenDrillModalProps {
@@ -13,15 +17,6 @@ type DrillStatus = 'loading' | 'ready' | 'submitted' | 'error';
 
 const DRILL_COUNT = 10;
 
-// Helper to compare strings while ignoring accents/diacritics
-const normalizeString = (str: string): string => {
-    return str
-        .normalize("NFD")
-        .replace(/[\u0300-\u036f]/g, "")
-        .toLowerCase()
-        .trim();
-};
-
 export const GrammarWrittenDrillModal: React.FC<GrammarWrittenDrillModalProps> = ({ isOpen, onClose, topic }) => {
   const [status, setStatus] = useState<DrillStatus>('loading');
   const [error, setError] = useState<string | null>(null);
@@ -31,15 +26,28 @@ export const GrammarWrittenDrillModal: React.FC<GrammarWrittenDrillModalProps> =
   const [revealedIndices, setRevealedIndices] = useState<Set<number>>(new Set());
   const [submittedIndices, setSubmittedIndices] = useState<Set<number>>(new Set());
 
+  // Typing another form of the expected verb is marked as a wrong form, and a one-word verb
+  // form allows no typos, since a slip there is usually the mistake being drilled.
+  const relatedForms = useMemo(() => drills.map(drill => findRelatedForms(drill.correctAnswer)), [drills]);
+  const gradeDrillAnswer = (index: number) => {
+    const isVerbForm = relatedForms[index].length > 0 && !drills[index].correctAnswer.trim().includes(' ');
+    return gradeAnswer(userAnswers[index], drills[index].correctAnswer, { otherForms: relatedForms[index], allowTypos: !isVerbForm });
+  };
+
   const listRef = useRef<HTMLDivElement>(null);
+  const requestRef = useRef<AbortController | null>(null);
 
   const fetchDrills = useCallback(async () => {
+    requestRef.current?.abort();
+    const controller = new AbortController();
+    requestRef.current = controller;
+
     setStatus('loading');
     setError(null);
     setRevealedIndices(new Set());
     setSubmittedIndices(new Set());
     try {
-      const newDrills = await generateWrittenDrills(topic.name, DRILL_COUNT);
+      const newDrills = await generateWrittenDrills(topic.name, DRILL_COUNT, { signal: controller.signal });
       if (newDrills.length < DRILL_COUNT) {
         throw new Error("The AI model returned fewer drills than expected. Please try again.");
       }
@@ -47,8 +55,9 @@ export const GrammarWrittenDrillModal: React.FC<GrammarWrittenDrillModalProps> =
       setUserAnswers(new Array(newDrills.length).fill(''));
       setStatus('ready');
     } catch (err) {
+      if (isCancellation(err)) return;
       console.error("Failed to generate written drills:", err);
-      setError("Could not generate the written drill. The AI might be busy. Please close and try again.");
+      setError(getErrorMessage(err, "Could not generate the written drill. The AI might be busy. Please try again."));
       setStatus('error');
     }
   }, [topic.name]);
@@ -57,6 +66,7 @@ export const GrammarWrittenDrillModal: React.FC<GrammarWrittenDrillModalProps> =
     if (isOpen) {
       fetchDrills();
     } else {
+      requestRef.current?.abort();
       // Reset state on close
       setTimeout(() => {
         setDrills([]);
@@ -103,8 +113,8 @@ export const GrammarWrittenDrillModal: React.FC<GrammarWrittenDrillModalProps> =
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     let currentScore = 0;
-    drills.forEach((drill, index) => {
-      if (normalizeString(userAnswers[index]) === normalizeString(drill.correctAnswer)) {
+    drills.forEach((_, index) => {
+      if (gradeDrillAnswer(index).isCorrect) {
         currentScore++;
       }
     });
@@ -118,8 +128,8 @@ export const GrammarWrittenDrillModal: React.FC<GrammarWrittenDrillModalProps> =
     const sentenceParts = drill.sentenceWithBlank.split('___');
     const isSubmittedForItem = status === 'submitted' || submittedIndices.has(index);
     const isRevealed = revealedIndices.has(index);
-    const isCorrect = isSubmittedForItem && normalizeString(userAnswers[index]) === normalizeString(drill.correctAnswer);
-    const isExactMatch = userAnswers[index].trim().toLowerCase() === drill.correctAnswer.toLowerCase();
+    const grade = isSubmittedForItem ? gradeDrillAnswer(index) : null;
+    const isCorrect = grade?.isCorrect ?? false;
 
     let containerClasses = 'bg-white border-slate-200';
     let inputBorderClasses = 'border-slate-300 focus-within:border-indigo-500 focus-within:ring-indigo-500';
@@ -178,28 +188,9 @@ export const GrammarWrittenDrillModal: React.FC<GrammarWrittenDrillModalProps> =
                         <span>{sentenceParts[1]}</span>
                     </div>
 
-                    {isSubmittedForItem && (
+                    {grade && (
                         <div className="mt-4 p-3 rounded-lg bg-white border border-slate-200">
-                            {isCorrect ? (
-                                <div>
-                                    <div className="flex items-center gap-2 font-semibold text-green-600">
-                                        <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
-                                            <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" />
-                                        </svg>
-                                        <span>Correct!</span>
-                                    </div>
-                                    {!isExactMatch && (
-                                        <p className="mt-2 text-sm text-slate-700">
-                                            The correct spelling is: <strong className="font-bold text-green-700">"{drill.correctAnswer}"</strong>
-                                        </p>
-                                    )}
-                                </div>
-                            ) : (
-                                <div>
-                                    <p className="text-sm font-semibold text-slate-700">Correct answer:</p>
-                                    <p className="font-bold text-green-600">"{drill.correctAnswer}"</p>
-                                </div>
-                            )}
+                            <AnswerFeedback grade={grade} />
                         </div>
                     )}
                 </div>
@@ -218,7 +209,10 @@ export const GrammarWrittenDrillModal: React.FC<GrammarWrittenDrillModalProps> =
             <div className="text-center p-4">
                 <h3 className="text-xl font-bold mb-2 text-red-600">An Error Occurred</h3>
                 <p className="text-slate-600">{error}</p>
-                <button onClick={onClose} className="mt-6 bg-slate-600 text-white font-bold py-2 px-4 rounded-lg">Close</button>
+                <div className="mt-6 flex justify-center gap-3">
+                    <button onClick={onClose} className="bg-slate-600 text-white font-bold py-2 px-4 rounded-lg">Close</button>
+                    <button onClick={fetchDrills} className="bg-indigo-600 text-white font-bold py-2 px-4 rounded-lg hover:bg-indigo-700">Try Again</button>
+                </div>
             </div>
         );
     }
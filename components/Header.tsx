@@ -1,17 +1,30 @@
 import React from 'react';
-
-type AppView = 'conjugator' | 'grammar' | 'vocabulary' | 'functional' | 'ai_chat';
+import { LANGUAGE_VARIANTS } from '../services/languageVariant';
+import type { LanguageVariant, LearnerProfile } from '../types';
+import type { AppView } from '../utils/routes';
+import { ProfileSwitcher } from './ProfileSwitcher';
 
 interface HeaderProps {
     activeView: AppView;
     onViewChange: (view: AppView) => void;
+    variant: LanguageVariant;
+    onVariantChange: (variant: LanguageVariant) => void;
+    onOpenBackup: () => void;
+    profiles: LearnerProfile[];
+    activeProfile: LearnerProfile;
+    onSelectProfile: (profileId: string) => void;
+    onCreateProfile: (name: string) => void;
+    onRenameProfile: (profileId: string, name: string) => void;
+    onDeleteProfile: (profileId: string) => void;
+    vocabularyDueCount: number;
 }
 
 const NavButton: React.FC<{
     isActive: boolean;
     onClick: () => void;
     children: React.ReactNode;
-}> = ({ isActive, onClick, children }) => {
+    badge?: number;
+}> = ({ isActive, onClick, children, badge }) => {
     return (
         <button
             onClick={onClick}
@@ -22,12 +35,28 @@ const NavButton: React.FC<{
             }`}
         >
             {children}
+            {!!badge && (
+                <span className="ml-1.5 px-1.5 py-0.5 bg-indigo-600 text-white text-xs font-semibold rounded-full">{badge}</span>
+            )}
         </button>
     );
 };
 
 
-export const Header: React.FC<HeaderProps> = ({ activeView, onViewChange }) => {
+export const Header: React.FC<HeaderProps> = ({
+    activeView,
+    onViewChange,
+    variant,
+    onVariantChange,
+    onOpenBackup,
+    profiles,
+    activeProfile,
+    onSelectProfile,
+    onCreateProfile,
+    onRenameProfile,
+    onDeleteProfile,
+    vocabularyDueCount,
+}) => {
   return (
     <header className="bg-white shadow-sm sticky top-0 z-10">
       <div className="container mx-auto px-4 sm:px-6 lg:px-8">
@@ -47,7 +76,7 @@ export const Header: React.FC<HeaderProps> = ({ activeView, onViewChange }) => {
             <NavButton isActive={activeView === 'grammar'} onClick={() => onViewChange('grammar')}>
                 Grammar
             </NavButton>
-            <NavButton isActive={activeView === 'vocabulary'} onClick={() => onViewChange('vocabulary')}>
+            <NavButton isActive={activeView === 'vocabulary'} onClick={() => onViewChange('vocabulary')} badge={vocabularyDueCount}>
                 Vocabulary
             </NavButton>
             <NavButton isActive={activeView === 'functional'} onClick={() => onViewChange('functional')}>
@@ -56,6 +85,34 @@ export const Header: React.FC<HeaderProps> = ({ activeView, onViewChange }) => {
             <NavButton isActive={activeView === 'ai_chat'} onClick={() => onViewChange('ai_chat')}>
                 AI Chat
             </NavButton>
+            <select
+                value={variant}
+                onChange={e => onVariantChange(e.target.value as LanguageVariant)}
+                className="ml-2 px-2 py-2 text-sm font-medium text-slate-600 bg-white border border-slate-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                aria-label="Portuguese variant"
+            >
+                {(Object.keys(LANGUAGE_VARIANTS) as LanguageVariant[]).map(id => (
+                    <option key={id} value={id}>{LANGUAGE_VARIANTS[id].label}</option>
+                ))}
+            </select>
+            <button
+                onClick={onOpenBackup}
+                className="p-2 text-slate-500 rounded-md hover:bg-slate-100 hover:text-slate-700 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                aria-label="Back up or restore your data"
+                title="Back up or restore your data"
+            >
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
+                </svg>
+            </button>
+            <ProfileSwitcher
+                profiles={profiles}
+                activeProfile={activeProfile}
+                onSelectProfile={onSelectProfile}
+                onCreateProfile={onCreateProfile}
+                onRenameProfile={onRenameProfile}
+                onDeleteProfile={onDeleteProfile}
+            />
           </nav>
         </div>
       </div>
@@ -0,0 +1,126 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { LearnerProfile } from '../types';
+
+interface ProfileSwitcherProps {
+  profiles: LearnerProfile[];
+  activeProfile: LearnerProfile;
+  onSelectProfile: (profileId: string) => void;
+  onCreateProfile: (name: string) => void;
+  onRenameProfile: (profileId: string, name: string) => void;
+  onDeleteProfile: (profileId: string) => void;
+}
+
+export const ProfileSwitcher: React.FC<ProfileSwitcherProps> = ({
+  profiles,
+  activeProfile,
+  onSelectProfile,
+  onCreateProfile,
+  onRenameProfile,
+  onDeleteProfile,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  // The profile name being typed, when creating or renaming a profile.
+  const [nameEdit, setNameEdit] = useState<{ mode: 'create' | 'rename'; name: string } | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Closes the menu on a click anywhere else.
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) {
+        setIsOpen(false);
+        setNameEdit(null);
+      }
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const handleNameSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!nameEdit || !nameEdit.name.trim()) return;
+    if (nameEdit.mode === 'create') {
+      onCreateProfile(nameEdit.name);
+    } else {
+      onRenameProfile(activeProfile.id, nameEdit.name);
+    }
+    setNameEdit(null);
+  };
+
+  const handleDelete = () => {
+    if (window.confirm(`Are you sure you want to delete the profile "${activeProfile.name}"? Its verb lists, word bank, topics, chat and progress will be deleted from this browser.`)) {
+      onDeleteProfile(activeProfile.id);
+    }
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        className="flex items-center gap-1 px-2 py-2 text-sm font-medium text-slate-600 rounded-md hover:bg-slate-100 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        aria-haspopup="true"
+        aria-expanded={isOpen}
+        title="Learner profile"
+      >
+        <span className="w-6 h-6 bg-indigo-100 text-indigo-700 rounded-full flex items-center justify-center text-xs font-bold">
+          {activeProfile.name.charAt(0).toUpperCase()}
+        </span>
+        <span className="hidden sm:inline max-w-[8rem] truncate">{activeProfile.name}</span>
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-64 bg-white border border-slate-200 rounded-lg shadow-xl z-20 p-2">
+          <p className="px-2 py-1 text-xs font-semibold text-slate-500 uppercase tracking-wide">Learner profiles</p>
+          <ul>
+            {profiles.map(profile => (
+              <li key={profile.id}>
+                <button
+                  onClick={() => profile.id !== activeProfile.id && onSelectProfile(profile.id)}
+                  className={`w-full text-left px-2 py-1.5 text-sm rounded-md transition-colors ${
+                    profile.id === activeProfile.id ? 'bg-indigo-50 text-indigo-700 font-semibold' : 'text-slate-700 hover:bg-slate-100'
+                  }`}
+                  aria-current={profile.id === activeProfile.id}
+                >
+                  {profile.name}
+                </button>
+              </li>
+            ))}
+          </ul>
+          <div className="mt-2 pt-2 border-t border-slate-200">
+            {nameEdit ? (
+              <form onSubmit={handleNameSubmit} className="flex items-center gap-1">
+                <input
+                  type="text"
+                  value={nameEdit.name}
+                  onChange={e => setNameEdit({ ...nameEdit, name: e.target.value })}
+                  onKeyDown={e => e.key === 'Escape' && setNameEdit(null)}
+                  placeholder={nameEdit.mode === 'create' ? 'Name of the new profile...' : 'Profile name'}
+                  className="block w-full px-2 py-1 bg-white border border-slate-300 rounded-md text-sm placeholder-slate-400 focus:outline-none focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500"
+                  aria-label={nameEdit.mode === 'create' ? 'New profile name' : 'Rename profile'}
+                  autoFocus
+                />
+                <button type="submit" disabled={!nameEdit.name.trim()} className="px-2 py-1 bg-indigo-600 text-white text-sm font-semibold rounded-md hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors">
+                  {nameEdit.mode === 'create' ? 'Create' : 'Save'}
+                </button>
+              </form>
+            ) : (
+              <div className="flex flex-col">
+                <button onClick={() => setNameEdit({ mode: 'create', name: '' })} className="text-left px-2 py-1.5 text-sm text-slate-700 rounded-md hover:bg-slate-100">
+                  New profile
+                </button>
+                <button onClick={() => setNameEdit({ mode: 'rename', name: activeProfile.name })} className="text-left px-2 py-1.5 text-sm text-slate-700 rounded-md hover:bg-slate-100">
+                  Rename "{activeProfile.name}"
+                </button>
+                {profiles.length > 1 && (
+                  <button onClick={handleDelete} className="text-left px-2 py-1.5 text-sm text-red-600 rounded-md hover:bg-red-50">
+                    Delete "{activeProfile.name}"
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
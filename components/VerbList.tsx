@@ -1,26 +1,69 @@
 import React, { useState } from 'react';
 import { Card, CardHeader, CardContent } from './Card';
+import type { NamedVerbList } from '../types';
+import { SUGGESTED_VERB_TAGS } from '../constants';
+import { getListTags } from '../utils/verbLists';
 
 interface VerbListProps {
-  verbs: string[];
+  lists: NamedVerbList[];
+  activeList: NamedVerbList;
   selectedVerb: string | null;
   onSelectVerb: (verb: string) => void;
   onAddVerb: (verb: string) => Promise<boolean>;
   isAdding: boolean;
   addError: string | null;
   onClearAddError: () => void;
+  onDeleteVerb: (verb: string) => void;
+  // Moves `verb` to where `targetVerb` is.
+  onMoveVerb: (verb: string, targetVerb: string) => void;
+  onSetVerbTags: (verb: string, tags: string[]) => void;
+  onSelectList: (listId: string) => void;
+  onCreateList: (name: string) => void;
+  onRenameList: (listId: string, name: string) => void;
+  onDeleteList: (listId: string) => void;
 }
 
+// Folds accents so that "por" finds "Pôr".
+const foldText = (text: string) => text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim();
+
+const iconButtonClass = "p-1.5 rounded-md text-slate-400 hover:text-slate-700 hover:bg-slate-100 focus:outline-none focus-visible:ring-2 focus-visible:ring-indigo-500 transition-colors";
+
 export const VerbList: React.FC<VerbListProps> = ({ 
-    verbs, 
+    lists,
+    activeList,
     selectedVerb, 
     onSelectVerb, 
     onAddVerb, 
     isAdding, 
     addError,
-    onClearAddError
+    onClearAddError,
+    onDeleteVerb,
+    onMoveVerb,
+    onSetVerbTags,
+    onSelectList,
+    onCreateList,
+    onRenameList,
+    onDeleteList,
 }) => {
   const [newVerb, setNewVerb] = useState('');
+  const [search, setSearch] = useState('');
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  // The list name being typed, when creating or renaming a list.
+  const [listNameEdit, setListNameEdit] = useState<{ mode: 'create' | 'rename'; name: string } | null>(null);
+  const [editingTagsFor, setEditingTagsFor] = useState<string | null>(null);
+  const [newTag, setNewTag] = useState('');
+  const [draggedVerb, setDraggedVerb] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  const listTags = getListTags(activeList);
+  const activeTagFilter = tagFilter && listTags.includes(tagFilter) ? tagFilter : null;
+  const visibleEntries = activeList.entries.filter(entry =>
+    foldText(entry.verb).includes(foldText(search)) &&
+    (!activeTagFilter || entry.tags.includes(activeTagFilter))
+  );
+  // Reordering a filtered view would move verbs relative to hidden ones, so it's only offered
+  // on the full list.
+  const canReorder = !search.trim() && !activeTagFilter;
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -40,11 +83,147 @@ export const VerbList: React.FC<VerbListProps> = ({
     setNewVerb(e.target.value);
   }
 
+  const handleListNameSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!listNameEdit || !listNameEdit.name.trim()) return;
+    if (listNameEdit.mode === 'create') {
+      onCreateList(listNameEdit.name);
+    } else {
+      onRenameList(activeList.id, listNameEdit.name);
+    }
+    setListNameEdit(null);
+  };
+
+  const handleDeleteList = () => {
+    if (window.confirm(`Are you sure you want to delete the list "${activeList.name}" and its ${activeList.entries.length} verbs?`)) {
+      onDeleteList(activeList.id);
+    }
+  };
+
+  const handleAddTag = (e: React.FormEvent, verb: string, tags: string[]) => {
+    e.preventDefault();
+    if (!newTag.trim()) return;
+    onSetVerbTags(verb, [...tags, newTag]);
+    setNewTag('');
+  };
+
+  // Alt+↑ and Alt+↓ move the focused verb, as an alternative to dragging.
+  const handleVerbKeyDown = (e: React.KeyboardEvent, index: number) => {
+    if (!canReorder || !e.altKey || (e.key !== 'ArrowUp' && e.key !== 'ArrowDown')) return;
+    const target = activeList.entries[e.key === 'ArrowUp' ? index - 1 : index + 1];
+    if (!target) return;
+    e.preventDefault();
+    onMoveVerb(activeList.entries[index].verb, target.verb);
+  };
+
+  const handleDrop = (e: React.DragEvent, targetVerb: string) => {
+    e.preventDefault();
+    if (draggedVerb && draggedVerb !== targetVerb) {
+      onMoveVerb(draggedVerb, targetVerb);
+    }
+    setDraggedVerb(null);
+    setDropTarget(null);
+  };
+
+  const renderListControls = () => {
+    if (listNameEdit) {
+      return (
+        <form onSubmit={handleListNameSubmit} className="flex items-center space-x-2">
+          <input
+            type="text"
+            value={listNameEdit.name}
+            onChange={e => setListNameEdit({ ...listNameEdit, name: e.target.value })}
+            onKeyDown={e => e.key === 'Escape' && setListNameEdit(null)}
+            placeholder={listNameEdit.mode === 'create' ? 'Name of the new list...' : 'List name'}
+            className="block w-full px-3 py-1.5 bg-white border border-slate-300 rounded-md text-sm shadow-sm placeholder-slate-400 focus:outline-none focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500"
+            aria-label={listNameEdit.mode === 'create' ? 'New list name' : 'Rename list'}
+            autoFocus
+          />
+          <button type="submit" disabled={!listNameEdit.name.trim()} className="px-3 py-1.5 bg-indigo-600 text-white text-sm font-semibold rounded-md hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors">
+            {listNameEdit.mode === 'create' ? 'Create' : 'Save'}
+          </button>
+          <button type="button" onClick={() => setListNameEdit(null)} className="px-2 py-1.5 text-sm text-slate-500 hover:text-slate-700">
+            Cancel
+          </button>
+        </form>
+      );
+    }
+
+    return (
+      <div className="flex items-center space-x-1">
+        <select
+          value={activeList.id}
+          onChange={e => { onSelectList(e.target.value); setEditingTagsFor(null); }}
+          className="block w-full px-2 py-1.5 bg-white border border-slate-300 rounded-md text-sm font-semibold text-slate-700 shadow-sm focus:outline-none focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500"
+          aria-label="Verb list"
+        >
+          {lists.map(list => (
+            <option key={list.id} value={list.id}>{list.name} ({list.entries.length})</option>
+          ))}
+        </select>
+        <button onClick={() => setListNameEdit({ mode: 'create', name: '' })} className={iconButtonClass} aria-label="New list" title="New list">
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+            <path strokeLinecap="round" strokeLinejoin="round" d="M12 4v16m8-8H4" />
+          </svg>
+        </button>
+        <button onClick={() => setListNameEdit({ mode: 'rename', name: activeList.name })} className={iconButtonClass} aria-label="Rename list" title="Rename list">
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+            <path strokeLinecap="round" strokeLinejoin="round" d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z" />
+          </svg>
+        </button>
+        {lists.length > 1 && (
+          <button onClick={handleDeleteList} className={`${iconButtonClass} hover:text-red-600`} aria-label="Delete list" title="Delete list">
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+              <path strokeLinecap="round" strokeLinejoin="round" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+            </svg>
+          </button>
+        )}
+      </div>
+    );
+  };
+
+  const renderTagEditor = (verb: string, tags: string[]) => {
+    const suggestions = Array.from(new Set([...SUGGESTED_VERB_TAGS, ...listTags])).filter(tag => !tags.includes(tag));
+    return (
+      <div className="mx-2 mt-1 mb-2 p-2 bg-slate-50 border border-slate-200 rounded-lg">
+        <div className="flex flex-wrap gap-1 mb-2">
+          {tags.length === 0 && <span className="text-xs text-slate-400">No tags yet</span>}
+          {tags.map(tag => (
+            <span key={tag} className="inline-flex items-center gap-1 text-xs font-medium text-indigo-700 bg-indigo-100 rounded px-1.5 py-0.5">
+              {tag}
+              <button onClick={() => onSetVerbTags(verb, tags.filter(t => t !== tag))} className="text-indigo-400 hover:text-indigo-700" aria-label={`Remove tag ${tag}`}>×</button>
+            </span>
+          ))}
+        </div>
+        <form onSubmit={e => handleAddTag(e, verb, tags)} className="flex items-center space-x-2">
+          <input
+            type="text"
+            value={newTag}
+            onChange={e => setNewTag(e.target.value)}
+            list="verb-tag-suggestions"
+            placeholder="Add a tag..."
+            className="block w-full px-2 py-1 bg-white border border-slate-300 rounded-md text-xs shadow-sm placeholder-slate-400 focus:outline-none focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500"
+            aria-label={`Add a tag to ${verb}`}
+            autoFocus
+          />
+          <datalist id="verb-tag-suggestions">
+            {suggestions.map(tag => <option key={tag} value={tag} />)}
+          </datalist>
+          <button type="submit" disabled={!newTag.trim()} className="px-2 py-1 bg-indigo-600 text-white text-xs font-semibold rounded-md hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed">Add</button>
+          <button type="button" onClick={() => setEditingTagsFor(null)} className="px-2 py-1 text-xs text-slate-500 hover:text-slate-700">Done</button>
+        </form>
+      </div>
+    );
+  };
+
   return (
     <Card className="h-full">
       <CardHeader>
         <h2 className="text-xl font-bold text-slate-800">Verbs</h2>
         <p className="text-sm text-slate-500">Select a verb or add a new one</p>
+        <div className="mt-3">
+          {renderListControls()}
+        </div>
       </CardHeader>
       <CardContent className="p-2 flex flex-col">
         <form onSubmit={handleSubmit} className="p-2 pb-3 border-b border-slate-200 mb-2">
@@ -79,25 +258,109 @@ export const VerbList: React.FC<VerbListProps> = ({
           </div>
           {addError && <p id="verb-error" className="mt-2 text-sm text-red-600">{addError}</p>}
         </form>
+        {activeList.entries.length > 0 && (
+          <div className="px-2 pb-2 space-y-2">
+            <input
+              type="search"
+              value={search}
+              onChange={e => setSearch(e.target.value)}
+              placeholder="Search this list..."
+              className="block w-full px-3 py-1.5 bg-white border border-slate-300 rounded-md text-sm shadow-sm placeholder-slate-400 focus:outline-none focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500"
+              aria-label="Search verbs"
+            />
+            {listTags.length > 0 && (
+              <div className="flex flex-wrap gap-1">
+                {listTags.map(tag => (
+                  <button
+                    key={tag}
+                    onClick={() => setTagFilter(activeTagFilter === tag ? null : tag)}
+                    className={`text-xs font-medium rounded px-2 py-0.5 border transition-colors ${
+                      activeTagFilter === tag
+                        ? 'bg-indigo-600 text-white border-indigo-600'
+                        : 'bg-white text-slate-600 border-slate-300 hover:bg-slate-50'
+                    }`}
+                    aria-pressed={activeTagFilter === tag}
+                  >
+                    {tag}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
         <div className="flex-grow max-h-[65vh] overflow-y-auto">
+          {activeList.entries.length === 0 ? (
+            <p className="text-sm text-slate-500 text-center p-4">This list is empty. Add a verb above.</p>
+          ) : visibleEntries.length === 0 ? (
+            <p className="text-sm text-slate-500 text-center p-4">No verbs match.</p>
+          ) : (
           <ul className="space-y-1">
-            {verbs.map((verb) => (
-              <li key={verb}>
-                <button
-                  onClick={() => onSelectVerb(verb)}
-                  className={`w-full text-left px-4 py-2.5 rounded-lg text-md font-medium transition-all duration-200 ease-in-out focus:outline-none focus-visible:ring-2 focus-visible:ring-offset-2 focus-visible:ring-indigo-500 ${
-                    selectedVerb === verb
-                      ? 'bg-indigo-600 text-white shadow-sm'
-                      : 'bg-white text-slate-700 hover:bg-slate-100 hover:text-slate-900'
-                  }`}
-                >
-                  {verb}
-                </button>
+            {visibleEntries.map(({ verb, tags }) => {
+              const index = activeList.entries.findIndex(entry => entry.verb === verb);
+              const isSelected = selectedVerb === verb;
+              return (
+              <li
+                key={verb}
+                draggable={canReorder}
+                onDragStart={() => setDraggedVerb(verb)}
+                onDragEnd={() => { setDraggedVerb(null); setDropTarget(null); }}
+                onDragOver={e => { if (draggedVerb) { e.preventDefault(); setDropTarget(verb); } }}
+                onDrop={e => handleDrop(e, verb)}
+                className={`group rounded-lg ${dropTarget === verb && draggedVerb !== verb ? 'ring-2 ring-indigo-300' : ''} ${draggedVerb === verb ? 'opacity-50' : ''}`}
+              >
+                <div className="flex items-center">
+                  {canReorder && (
+                    <span className="px-1 text-slate-300 cursor-grab select-none" aria-hidden="true" title="Drag to reorder">⋮⋮</span>
+                  )}
+                  <button
+                    onClick={() => onSelectVerb(verb)}
+                    onKeyDown={e => handleVerbKeyDown(e, index)}
+                    className={`flex-grow min-w-0 text-left px-4 py-2.5 rounded-lg text-md font-medium transition-all duration-200 ease-in-out focus:outline-none focus-visible:ring-2 focus-visible:ring-offset-2 focus-visible:ring-indigo-500 ${
+                      isSelected
+                        ? 'bg-indigo-600 text-white shadow-sm'
+                        : 'bg-white text-slate-700 hover:bg-slate-100 hover:text-slate-900'
+                    }`}
+                  >
+                    {verb}
+                    {tags.length > 0 && (
+                      <span className="flex flex-wrap gap-1 mt-1">
+                        {tags.map(tag => (
+                          <span key={tag} className={`text-xs font-normal rounded px-1.5 ${isSelected ? 'bg-indigo-500 text-indigo-50' : 'bg-slate-100 text-slate-500'}`}>{tag}</span>
+                        ))}
+                      </span>
+                    )}
+                  </button>
+                  <div className="flex items-center opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+                    <button
+                      onClick={() => { setEditingTagsFor(editingTagsFor === verb ? null : verb); setNewTag(''); }}
+                      className={iconButtonClass}
+                      aria-label={`Edit tags for ${verb}`}
+                      title="Edit tags"
+                    >
+                      <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                        <path strokeLinecap="round" strokeLinejoin="round" d="M7 7h.01M7 3h5c.512 0 1.024.195 1.414.586l7 7a2 2 0 010 2.828l-7 7a2 2 0 01-2.828 0l-7-7A1.994 1.994 0 013 12V7a4 4 0 014-4z" />
+                      </svg>
+                    </button>
+                    <button
+                      onClick={() => onDeleteVerb(verb)}
+                      className={`${iconButtonClass} hover:text-red-600`}
+                      aria-label={`Remove ${verb} from this list`}
+                      title="Remove from list"
+                    >
+                      <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                        <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+                      </svg>
+                    </button>
+                  </div>
+                </div>
+                {editingTagsFor === verb && renderTagEditor(verb, tags)}
               </li>
-            ))}
+              );
+            })}
           </ul>
+          )}
         </div>
       </CardContent>
     </Card>
   );
-};
\ No newline at end of file
+};
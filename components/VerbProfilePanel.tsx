@@ -0,0 +1,164 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import type { ConjugationData, LanguageVariant, VerbProfile } from '../types';
+import { Card, CardHeader, CardContent } from './Card';
+import { Loader } from './Loader';
+import { ErrorMessage } from './ErrorMessage';
+import { getVerbProfile } from '../services/geminiService';
+import { getErrorMessage, isCancellation } from '../services/aiErrors';
+import { analyzeConjugations } from '../utils/conjugationAnalysis';
+
+interface VerbProfilePanelProps {
+  verb: string | null;
+  // The regularity and participles are read from the table, which is already loaded.
+  conjugations: ConjugationData | null;
+  variant: LanguageVariant;
+  onOpenGrammarTopic: (topicId: string) => void;
+}
+
+const describeFrequency = (rank: number | null) => {
+  if (rank === null) return 'Less common';
+  if (rank <= 50) return `Very common (#${rank})`;
+  if (rank <= 300) return `Common (#${rank})`;
+  return `#${rank} by frequency`;
+};
+
+export const VerbProfilePanel: React.FC<VerbProfilePanelProps> = ({ verb, conjugations, variant, onOpenGrammarTopic }) => {
+  const [profile, setProfile] = useState<VerbProfile | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [retryCount, setRetryCount] = useState(0);
+
+  useEffect(() => {
+    setProfile(null);
+    setError(null);
+    if (!verb) return;
+
+    const controller = new AbortController();
+    setIsLoading(true);
+    getVerbProfile(verb, { signal: controller.signal })
+      .then(setProfile)
+      .catch(err => {
+        if (isCancellation(err)) return;
+        console.error("Error fetching verb profile:", err);
+        setError(getErrorMessage(err, "Failed to load the verb profile. Please try again."));
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsLoading(false);
+      });
+    return () => controller.abort();
+  }, [verb, variant, retryCount]);
+
+  const verbClass = useMemo(() => {
+    if (!verb || !conjugations) return null;
+    const analysis = analyzeConjugations(verb, conjugations, variant);
+    if (!analysis) return 'Irregular';
+    if (analysis.irregularTenses.length > 0) return 'Irregular';
+    if (analysis.stemChangeTenses.length > 0) return 'Stem-changing';
+    if (analysis.spellingTenses.length > 0) return 'Regular, with spelling changes';
+    return 'Regular';
+  }, [verb, conjugations, variant]);
+
+  const renderFact = (label: string, value: React.ReactNode) => (
+    <div className="px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg">
+      <dt className="text-xs font-semibold text-slate-500 uppercase tracking-wide">{label}</dt>
+      <dd className="text-sm font-medium text-slate-800">{value}</dd>
+    </div>
+  );
+
+  const renderContent = () => {
+    if (!verb) {
+      return <div className="text-center text-slate-500 p-4">Select a verb to see its profile.</div>;
+    }
+    if (isLoading) {
+      return <div className="p-6"><Loader message="Loading verb profile..." size="sm" /></div>;
+    }
+    if (error) {
+      return <ErrorMessage message={error} onRetry={() => setRetryCount(count => count + 1)} />;
+    }
+    if (!profile) return null;
+
+    const pronominalLabel = profile.isReflexive || profile.isPronominal
+      ? `${profile.isReflexive ? 'Reflexive' : 'Pronominal'}${profile.pronominalForm ? `: ${profile.pronominalForm}` : ''}`
+      : 'No';
+
+    return (
+      <div className="space-y-5">
+        <p className="text-slate-700 italic">{profile.englishMeaning}</p>
+        <dl className="grid grid-cols-2 gap-2">
+          {renderFact('Frequency', describeFrequency(profile.frequencyRank))}
+          {renderFact('Class', verbClass ?? '…')}
+          {renderFact('Reflexive', pronominalLabel)}
+          {renderFact('Participle', conjugations?.participio.join(' / ') || '…')}
+        </dl>
+
+        <section>
+          <div className="flex items-center justify-between mb-2">
+            <h3 className="font-semibold text-indigo-700">Prepositions</h3>
+            <button
+              onClick={() => onOpenGrammarTopic('verb_preposition')}
+              className="text-xs font-semibold text-indigo-600 hover:text-indigo-800 hover:underline focus:outline-none focus-visible:ring-2 focus-visible:ring-indigo-500 rounded"
+            >
+              Verb + Preposition lesson →
+            </button>
+          </div>
+          {profile.prepositions.length === 0 ? (
+            <p className="text-sm text-slate-500">Takes its object directly, without a preposition.</p>
+          ) : (
+            <ul className="space-y-2">
+              {profile.prepositions.map(preposition => (
+                <li key={preposition.pattern} className="text-sm">
+                  <span className="font-bold text-slate-900">{preposition.pattern}</span>
+                  <span className="text-slate-600"> — {preposition.meaning}</span>
+                  <span className="block text-slate-700">{preposition.example}</span>
+                  <span className="block text-slate-500 italic">{preposition.exampleTranslation}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+
+        {profile.collocations.length > 0 && (
+          <section>
+            <h3 className="font-semibold text-indigo-700 mb-2">Common Collocations</h3>
+            <ul className="space-y-1 text-sm">
+              {profile.collocations.map(collocation => (
+                <li key={collocation.portuguese}>
+                  <span className="font-medium text-slate-900">{collocation.portuguese}</span>
+                  <span className="text-slate-500"> — {collocation.english}</span>
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+
+        {profile.derivedNouns.length > 0 && (
+          <section>
+            <h3 className="font-semibold text-indigo-700 mb-2">Related Nouns</h3>
+            <div className="flex flex-wrap gap-2">
+              {profile.derivedNouns.map(noun => (
+                <span key={noun.noun} className="px-2 py-1 text-sm bg-slate-100 rounded-md" title={noun.english}>
+                  <span className="font-medium text-slate-800">{noun.noun}</span>
+                  <span className="text-slate-500"> ({noun.english})</span>
+                </span>
+              ))}
+            </div>
+          </section>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <h2 className="text-xl font-bold text-slate-800">
+          Profile of <span className="text-indigo-600">{verb || '...'}</span>
+        </h2>
+        <p className="text-sm text-slate-500">Usage, prepositions and related words</p>
+      </CardHeader>
+      <CardContent>
+        {renderContent()}
+      </CardContent>
+    </Card>
+  );
+};
@@ -2,19 +2,19 @@
 import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { Card, CardContent } from './Card';
 import { Loader } from './Loader';
-import { VOCABULARY_CATEGORIES, VOCABULARY_CUSTOM_CATEGORIES_STORAGE_KEY, WORD_BANK_STORAGE_KEY } from '../constants';
+import { VOCABULARY_CATEGORIES } from '../constants';
 import { getVocabularyForCategory } from '../services/geminiService';
-import type { VocabularyItem } from '../types';
+import { getErrorMessage } from '../services/aiErrors';
+import { VOCABULARY_CUSTOM_CATEGORIES_RECORD, WORD_BANK_RECORD, WORD_REVIEW_RECORD } from '../services/storedRecords';
+import { useStoredState } from '../hooks/useStoredState';
+import type { VocabularyCategory, VocabularyItem } from '../types';
 import { WordBank } from './WordBank';
-import { VocabularyQuizModal } from './VocabularyQuizModal';
-
-interface Category {
-    id: string;
-    name: string;
-    emoji: string;
-    description: string;
-    isCustom?: boolean;
-}
+import { WordBankTransferModal } from './WordBankTransferModal';
+import { VocabularyFilterBar } from './VocabularyFilterBar';
+import { ALL_WORDS_FILTER, WORD_VARIANT_LABELS, describeWordType, isFilterActive, matchesVocabularyFilter } from '../utils/vocabularyItem';
+import { QUIZ_SIZE, VocabularyQuizModal } from './VocabularyQuizModal';
+import { getDueWords, reviewWord } from '../utils/wordReview';
+import type { ReviewGrade } from '../utils/wordReview';
 
 const WelcomeContent: React.FC = () => (
     <div className="text-center flex flex-col items-center justify-center h-full p-8">
@@ -28,8 +28,16 @@ const WelcomeContent: React.FC = () => (
     </div>
 );
 
-export const VocabularyExplorer: React.FC = () => {
-    const [selectedCategory, setSelectedCategory] = useState<Category | null>(null);
+const NO_ITEMS: VocabularyItem[] = [];
+
+interface VocabularyExplorerProps {
+    // The open category comes from the URL; choosing another one navigates.
+    categoryId: string | null;
+    onSelectCategory: (categoryId: string | null) => void;
+}
+
+export const VocabularyExplorer: React.FC<VocabularyExplorerProps> = ({ categoryId, onSelectCategory }) => {
+    const [selectedCategory, setSelectedCategory] = useState<VocabularyCategory | null>(null);
     const [vocabulary, setVocabulary] = useState<VocabularyItem[]>([]);
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
@@ -37,15 +45,20 @@ export const VocabularyExplorer: React.FC = () => {
     
     // --- Custom Categories State ---
     const [customTopicInput, setCustomTopicInput] = useState('');
-    const [customCategories, setCustomCategories] = useState<Category[]>([]);
-    const [allCategories, setAllCategories] = useState<Category[]>([]);
+    const [customCategories, setCustomCategories] = useStoredState(VOCABULARY_CUSTOM_CATEGORIES_RECORD);
+    const [allCategories, setAllCategories] = useState<VocabularyCategory[]>([]);
     const [isGeneratingCustom, setIsGeneratingCustom] = useState(false);
     const [unsavedTopic, setUnsavedTopic] = useState<{name: string; items: VocabularyItem[]} | null>(null);
 
     // --- Word Bank State ---
     const [leftColumnView, setLeftColumnView] = useState<'categories' | 'bank'>('categories');
-    const [wordBank, setWordBank] = useState<Record<string, VocabularyItem[]>>({});
+    const [wordBank, setWordBank] = useStoredState(WORD_BANK_RECORD);
     const [isQuizModalOpen, setIsQuizModalOpen] = useState(false);
+    const [reviewSchedule, setReviewSchedule] = useStoredState(WORD_REVIEW_RECORD);
+    // The words of the review in progress, fixed when it starts so that grading doesn't change them.
+    const [reviewItems, setReviewItems] = useState<VocabularyItem[] | null>(null);
+    const [isTransferOpen, setIsTransferOpen] = useState(false);
+    const [vocabularyFilter, setVocabularyFilter] = useState(ALL_WORDS_FILTER);
 
     // This Set is used to quickly check which words have been 'banked' by the user.
     // We explicitly type `allWords` to `string[]` to avoid potential type inference
@@ -62,36 +75,9 @@ export const VocabularyExplorer: React.FC = () => {
         const allWords: string[] = allItems.map((item) => item.portugueseWord);
         return new Set(allWords);
     }, [wordBank]);
-
-    // --- Load and Save Custom Categories & Word Bank ---
-    useEffect(() => {
-        try {
-            const savedCustom = window.localStorage.getItem(VOCABULARY_CUSTOM_CATEGORIES_STORAGE_KEY);
-            if (savedCustom) setCustomCategories(JSON.parse(savedCustom));
-
-            const savedBank = window.localStorage.getItem(WORD_BANK_STORAGE_KEY);
-            if (savedBank) setWordBank(JSON.parse(savedBank));
-
-        } catch (error) {
-            console.error("Failed to load data from localStorage:", error);
-        }
-    }, []);
-
-    useEffect(() => {
-        try {
-            window.localStorage.setItem(VOCABULARY_CUSTOM_CATEGORIES_STORAGE_KEY, JSON.stringify(customCategories));
-        } catch (error) {
-            console.error("Failed to save custom categories:", error);
-        }
-    }, [customCategories]);
-
-    useEffect(() => {
-        try {
-            window.localStorage.setItem(WORD_BANK_STORAGE_KEY, JSON.stringify(wordBank));
-        } catch (error) {
-            console.error("Failed to save word bank:", error);
-        }
-    }, [wordBank]);
+    // Kept stable so that an open quiz isn't reset when grading re-renders this component.
+    const bankedWords = useMemo(() => Array.from(bankedWordsSet), [bankedWordsSet]);
+    const dueWords = useMemo(() => getDueWords(wordBank, reviewSchedule), [wordBank, reviewSchedule]);
 
     // Combine default and custom categories into one list for rendering
     useEffect(() => {
@@ -99,6 +85,21 @@ export const VocabularyExplorer: React.FC = () => {
     }, [customCategories]);
 
 
+    // Opens the category in the URL. Custom categories are only known once they've loaded.
+    useEffect(() => {
+        if (!categoryId) {
+            if (selectedCategory) {
+                setSelectedCategory(null);
+                setVocabulary([]);
+            }
+            return;
+        }
+        if (selectedCategory?.id === categoryId) return;
+        const category = allCategories.find(c => c.id === categoryId);
+        if (category) setSelectedCategory(category);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [categoryId, allCategories]);
+
     useEffect(() => {
         const fetchVocabulary = async () => {
             if (!selectedCategory) return;
@@ -116,7 +117,7 @@ export const VocabularyExplorer: React.FC = () => {
                 setVocabulary(data);
             } catch (err) {
                 console.error("Error fetching vocabulary:", err);
-                setError("Failed to load vocabulary. The AI model may be busy. Please try another category or try again later.");
+                setError(getErrorMessage(err, "Failed to load vocabulary. The AI model may be busy. Please try another category or try again later."));
             } finally {
                 setIsLoading(false);
             }
@@ -133,6 +134,7 @@ export const VocabularyExplorer: React.FC = () => {
 
         setIsGeneratingCustom(true);
         setSelectedCategory(null);
+        onSelectCategory(null);
         setVocabulary([]);
         setError(null);
 
@@ -145,7 +147,7 @@ export const VocabularyExplorer: React.FC = () => {
             setCustomTopicInput('');
         } catch (err) {
             console.error("Error generating custom topic:", err);
-            setError(`Failed to generate vocabulary for "${topicName}". Please try again.`);
+            setError(getErrorMessage(err, `Failed to generate vocabulary for "${topicName}". Please try again.`));
         } finally {
             setIsGeneratingCustom(false);
         }
@@ -154,7 +156,7 @@ export const VocabularyExplorer: React.FC = () => {
     const handleSaveTopic = () => {
         if (!unsavedTopic) return;
 
-        const newCategory: Category = {
+        const newCategory: VocabularyCategory = {
             id: `custom-${Date.now()}`,
             name: unsavedTopic.name,
             emoji: '📌', // Default emoji for custom topics
@@ -166,6 +168,7 @@ export const VocabularyExplorer: React.FC = () => {
         setCustomCategories(updatedCustomCategories);
         setVocabulary(unsavedTopic.items);
         setSelectedCategory(newCategory);
+        onSelectCategory(newCategory.id);
         setUnsavedTopic(null);
     };
 
@@ -176,6 +179,7 @@ export const VocabularyExplorer: React.FC = () => {
             setCustomCategories(prev => prev.filter(c => c.id !== topicId));
             if (selectedCategory?.id === topicId) {
                 setSelectedCategory(null);
+                onSelectCategory(null);
                 setVocabulary([]);
             }
         }
@@ -205,9 +209,32 @@ export const VocabularyExplorer: React.FC = () => {
         });
     };
     
+    // Imported words have already been checked against the bank for duplicates.
+    const handleImportWords = (category: string, items: VocabularyItem[]) => {
+        setWordBank(prev => ({
+            ...prev,
+            [category]: [...(prev[category] || []), ...items].sort((a,b) => a.portugueseWord.localeCompare(b.portugueseWord)),
+        }));
+    };
+
+    const handleStartReview = () => {
+        setReviewItems(dueWords.slice(0, QUIZ_SIZE).map(word => word.item));
+    };
+
+    // Only banked words are scheduled; other words in a topic quiz aren't tracked.
+    const handleGradeWord = (item: VocabularyItem, grade: ReviewGrade) => {
+        if (!bankedWordsSet.has(item.portugueseWord)) return;
+        setReviewSchedule(prev => reviewWord(prev, item.portugueseWord, grade));
+    };
+
     const currentTopicName = unsavedTopic?.name || selectedCategory?.name;
     const currentTopicEmoji = selectedCategory?.emoji;
     const currentVocabularyList = unsavedTopic?.items || vocabulary;
+    // The quiz uses the filtered words too, e.g. to practise only feminine nouns.
+    const filteredVocabularyList = useMemo(
+        () => currentVocabularyList.filter(item => matchesVocabularyFilter(item, vocabularyFilter)),
+        [currentVocabularyList, vocabularyFilter]
+    );
 
     const handleRegenerateVocabulary = async () => {
         if (!currentTopicName) return;
@@ -229,7 +256,7 @@ export const VocabularyExplorer: React.FC = () => {
     
         } catch (err) {
             console.error("Error regenerating vocabulary:", err);
-            setError("Failed to generate a new set of words. Please try again.");
+            setError(getErrorMessage(err, "Failed to generate a new set of words. Please try again."));
         } finally {
             setIsRegenerating(false);
         }
@@ -285,7 +312,7 @@ export const VocabularyExplorer: React.FC = () => {
                                         {allCategories.map((cat) => (
                                             <li key={cat.id}>
                                                 <button
-                                                    onClick={() => setSelectedCategory(cat)}
+                                                    onClick={() => onSelectCategory(cat.id)}
                                                     className={`w-full text-left p-3 rounded-lg transition-all duration-200 ease-in-out focus:outline-none focus-visible:ring-2 focus-visible:ring-offset-2 focus-visible:ring-indigo-500 flex items-center justify-between ${
                                                         selectedCategory?.id === cat.id
                                                         ? 'bg-indigo-600 text-white shadow-sm'
@@ -318,7 +345,14 @@ export const VocabularyExplorer: React.FC = () => {
                                 </div>
                              </>
                         ) : (
-                            <WordBank wordBank={wordBank} onRemoveWord={handleRemoveFromBank} />
+                            <WordBank
+                                wordBank={wordBank}
+                                onRemoveWord={handleRemoveFromBank}
+                                reviewSchedule={reviewSchedule}
+                                dueCount={dueWords.length}
+                                onStartReview={handleStartReview}
+                                onOpenTransfer={() => setIsTransferOpen(true)}
+                            />
                         )}
                     </CardContent>
                 </Card>
@@ -354,15 +388,31 @@ export const VocabularyExplorer: React.FC = () => {
                                     </button>
                                 )}
                             </div>
+                           <div className="mb-4 px-2">
+                                <VocabularyFilterBar filter={vocabularyFilter} onChange={setVocabularyFilter} />
+                           </div>
                            <div className="space-y-4 max-h-[70vh] overflow-y-auto pr-2">
-                                {currentVocabularyList.map((item, index) => {
+                                {filteredVocabularyList.length === 0 && isFilterActive(vocabularyFilter) && (
+                                    <p className="text-center p-8 text-slate-500 text-sm">None of these words match the filters.</p>
+                                )}
+                                {filteredVocabularyList.map((item, index) => {
                                     const isBanked = bankedWordsSet.has(item.portugueseWord);
                                     return (
                                         <div key={index} className="bg-slate-50 rounded-lg p-4">
                                             <div className="flex items-start justify-between gap-4">
                                                 <div className="flex-grow">
                                                     <h3 className="text-xl font-bold text-indigo-700">{item.portugueseWord}</h3>
-                                                    <p className="text-slate-600">{item.englishTranslation} <span className="italic text-slate-500 text-sm">({item.wordType})</span></p>
+                                                    <p className="text-slate-600">{item.englishTranslation} <span className="italic text-slate-500 text-sm">({describeWordType(item)})</span></p>
+                                                    <div className="flex flex-wrap items-center gap-2 mt-1 text-sm text-slate-500">
+                                                        {item.ipa && <span className="font-mono">/{item.ipa}/</span>}
+                                                        {item.plural && <span>plural: {item.plural}</span>}
+                                                        {item.register !== 'neutral' && (
+                                                            <span className="text-xs font-semibold bg-purple-100 text-purple-700 rounded-full px-2 py-0.5">{item.register}</span>
+                                                        )}
+                                                        {item.variant !== 'both' && (
+                                                            <span className="text-xs font-semibold bg-amber-100 text-amber-700 rounded-full px-2 py-0.5">{WORD_VARIANT_LABELS[item.variant]}</span>
+                                                        )}
+                                                    </div>
                                                 </div>
                                                 <div className="flex items-center flex-shrink-0 gap-2">
                                                     {isBanked ? (
@@ -388,6 +438,15 @@ export const VocabularyExplorer: React.FC = () => {
                                             <div className="mt-3 border-t border-slate-200 pt-3">
                                                 <p className="text-slate-800">"{item.exampleSentence}"</p>
                                                 <p className="text-sm text-slate-500 italic mt-1">"{item.exampleTranslation}"</p>
+                                                {(item.synonyms.length > 0 || item.antonyms.length > 0) && (
+                                                    <p className="text-sm text-slate-600 mt-2">
+                                                        {item.synonyms.length > 0 && <span className="mr-4"><span className="font-semibold">Synonyms:</span> {item.synonyms.join(', ')}</span>}
+                                                        {item.antonyms.length > 0 && <span><span className="font-semibold">Antonyms:</span> {item.antonyms.join(', ')}</span>}
+                                                    </p>
+                                                )}
+                                                {item.variantNote && (
+                                                    <p className="text-xs text-amber-700 bg-amber-50 rounded px-2 py-1 mt-2 inline-block">{item.variantNote}</p>
+                                                )}
                                             </div>
                                         </div>
                                     )
@@ -411,7 +470,7 @@ export const VocabularyExplorer: React.FC = () => {
                                     </button>
                                      <button
                                         onClick={() => setIsQuizModalOpen(true)}
-                                        disabled={isRegenerating || isLoading || isGeneratingCustom || currentVocabularyList.length === 0}
+                                        disabled={isRegenerating || isLoading || isGeneratingCustom || filteredVocabularyList.length === 0}
                                         className="w-full sm:flex-1 flex items-center justify-center px-4 py-2 bg-white border border-slate-300 text-slate-700 font-semibold rounded-md hover:bg-slate-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-60 disabled:cursor-not-allowed transition-colors"
                                     >
                                         <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 mr-2" viewBox="0 0 20 20" fill="currentColor">
@@ -430,9 +489,26 @@ export const VocabularyExplorer: React.FC = () => {
         <VocabularyQuizModal 
             isOpen={isQuizModalOpen}
             onClose={() => setIsQuizModalOpen(false)}
-            vocabularyItems={currentVocabularyList}
+            vocabularyItems={filteredVocabularyList}
             categoryName={currentTopicName || ''}
-            bankedWords={Array.from(bankedWordsSet)}
+            bankedWords={bankedWords}
+            onGrade={handleGradeWord}
+        />
+        <VocabularyQuizModal
+            isOpen={reviewItems !== null}
+            onClose={() => setReviewItems(null)}
+            vocabularyItems={reviewItems ?? NO_ITEMS}
+            categoryName=""
+            bankedWords={bankedWords}
+            isReview
+            onGrade={handleGradeWord}
+        />
+        <WordBankTransferModal
+            isOpen={isTransferOpen}
+            onClose={() => setIsTransferOpen(false)}
+            wordBank={wordBank}
+            bankedWords={bankedWords}
+            onImportWords={handleImportWords}
         />
         </>
     );
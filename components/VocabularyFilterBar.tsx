@@ -0,0 +1,44 @@
+import React from 'react';
+import { GENDERS, PARTS_OF_SPEECH, REGISTERS, WORD_VARIANTS, WORD_VARIANT_LABELS, ALL_WORDS_FILTER, isFilterActive } from '../utils/vocabularyItem';
+import type { VocabularyFilter } from '../utils/vocabularyItem';
+
+interface VocabularyFilterBarProps {
+    filter: VocabularyFilter;
+    onChange: (filter: VocabularyFilter) => void;
+}
+
+const selectClassName = "px-2 py-1 bg-white border border-slate-300 rounded-md text-sm text-slate-700 focus:outline-none focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500";
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+export const VocabularyFilterBar: React.FC<VocabularyFilterBarProps> = ({ filter, onChange }) => {
+    const update = (changes: Partial<VocabularyFilter>) => onChange({ ...filter, ...changes });
+
+    return (
+        <div className="flex flex-wrap items-center gap-2">
+            <select value={filter.partOfSpeech} onChange={e => update({ partOfSpeech: e.target.value as VocabularyFilter['partOfSpeech'] })} className={selectClassName} aria-label="Filter by part of speech">
+                <option value="all">All parts of speech</option>
+                {PARTS_OF_SPEECH.map(part => <option key={part} value={part}>{capitalize(part)}</option>)}
+            </select>
+            <select value={filter.gender} onChange={e => update({ gender: e.target.value as VocabularyFilter['gender'] })} className={selectClassName} aria-label="Filter by gender">
+                <option value="all">Any gender</option>
+                {GENDERS.map(gender => <option key={gender} value={gender}>{capitalize(gender)}</option>)}
+            </select>
+            <select value={filter.register} onChange={e => update({ register: e.target.value as VocabularyFilter['register'] })} className={selectClassName} aria-label="Filter by register">
+                <option value="all">Any register</option>
+                {REGISTERS.map(register => <option key={register} value={register}>{capitalize(register)}</option>)}
+            </select>
+            <select value={filter.variant} onChange={e => update({ variant: e.target.value as VocabularyFilter['variant'] })} className={selectClassName} aria-label="Filter by variant">
+                <option value="all">Anywhere</option>
+                {WORD_VARIANTS.filter(variant => variant !== 'both').map(variant => (
+                    <option key={variant} value={variant}>Used in {WORD_VARIANT_LABELS[variant]}</option>
+                ))}
+            </select>
+            {isFilterActive(filter) && (
+                <button onClick={() => onChange(ALL_WORDS_FILTER)} className="px-2 py-1 text-sm text-indigo-600 font-semibold rounded-md hover:bg-indigo-50">
+                    Clear filters
+                </button>
+            )}
+        </div>
+    );
+};
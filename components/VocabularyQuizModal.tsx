@@ -1,7 +1,14 @@
 
 import React, { useState, useEffect, useRef, useCallback } from 'react';
 import type { VocabularyItem } from '../types';
-import { getVocabularyForCategory } from '../services/geminiService';
+import type { ReviewGrade } from '../utils/wordReview';
+import { describeWordType } from '../utils/vocabularyItem';
+import { QUIZ_MODES, buildQuizQuestions, gradeQuizAnswer, shuffleArray } from '../utils/vocabularyQuiz';
+import type { QuizMode, QuizQuestion } from '../utils/vocabularyQuiz';
+import { playAudio } from '../utils/audio';
+import { getSpeech, getVocabularyForCategory } from '../services/geminiService';
+import { getErrorMessage, isCancellation } from '../services/aiErrors';
+import { AnswerFeedback } from './AnswerFeedback';
 import { Loader } from './Loader';
 
 interface VocabularyQuizModalProps {
@@ -10,36 +17,40 @@ interface VocabularyQuizModalProps {
   vocabularyItems: VocabularyItem[];
   categoryName: string;
   bankedWords: string[];
+  // A review of due words from the word bank rather than a quiz on one topic, so no new
+  // sets are generated.
+  isReview?: boolean;
+  // Called for each answer when the quiz is checked.
+  onGrade: (item: VocabularyItem, grade: ReviewGrade) => void;
 }
 
 type QuizStatus = 'ready' | 'submitted';
-type QuizMode = 'en-to-pt' | 'pt-to-en';
-const QUIZ_SIZE = 10;
+export const QUIZ_SIZE = 10;
 const MAX_REGENERATIONS = 5;
-
-const shuffleArray = <T,>(array: T[]): T[] => {
-  const newArray = [...array];
-  for (let i = newArray.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [newArray[i], newArray[j]] = [newArray[j], newArray[i]];
-  }
-  return newArray;
+const DEFAULT_QUIZ_MODES: QuizMode[] = ['en-to-pt'];
+
+const MODE_INSTRUCTIONS: Record<QuizMode, string> = {
+  'en-to-pt': 'Type the Portuguese word for each English prompt.',
+  'pt-to-en': 'Type the English translation for each Portuguese word.',
+  'multiple-choice': 'Pick the Portuguese word for each English prompt.',
+  listening: 'Listen to each word and type what you hear.',
+  gender: 'Choose the article for each noun.',
+  cloze: 'Fill the gap in each sentence with the missing word.',
 };
 
-// Removes accents and diacritics for a more forgiving comparison
-const normalizeString = (str: string): string => {
-    return str
-        .normalize("NFD") // Decompose accented characters
-        .replace(/[\u0300-\u036f]/g, "") // Remove diacritical marks
-        .toLowerCase()
-        .trim();
+const INPUT_PLACEHOLDERS: Partial<Record<QuizMode, string>> = {
+  'en-to-pt': "Portuguese word...",
+  'pt-to-en': "English translation...",
+  listening: "What you heard...",
+  cloze: "Missing word...",
 };
 
 
-export const VocabularyQuizModal: React.FC<VocabularyQuizModalProps> = ({ isOpen, onClose, vocabularyItems, categoryName, bankedWords }) => {
+export const VocabularyQuizModal: React.FC<VocabularyQuizModalProps> = ({ isOpen, onClose, vocabularyItems, categoryName, bankedWords, isReview = false, onGrade }) => {
   const [status, setStatus] = useState<QuizStatus>('ready');
-  const [quizMode, setQuizMode] = useState<QuizMode>('en-to-pt');
+  const [quizModes, setQuizModes] = useState<QuizMode[]>(DEFAULT_QUIZ_MODES);
   const [quizItems, setQuizItems] = useState<VocabularyItem[]>([]);
+  const [questions, setQuestions] = useState<QuizQuestion[]>([]);
   const [userAnswers, setUserAnswers] = useState<string[]>([]);
   const [score, setScore] = useState(0);
   const [revealedIndices, setRevealedIndices] = useState<Set<number>>(new Set());
@@ -51,14 +62,26 @@ export const VocabularyQuizModal: React.FC<VocabularyQuizModalProps> = ({ isOpen
   const [regenerationCount, setRegenerationCount] = useState(0);
   const [isLoadingNextSet, setIsLoadingNextSet] = useState(false); // For fallback loading
   const [fetchError, setFetchError] = useState<string | null>(null);
+  const [loadingAudioIndex, setLoadingAudioIndex] = useState<number | null>(null);
 
   const listRef = useRef<HTMLDivElement>(null);
+  const audioContextRef = useRef<AudioContext | null>(null);
+  // The background fetch of the next set, cancelled when the quiz is closed.
+  const prefetchRequestRef = useRef<AbortController | null>(null);
+
+  const startPrefetchRequest = () => {
+    prefetchRequestRef.current?.abort();
+    prefetchRequestRef.current = new AbortController();
+    return prefetchRequestRef.current.signal;
+  };
 
-  const setupQuiz = useCallback((itemsToQuiz: VocabularyItem[]) => {
+  // `pool` is every word of the topic seen so far; multiple choice options are drawn from it.
+  const setupQuiz = useCallback((itemsToQuiz: VocabularyItem[], modes: QuizMode[], pool: VocabularyItem[]) => {
     if (itemsToQuiz.length === 0) return;
     const shuffledItems = shuffleArray(itemsToQuiz);
     const quizSet = shuffledItems.slice(0, QUIZ_SIZE);
     setQuizItems(quizSet);
+    setQuestions(buildQuizQuestions(quizSet, modes, pool));
     setUserAnswers(new Array(quizSet.length).fill(''));
     setStatus('ready');
     setScore(0);
@@ -71,18 +94,19 @@ export const VocabularyQuizModal: React.FC<VocabularyQuizModalProps> = ({ isOpen
       const initializeAndPrefetch = async () => {
         // 1. Initial setup with the first set of words
         setAllSeenWords(vocabularyItems);
-        setupQuiz(vocabularyItems);
+        setupQuiz(vocabularyItems, quizModes, vocabularyItems);
         setRegenerationCount(0);
         
         // 2. Immediately start prefetching the next set in the background
-        if (categoryName && regenerationCount < MAX_REGENERATIONS) {
+        if (!isReview && categoryName && regenerationCount < MAX_REGENERATIONS) {
           setIsPrefetching(true);
           try {
             const currentWords = vocabularyItems.map(item => item.portugueseWord);
             const wordsToExclude = [...new Set([...currentWords, ...bankedWords])];
-            const newItems = await getVocabularyForCategory(categoryName, undefined, wordsToExclude);
+            const newItems = await getVocabularyForCategory(categoryName, undefined, wordsToExclude, { priority: 'prefetch', signal: startPrefetchRequest() });
             setPrefetchedItems(newItems.length > 0 ? newItems : []);
           } catch (error) {
+            if (isCancellation(error)) return;
             console.error("Initial prefetch failed:", error);
             setPrefetchedItems(null); // Set to null so fallback can trigger
           } finally {
@@ -93,14 +117,16 @@ export const VocabularyQuizModal: React.FC<VocabularyQuizModalProps> = ({ isOpen
 
       initializeAndPrefetch();
     } else {
+      prefetchRequestRef.current?.abort();
       // Reset state on close
       setTimeout(() => {
         setQuizItems([]);
+        setQuestions([]);
         setUserAnswers([]);
         setStatus('ready');
         setScore(0);
         setRevealedIndices(new Set());
-        setQuizMode('en-to-pt');
+        setQuizModes(DEFAULT_QUIZ_MODES);
         setAllSeenWords([]);
         setRegenerationCount(0);
         setPrefetchedItems(null);
@@ -109,7 +135,7 @@ export const VocabularyQuizModal: React.FC<VocabularyQuizModalProps> = ({ isOpen
         setFetchError(null);
       }, 300); 
     }
-  // setupQuiz and categoryName are stable dependencies.
+  // setupQuiz and categoryName are stable dependencies; quizModes only applies to new sets.
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [isOpen, vocabularyItems, bankedWords]);
 
@@ -121,43 +147,61 @@ export const VocabularyQuizModal: React.FC<VocabularyQuizModalProps> = ({ isOpen
 
   const handleRevealAnswer = (index: number) => {
     setRevealedIndices(prev => new Set(prev).add(index));
-    const answerToReveal = quizMode === 'en-to-pt' 
-        ? quizItems[index].portugueseWord 
-        : quizItems[index].englishTranslation;
-    handleInputChange(index, answerToReveal);
+    handleInputChange(index, questions[index].answer);
   };
 
-  const checkAnswer = (userAnswer: string, correctAnswer: string, mode: QuizMode): boolean => {
-    if (mode === 'en-to-pt') {
-        // Forgiving check for Portuguese: remove accents, lowercase, trim
-        return normalizeString(userAnswer) === normalizeString(correctAnswer);
-    } else { // pt-to-en
-        // Strict check for English: lowercase, trim
-        return userAnswer.trim().toLowerCase() === correctAnswer.toLowerCase();
-    }
-  }
-
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     let currentScore = 0;
-    quizItems.forEach((item, index) => {
-      const correctAnswer = quizMode === 'en-to-pt' ? item.portugueseWord : item.englishTranslation;
-      if (checkAnswer(userAnswers[index], correctAnswer, quizMode)) {
+    questions.forEach((question, index) => {
+      const { isCorrect } = gradeQuizAnswer(question, userAnswers[index]);
+      if (isCorrect) {
         currentScore++;
       }
+      onGrade(question.item, revealedIndices.has(index) ? 'revealed' : isCorrect ? 'correct' : 'wrong');
     });
     setScore(currentScore);
     setStatus('submitted');
     listRef.current?.scrollTo(0, 0);
   };
 
-  const handleModeSwap = () => {
-    setQuizMode(prev => prev === 'en-to-pt' ? 'pt-to-en' : 'en-to-pt');
-    // Reset progress when mode is swapped
+  // Several modes can be chosen at once; the words are shared out between them.
+  const handleToggleMode = (mode: QuizMode) => {
+    const newModes = quizModes.includes(mode) ? quizModes.filter(m => m !== mode) : [...quizModes, mode];
+    if (newModes.length === 0) return;
+    setQuizModes(newModes);
+    // Reset progress when the modes change
+    setQuestions(buildQuizQuestions(quizItems, newModes, allSeenWords));
     setUserAnswers(new Array(quizItems.length).fill(''));
     setRevealedIndices(new Set());
   };
 
+  const handlePlayWord = async (index: number) => {
+    if (loadingAudioIndex !== null) return;
+    if (!audioContextRef.current) {
+        try {
+            audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)();
+        } catch (e) {
+            console.error("Web Audio API is not supported in this browser.", e);
+            alert("Sorry, your browser does not support audio playback.");
+            return;
+        }
+    }
+    if (audioContextRef.current.state === 'suspended') {
+        audioContextRef.current.resume();
+    }
+    setLoadingAudioIndex(index);
+    try {
+        const audioBase64 = await getSpeech(questions[index].item.portugueseWord);
+        await playAudio(audioBase64, audioContextRef.current);
+    } catch (error) {
+        console.error("Failed to play the word:", error);
+        alert(getErrorMessage(error, "Sorry, could not play the audio. The AI might be busy."));
+    } finally {
+        setLoadingAudioIndex(null);
+    }
+  };
+
   const handleGenerateNewSet = async () => {
     if (regenerationCount >= MAX_REGENERATIONS) return;
 
@@ -170,11 +214,12 @@ export const VocabularyQuizModal: React.FC<VocabularyQuizModalProps> = ({ isOpen
         const seenPortugueseWords = currentSeenWords.map(item => item.portugueseWord);
         const wordsToExclude = [...new Set([...seenPortugueseWords, ...bankedWords])];
         
-        getVocabularyForCategory(categoryName, undefined, wordsToExclude)
+        getVocabularyForCategory(categoryName, undefined, wordsToExclude, { priority: 'prefetch', signal: startPrefetchRequest() })
             .then(nextItems => {
                 setPrefetchedItems(nextItems.length > 0 ? nextItems : []);
             })
             .catch(error => {
+                if (isCancellation(error)) return;
                 console.error("Background prefetch failed:", error);
                 setPrefetchedItems(null);
             })
@@ -193,7 +238,7 @@ export const VocabularyQuizModal: React.FC<VocabularyQuizModalProps> = ({ isOpen
 
         const newSeenWords = [...allSeenWords, ...prefetchedItems];
         setAllSeenWords(newSeenWords);
-        setupQuiz(prefetchedItems);
+        setupQuiz(prefetchedItems, quizModes, newSeenWords);
         setPrefetchedItems(null);
         setRegenerationCount(prev => prev + 1);
         startNextPrefetch(newSeenWords);
@@ -213,26 +258,76 @@ export const VocabularyQuizModal: React.FC<VocabularyQuizModalProps> = ({ isOpen
         } else {
             const newSeenWords = [...allSeenWords, ...newItems];
             setAllSeenWords(newSeenWords);
-            setupQuiz(newItems);
+            setupQuiz(newItems, quizModes, newSeenWords);
             setRegenerationCount(prev => prev + 1);
             startNextPrefetch(newSeenWords); // Still prefetch the next one
         }
     } catch (error) {
         console.error("Failed to fetch new quiz set on demand:", error);
-        setFetchError("Sorry, a new set of words could not be generated. Please try again.");
+        setFetchError(getErrorMessage(error, "Sorry, a new set of words could not be generated. Please try again."));
     } finally {
         setIsLoadingNextSet(false);
     }
   };
 
 
-  const renderQuizItem = (item: VocabularyItem, index: number) => {
+  const renderPrompt = (question: QuizQuestion, index: number) => {
+    const { item } = question;
+    switch (question.mode) {
+      case 'pt-to-en':
+        return (
+            <p className="text-md text-slate-600 mb-3">
+                <span className="font-semibold">Portuguese:</span> "{item.portugueseWord}" <span className="italic">({describeWordType(item)})</span>
+            </p>
+        );
+      case 'listening':
+        return (
+            <div className="flex items-center gap-3 mb-3 text-md text-slate-600">
+                <button
+                    type="button"
+                    onClick={() => handlePlayWord(index)}
+                    disabled={loadingAudioIndex !== null}
+                    className="flex items-center gap-2 px-3 py-1.5 bg-indigo-100 text-indigo-700 font-semibold text-sm rounded-md hover:bg-indigo-200 disabled:opacity-60 transition-colors"
+                    aria-label={`Play word ${index + 1}`}
+                >
+                    {loadingAudioIndex === index ? <Loader size="sm" /> : (
+                        <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+                            <path fillRule="evenodd" d="M9.383 3.076A1 1 0 0110 4v12a1 1 0 01-1.707.707L4.586 13H2a1 1 0 01-1-1V8a1 1 0 011-1h2.586l3.707-3.707a1 1 0 011.09-.217zM14.657 2.929a1 1 0 011.414 0A9.972 9.972 0 0119 10a9.972 9.972 0 01-2.929 7.071 1 1 0 01-1.414-1.414A7.971 7.971 0 0017 10c0-2.21-.894-4.208-2.343-5.657a1 1 0 010-1.414z" clipRule="evenodd" />
+                        </svg>
+                    )}
+                    <span>Play</span>
+                </button>
+                <span className="italic">({describeWordType(item)})</span>
+            </div>
+        );
+      case 'gender':
+        return (
+            <p className="text-md text-slate-600 mb-3">
+                <span className="text-xl font-bold text-slate-800">___ {question.noun}</span> <span className="italic">({item.englishTranslation})</span>
+            </p>
+        );
+      case 'cloze':
+        return (
+            <div className="mb-3">
+                <p className="text-lg text-slate-800">{question.sentenceWithBlank}</p>
+                <p className="text-sm text-slate-500 italic mt-1">"{item.exampleTranslation}"</p>
+            </div>
+        );
+      default:
+        return (
+            <p className="text-md text-slate-600 mb-3">
+                <span className="font-semibold">English:</span> "{item.englishTranslation}" <span className="italic">({describeWordType(item)})</span>
+            </p>
+        );
+    }
+  };
+
+  const renderQuizItem = (question: QuizQuestion, index: number) => {
     const isSubmitted = status === 'submitted';
     const isRevealed = revealedIndices.has(index);
 
-    const correctAnswer = quizMode === 'en-to-pt' ? item.portugueseWord : item.englishTranslation;
-    const isCorrect = isSubmitted && checkAnswer(userAnswers[index], correctAnswer, quizMode);
-    const isExactMatch = userAnswers[index].trim() === correctAnswer;
+    const grade = isSubmitted ? gradeQuizAnswer(question, userAnswers[index]) : null;
+    const isCorrect = grade?.isCorrect ?? false;
 
     let containerClasses = 'bg-white border-slate-200';
     let inputBorderClasses = 'border-slate-300 focus-within:border-indigo-500 focus-within:ring-indigo-500';
@@ -251,7 +346,7 @@ export const VocabularyQuizModal: React.FC<VocabularyQuizModalProps> = ({ isOpen
     }
 
     return (
-        <div key={item.portugueseWord + index} className={`p-4 border rounded-xl transition-colors ${containerClasses}`}>
+        <div key={question.item.portugueseWord + index} className={`p-4 border rounded-xl transition-colors ${containerClasses}`}>
             <div className="flex items-start gap-3">
                 <div className="flex flex-col items-center pt-1 flex-shrink-0">
                     <span className="text-lg font-bold text-slate-400">{index + 1}.</span>
@@ -270,53 +365,52 @@ export const VocabularyQuizModal: React.FC<VocabularyQuizModalProps> = ({ isOpen
                     </button>
                 </div>
                 <div className="flex-grow min-w-0">
-                    {quizMode === 'en-to-pt' ? (
-                        <p className="text-md text-slate-600 mb-3">
-                            <span className="font-semibold">English:</span> "{item.englishTranslation}" <span className="italic">({item.wordType})</span>
-                        </p>
+                    {renderPrompt(question, index)}
+
+                    {question.options ? (
+                        <div className="flex flex-wrap gap-2" role="radiogroup" aria-label={`Answer for item ${index + 1}`}>
+                            {question.options.map(option => {
+                                const isSelected = userAnswers[index] === option;
+                                return (
+                                    <button
+                                        key={option}
+                                        type="button"
+                                        role="radio"
+                                        aria-checked={isSelected}
+                                        onClick={() => handleInputChange(index, option)}
+                                        disabled={isSubmitted || isRevealed}
+                                        className={`px-4 py-2 border-2 rounded-md text-lg font-bold transition-colors disabled:cursor-not-allowed ${
+                                            isSelected ? `bg-indigo-50 text-indigo-700 ${inputBorderClasses}` : 'bg-white text-slate-700 border-slate-200 hover:border-indigo-300'
+                                        }`}
+                                    >
+                                        {option}
+                                    </button>
+                                );
+                            })}
+                        </div>
                     ) : (
-                        <p className="text-md text-slate-600 mb-3">
-                            <span className="font-semibold">Portuguese:</span> "{item.portugueseWord}" <span className="italic">({item.wordType})</span>
-                        </p>
+                        <div className="flex items-center flex-wrap gap-2 text-xl text-slate-800 font-medium">
+                            <input
+                                type="text"
+                                value={userAnswers[index]}
+                                onChange={(e) => handleInputChange(index, e.target.value)}
+                                disabled={isSubmitted || isRevealed}
+                                className={`inline-block w-full sm:w-64 px-2 py-1 bg-white border-2 rounded-md text-xl shadow-sm font-bold text-indigo-700
+                                            ${inputBorderClasses}
+                                            focus:outline-none focus:ring-1 
+                                            disabled:bg-slate-100 disabled:text-slate-500 disabled:border-slate-200`}
+                                aria-label={`Answer for item ${index + 1}`}
+                                placeholder={INPUT_PLACEHOLDERS[question.mode]}
+                                autoComplete="off"
+                            />
+                        </div>
                     )}
-                    
-                    <div className="flex items-center flex-wrap gap-2 text-xl text-slate-800 font-medium">
-                        <input
-                            type="text"
-                            value={userAnswers[index]}
-                            onChange={(e) => handleInputChange(index, e.target.value)}
-                            disabled={isSubmitted || isRevealed}
-                            className={`inline-block w-full sm:w-64 px-2 py-1 bg-white border-2 rounded-md text-xl shadow-sm font-bold text-indigo-700
-                                        ${inputBorderClasses}
-                                        focus:outline-none focus:ring-1 
-                                        disabled:bg-slate-100 disabled:text-slate-500 disabled:border-slate-200`}
-                            aria-label={`Answer for item ${index + 1}`}
-                            placeholder={quizMode === 'en-to-pt' ? "Portuguese word..." : "English translation..."}
-                            autoComplete="off"
-                        />
-                    </div>
 
-                    {isSubmitted && (
+                    {grade && (
                         <div className="mt-4 p-3 rounded-lg bg-white border border-slate-200">
-                            {isCorrect ? (
-                                <div>
-                                    <div className="flex items-center gap-2 font-semibold text-green-600">
-                                        <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
-                                            <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" />
-                                        </svg>
-                                        <span>Correct!</span>
-                                    </div>
-                                    {quizMode === 'en-to-pt' && !isExactMatch && (
-                                        <p className="mt-2 text-sm text-slate-700">
-                                            The correct spelling is: <strong className="font-bold text-green-700">{correctAnswer}</strong>
-                                        </p>
-                                    )}
-                                </div>
-                            ) : (
-                                <div>
-                                    <p className="text-sm font-semibold text-slate-700">Correct answer:</p>
-                                    <p className="font-bold text-green-600">"{correctAnswer}"</p>
-                                </div>
+                            <AnswerFeedback grade={grade} answer={question.mode === 'pt-to-en' ? question.answer : undefined} />
+                            {question.mode !== 'en-to-pt' && question.mode !== 'multiple-choice' && (
+                                <p className="mt-2 text-sm text-slate-500">{question.item.portugueseWord} — {question.item.englishTranslation}</p>
                             )}
                         </div>
                     )}
@@ -333,28 +427,29 @@ export const VocabularyQuizModal: React.FC<VocabularyQuizModalProps> = ({ isOpen
     
     return (
         <form onSubmit={handleSubmit} className="flex flex-col flex-grow min-h-0">
-            <div className="p-6 border-b border-slate-200 flex-shrink-0 flex justify-between items-start">
-                <div>
-                    <h2 className="text-2xl font-bold text-slate-800">Vocabulary Quiz</h2>
+            <div className="p-6 border-b border-slate-200 flex-shrink-0">
+                <div className="pr-8">
+                    <h2 className="text-2xl font-bold text-slate-800">{isReview ? 'Review Due Words' : 'Vocabulary Quiz'}</h2>
                     <p className="text-slate-500 mt-1">
-                        {quizMode === 'en-to-pt'
-                            ? 'Type the Portuguese word for each English prompt.'
-                            : 'Type the English translation for each Portuguese word.'
-                        }
+                        {quizModes.length === 1 ? MODE_INSTRUCTIONS[quizModes[0]] : 'The questions mix the modes you chose; each one says what to do.'}
                     </p>
                 </div>
-                <button
-                    type="button"
-                    onClick={handleModeSwap}
-                    disabled={status === 'submitted'}
-                    className="flex-shrink-0 mr-8 flex items-center gap-2 px-3 py-2 bg-slate-100 text-slate-700 font-semibold text-sm rounded-md hover:bg-slate-200 disabled:opacity-50 transition-colors"
-                    title="Reverse quiz direction"
-                >
-                    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
-                      <path strokeLinecap="round" strokeLinejoin="round" d="M7 16V4m0 12l-4-4m4 4l4-4m6-4v12m0 0l-4-4m4 4l4-4" />
-                    </svg>
-                    <span>Swap</span>
-                </button>
+                <div className="flex flex-wrap gap-2 mt-3" role="group" aria-label="Quiz modes">
+                    {QUIZ_MODES.map(({ mode, label }) => (
+                        <button
+                            key={mode}
+                            type="button"
+                            onClick={() => handleToggleMode(mode)}
+                            disabled={status === 'submitted'}
+                            aria-pressed={quizModes.includes(mode)}
+                            className={`px-3 py-1.5 text-sm font-semibold rounded-full transition-colors disabled:opacity-50 ${
+                                quizModes.includes(mode) ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-700 hover:bg-slate-200'
+                            }`}
+                        >
+                            {label}
+                        </button>
+                    ))}
+                </div>
             </div>
             
             <div ref={listRef} className="flex-grow p-6 space-y-4 overflow-y-auto bg-slate-50">
@@ -362,12 +457,12 @@ export const VocabularyQuizModal: React.FC<VocabularyQuizModalProps> = ({ isOpen
                     <div className="p-4 mb-6 text-center bg-indigo-50 rounded-xl border border-indigo-200">
                         <h3 className="text-xl font-bold text-indigo-800">Quiz Complete!</h3>
                         <p className="mt-2 text-2xl font-bold text-slate-700">
-                            You scored <span className="text-indigo-600">{score}</span> / <span className="text-slate-500">{quizItems.length}</span>
+                            You scored <span className="text-indigo-600">{score}</span> / <span className="text-slate-500">{questions.length}</span>
                         </p>
                         <p className="mt-1 text-sm text-slate-500">Review your answers below.</p>
                     </div>
                 )}
-                {quizItems.map(renderQuizItem)}
+                {questions.map(renderQuizItem)}
             </div>
             
             <div className="p-6 border-t border-slate-200 bg-white flex-shrink-0">
@@ -382,24 +477,26 @@ export const VocabularyQuizModal: React.FC<VocabularyQuizModalProps> = ({ isOpen
                             <button type="button" onClick={onClose} className="w-full sm:w-auto px-6 py-3 bg-white border border-slate-300 text-slate-700 text-sm font-semibold rounded-md shadow-sm hover:bg-slate-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 transition-colors">
                                 Close
                             </button>
-                            <button 
-                                type="button" 
-                                onClick={handleGenerateNewSet} 
-                                className="w-full sm:flex-1 bg-indigo-600 text-white font-bold py-3 px-6 rounded-lg hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-white focus:ring-indigo-500 transition-colors flex items-center justify-center disabled:opacity-50 disabled:cursor-not-allowed"
-                                disabled={isLoadingNextSet || regenerationCount >= MAX_REGENERATIONS}
-                            >
-                                {isLoadingNextSet ? (
-                                    <>
-                                        <Loader size="sm" />
-                                        <span className="ml-2">Generating...</span>
-                                    </>
-                                ) : (
-                                    `Try a New Set (${MAX_REGENERATIONS - regenerationCount} left)`
-                                )}
-                            </button>
+                            {!isReview && (
+                                <button 
+                                    type="button" 
+                                    onClick={handleGenerateNewSet} 
+                                    className="w-full sm:flex-1 bg-indigo-600 text-white font-bold py-3 px-6 rounded-lg hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-white focus:ring-indigo-500 transition-colors flex items-center justify-center disabled:opacity-50 disabled:cursor-not-allowed"
+                                    disabled={isLoadingNextSet || regenerationCount >= MAX_REGENERATIONS}
+                                >
+                                    {isLoadingNextSet ? (
+                                        <>
+                                            <Loader size="sm" />
+                                            <span className="ml-2">Generating...</span>
+                                        </>
+                                    ) : (
+                                        `Try a New Set (${MAX_REGENERATIONS - regenerationCount} left)`
+                                    )}
+                                </button>
+                            )}
                         </div>
                         {fetchError && <p className="text-sm text-center text-red-600">{fetchError}</p>}
-                        {regenerationCount >= MAX_REGENERATIONS && !fetchError && (
+                        {!isReview && regenerationCount >= MAX_REGENERATIONS && !fetchError && (
                             <p className="text-sm text-center text-slate-500">
                                 Generation limit reached. Please close the quiz to start over.
                             </p>
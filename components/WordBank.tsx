@@ -1,14 +1,26 @@
 import React, { useState } from 'react';
 import type { VocabularyItem } from '../types';
+import { describeNextReview, getReviewKey } from '../utils/wordReview';
+import type { WordReviewSchedule } from '../utils/wordReview';
+import { ALL_WORDS_FILTER, describeWordType, isFilterActive, matchesVocabularyFilter } from '../utils/vocabularyItem';
+import { VocabularyFilterBar } from './VocabularyFilterBar';
 
 interface WordBankProps {
     wordBank: Record<string, VocabularyItem[]>;
     onRemoveWord: (item: VocabularyItem, category: string) => void;
+    reviewSchedule: WordReviewSchedule;
+    dueCount: number;
+    onStartReview: () => void;
+    onOpenTransfer: () => void;
 }
 
-export const WordBank: React.FC<WordBankProps> = ({ wordBank, onRemoveWord }) => {
-    const categories = Object.keys(wordBank).sort();
+export const WordBank: React.FC<WordBankProps> = ({ wordBank, onRemoveWord, reviewSchedule, dueCount, onStartReview, onOpenTransfer }) => {
     const [expandedCategories, setExpandedCategories] = useState<Set<string>>(new Set());
+    const [filter, setFilter] = useState(ALL_WORDS_FILTER);
+    const filteredBank: Record<string, VocabularyItem[]> = Object.fromEntries(
+        (Object.entries(wordBank) as [string, VocabularyItem[]][]).map(([category, items]) => [category, items.filter(item => matchesVocabularyFilter(item, filter))])
+    );
+    const categories = Object.keys(wordBank).filter(category => filteredBank[category].length > 0).sort();
 
     const handleToggleCategory = (category: string) => {
         setExpandedCategories(prev => {
@@ -22,12 +34,40 @@ export const WordBank: React.FC<WordBankProps> = ({ wordBank, onRemoveWord }) =>
         });
     };
 
-    if (categories.length === 0) {
-        return <div className="text-center p-8 text-slate-500 text-sm">Your word bank is empty. Add words from vocabulary lists using the '+' icon.</div>;
+    const transferButton = (
+        <button
+            onClick={onOpenTransfer}
+            className="w-full mb-3 px-3 py-2 bg-white border border-slate-300 text-slate-700 text-sm font-semibold rounded-md shadow-sm hover:bg-slate-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 transition-colors"
+        >
+            Import / export
+        </button>
+    );
+
+    if (Object.keys(wordBank).length === 0) {
+        return (
+            <div className="flex-grow">
+                <div className="text-center p-8 text-slate-500 text-sm">Your word bank is empty. Add words from vocabulary lists using the '+' icon, or import a word list.</div>
+                {transferButton}
+            </div>
+        );
     }
 
     return (
         <div className="flex-grow max-h-[65vh] overflow-y-auto pr-1">
+            <button
+                onClick={onStartReview}
+                disabled={dueCount === 0}
+                className="w-full mb-3 px-3 py-2 bg-indigo-600 text-white text-sm font-semibold rounded-md shadow-sm hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:bg-slate-200 disabled:text-slate-500 disabled:cursor-not-allowed transition-colors"
+            >
+                {dueCount > 0 ? `Review due (${dueCount})` : 'Nothing due for review'}
+            </button>
+            {transferButton}
+            <div className="mb-3">
+                <VocabularyFilterBar filter={filter} onChange={setFilter} />
+            </div>
+            {categories.length === 0 && isFilterActive(filter) && (
+                <p className="text-center p-4 text-slate-500 text-sm">No saved words match the filters.</p>
+            )}
             <ul className="space-y-2">
                 {categories.map(category => {
                     const isExpanded = expandedCategories.has(category);
@@ -50,11 +90,12 @@ export const WordBank: React.FC<WordBankProps> = ({ wordBank, onRemoveWord }) =>
                             </button>
                             {isExpanded && (
                                 <ul className="mt-1 space-y-1 pl-2 pr-1 pt-1">
-                                    {wordBank[category].map(item => (
+                                    {filteredBank[category].map(item => (
                                         <li key={item.portugueseWord} className="flex items-center justify-between p-2 rounded-md hover:bg-slate-100 group">
                                             <div className="flex-grow overflow-hidden">
                                                 <p className="font-semibold text-slate-800 truncate">{item.portugueseWord}</p>
-                                                <p className="text-sm text-slate-500 truncate">{item.englishTranslation}</p>
+                                                <p className="text-sm text-slate-500 truncate">{item.englishTranslation} <span className="italic">({describeWordType(item)})</span></p>
+                                                <p className="text-xs text-slate-400">{describeNextReview(reviewSchedule[getReviewKey(item.portugueseWord)])}</p>
                                             </div>
                                             <div className="flex items-center flex-shrink-0 ml-2">
                                                 <button
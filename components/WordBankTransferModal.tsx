@@ -0,0 +1,299 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import type { VocabularyItem } from '../types';
+import { createAnkiPackage, createAnkiText, getAnkiFileName, getWordsToExport } from '../services/ankiExport';
+import { completeVocabularyItems } from '../services/geminiService';
+import { getErrorMessage } from '../services/aiErrors';
+import { IMPORT_FIELDS, buildWordListImport, guessColumnMapping, isMissingExample, mergeCompletedWords, parseWordList } from '../utils/wordListImport';
+import type { ColumnMapping, ImportField, WordList } from '../utils/wordListImport';
+
+interface WordBankTransferModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  wordBank: Record<string, VocabularyItem[]>;
+  bankedWords: string[];
+  onImportWords: (category: string, items: VocabularyItem[]) => void;
+}
+
+const PREVIEW_ROWS = 5;
+const NEW_CATEGORY = '';
+
+const downloadFile = (data: BlobPart, type: string, fileName: string) => {
+  const url = URL.createObjectURL(new Blob([data], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export const WordBankTransferModal: React.FC<WordBankTransferModalProps> = ({ isOpen, onClose, wordBank, bankedWords, onImportWords }) => {
+  const categories = Object.keys(wordBank).sort();
+  // Null exports every category.
+  const [exportCategory, setExportCategory] = useState<string | null>(null);
+  const [packageProgress, setPackageProgress] = useState<{ done: number; total: number } | null>(null);
+  const [importFileName, setImportFileName] = useState('');
+  const [wordList, setWordList] = useState<WordList | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [importCategory, setImportCategory] = useState(NEW_CATEGORY);
+  const [newCategoryName, setNewCategoryName] = useState('');
+  const [completeExamples, setCompleteExamples] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setExportCategory(null);
+      setImportFileName('');
+      setWordList(null);
+      setMapping(null);
+      setImportCategory(NEW_CATEGORY);
+      setNewCategoryName('');
+      setCompleteExamples(false);
+      setExportError(null);
+      setError(null);
+    }
+  }, [isOpen]);
+
+  const wordListImport = useMemo(
+    () => (wordList && mapping ? buildWordListImport(wordList, mapping, bankedWords) : null),
+    [wordList, mapping, bankedWords]
+  );
+  const missingExampleCount = wordListImport?.words.filter(isMissingExample).length ?? 0;
+  const targetCategory = importCategory === NEW_CATEGORY ? newCategoryName.trim() : importCategory;
+  const exportWordCount = getWordsToExport(wordBank, exportCategory).length;
+
+  const handleExportText = () => {
+    downloadFile(createAnkiText(getWordsToExport(wordBank, exportCategory)), 'text/tab-separated-values', getAnkiFileName(exportCategory, 'txt'));
+  };
+
+  const handleExportPackage = async () => {
+    const words = getWordsToExport(wordBank, exportCategory);
+    setPackageProgress({ done: 0, total: words.length });
+    setExportError(null);
+    try {
+      const ankiPackage = await createAnkiPackage(words, (done, total) => setPackageProgress({ done, total }));
+      downloadFile(ankiPackage, 'application/octet-stream', getAnkiFileName(exportCategory, 'apkg'));
+    } catch (err) {
+      console.error("Error exporting the word bank:", err);
+      setExportError("The Anki deck couldn't be created. Please try again.");
+    } finally {
+      setPackageProgress(null);
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setImportFileName(file.name);
+    setError(null);
+    try {
+      const parsed = parseWordList(await file.text());
+      if (parsed.rows.length === 0) {
+        setWordList(null);
+        setError("No words were found in this file.");
+        return;
+      }
+      setWordList(parsed);
+      setMapping(guessColumnMapping(parsed));
+    } catch (err) {
+      console.error("Error reading word list:", err);
+      setWordList(null);
+      setError("The file couldn't be read.");
+    }
+  };
+
+  const handleMappingChange = (field: ImportField, column: number) => {
+    setMapping(prev => prev && { ...prev, [field]: column });
+  };
+
+  const handleImport = async () => {
+    if (!wordListImport || !targetCategory) return;
+    setIsImporting(true);
+    setError(null);
+    try {
+      let words = wordListImport.words;
+      if (completeExamples && missingExampleCount > 0) {
+        const completed = await completeVocabularyItems(words.filter(isMissingExample));
+        words = mergeCompletedWords(words, completed);
+      }
+      onImportWords(targetCategory, words);
+      onClose();
+    } catch (err) {
+      console.error("Error completing imported words:", err);
+      setError(getErrorMessage(err, "The example sentences couldn't be generated. Try again, or import without them."));
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const getColumnLabel = (index: number) => wordList?.headers?.[index] || `Column ${index + 1}`;
+
+  const renderImportPreview = () => {
+    if (!wordList || !mapping || !wordListImport) return null;
+    const mappedFields = IMPORT_FIELDS.filter(({ field }) => mapping[field] >= 0);
+    return (
+      <div className="space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          {IMPORT_FIELDS.map(({ field, label, required }) => (
+            <label key={field} className="flex items-center justify-between gap-2 text-sm text-slate-700">
+              <span>{label}{required && <span className="text-red-600">*</span>}</span>
+              <select
+                value={mapping[field]}
+                onChange={e => handleMappingChange(field, Number(e.target.value))}
+                className="w-40 px-2 py-1 bg-white border border-slate-300 rounded-md text-sm focus:outline-none focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500"
+              >
+                <option value={-1}>{required ? 'Choose a column' : 'None'}</option>
+                {Array.from({ length: wordList.columnCount }, (_, index) => (
+                  <option key={index} value={index}>{getColumnLabel(index)}</option>
+                ))}
+              </select>
+            </label>
+          ))}
+        </div>
+        {mappedFields.length > 0 && (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm text-left">
+              <thead>
+                <tr className="text-slate-500 border-b border-slate-200">
+                  {mappedFields.map(({ field, label }) => (
+                    <th key={field} className="py-2 pr-3 font-semibold">{label}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {wordList.rows.slice(0, PREVIEW_ROWS).map((row, rowIndex) => (
+                  <tr key={rowIndex} className="border-b border-slate-100">
+                    {mappedFields.map(({ field }) => (
+                      <td key={field} className="py-2 pr-3 text-slate-600 max-w-[12rem] truncate">{row[mapping[field]] ?? ''}</td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+        <p className="text-sm text-slate-600">
+          {wordListImport.words.length} new word{wordListImport.words.length === 1 ? '' : 's'} to import.
+          {wordListImport.duplicates.length > 0 && ` ${wordListImport.duplicates.length} already in your word bank or repeated in the file will be skipped.`}
+          {wordListImport.incompleteRows > 0 && ` ${wordListImport.incompleteRows} row${wordListImport.incompleteRows === 1 ? ' has' : 's have'} no Portuguese word or translation.`}
+        </p>
+        <div className="flex flex-col sm:flex-row gap-2">
+          <select
+            value={importCategory}
+            onChange={e => setImportCategory(e.target.value)}
+            className="px-2 py-2 bg-white border border-slate-300 rounded-md text-sm focus:outline-none focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500"
+            aria-label="Category to import into"
+          >
+            <option value={NEW_CATEGORY}>New category...</option>
+            {categories.map(category => (
+              <option key={category} value={category}>{category}</option>
+            ))}
+          </select>
+          {importCategory === NEW_CATEGORY && (
+            <input
+              type="text"
+              value={newCategoryName}
+              onChange={e => setNewCategoryName(e.target.value)}
+              placeholder="Name of the new category"
+              className="flex-grow px-3 py-2 bg-white border border-slate-300 rounded-md text-sm placeholder-slate-400 focus:outline-none focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500"
+              aria-label="New category name"
+            />
+          )}
+        </div>
+        {missingExampleCount > 0 && (
+          <label className="flex items-center gap-2 text-sm text-slate-700">
+            <input type="checkbox" checked={completeExamples} onChange={e => setCompleteExamples(e.target.checked)} className="rounded text-indigo-600 focus:ring-indigo-500" />
+            <span>Complete the {missingExampleCount} word{missingExampleCount === 1 ? '' : 's'} without an example sentence with AI (example, pronunciation, gender and plural, synonyms)</span>
+          </label>
+        )}
+        <button
+          type="button"
+          onClick={handleImport}
+          disabled={isImporting || !targetCategory || wordListImport.words.length === 0}
+          className="w-full bg-indigo-600 text-white font-bold py-3 px-6 rounded-lg hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {isImporting ? 'Importing...' : `Import ${wordListImport.words.length} word${wordListImport.words.length === 1 ? '' : 's'}`}
+        </button>
+      </div>
+    );
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4 animate-fade-in">
+        <style>{`
+            @keyframes fade-in { from { opacity: 0; } to { opacity: 1; } }
+            .animate-fade-in { animation: fade-in 0.2s ease-out forwards; }
+            @keyframes slide-up { from { opacity: 0; transform: translateY(20px); } to { opacity: 1; transform: translateY(0); } }
+            .animate-slide-up { animation: slide-up 0.3s ease-out forwards; }
+        `}</style>
+        <div className="bg-white rounded-xl shadow-2xl w-full max-w-2xl max-h-[90vh] flex flex-col overflow-hidden animate-slide-up relative">
+             <button onClick={onClose} className="absolute top-4 right-4 text-slate-400 hover:text-slate-600 transition-colors z-10" aria-label="Close import and export">
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-7 w-7" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+            </button>
+            <div className="p-6 border-b border-slate-200 flex-shrink-0">
+              <h2 className="text-2xl font-bold text-slate-800">Import and Export Words</h2>
+              <p className="text-slate-500 mt-1">Take your word bank to Anki, or bring in a word list from a spreadsheet.</p>
+            </div>
+            <div className="flex-grow p-6 space-y-6 overflow-y-auto bg-slate-50">
+              <section className="space-y-3">
+                <h3 className="font-semibold text-slate-700">Export for Anki</h3>
+                <select
+                  value={exportCategory ?? ''}
+                  onChange={e => setExportCategory(e.target.value || null)}
+                  className="px-2 py-2 bg-white border border-slate-300 rounded-md text-sm focus:outline-none focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500"
+                  aria-label="Category to export"
+                >
+                  <option value="">All categories</option>
+                  {categories.map(category => (
+                    <option key={category} value={category}>{category}</option>
+                  ))}
+                </select>
+                <div className="flex flex-wrap gap-2">
+                  <button
+                    type="button"
+                    onClick={handleExportText}
+                    disabled={exportWordCount === 0 || packageProgress !== null}
+                    className="px-4 py-2 bg-white border border-slate-300 text-slate-700 text-sm font-semibold rounded-md shadow-sm hover:bg-slate-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50 transition-colors"
+                  >
+                    Text file (.txt)
+                  </button>
+                  <button
+                    type="button"
+                    onClick={handleExportPackage}
+                    disabled={exportWordCount === 0 || packageProgress !== null}
+                    className="px-4 py-2 bg-white border border-slate-300 text-slate-700 text-sm font-semibold rounded-md shadow-sm hover:bg-slate-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50 transition-colors"
+                  >
+                    {packageProgress ? `Preparing audio ${packageProgress.done}/${packageProgress.total}...` : 'Anki deck with audio (.apkg)'}
+                  </button>
+                </div>
+                <p className="text-sm text-slate-500">
+                  Open the deck with Anki, or import it with File → Import, to add the words with their pronunciation. Importing a newer export updates the words already there. The text file has the same words without audio. Audio that hasn't been played before is generated, which can take a while.
+                </p>
+                {exportError && (
+                  <p className="text-sm text-red-700 bg-red-50 border border-red-200 rounded-md px-3 py-2" role="alert">{exportError}</p>
+                )}
+              </section>
+              <section className="space-y-3">
+                <h3 className="font-semibold text-slate-700">Import a word list</h3>
+                <p className="text-sm text-slate-500">A CSV or tab-separated file with a Portuguese word and its English translation on each line, and optionally the word type and an example.</p>
+                <label className="inline-flex items-center gap-3 text-sm text-slate-700">
+                  <span className="px-4 py-2 bg-white border border-slate-300 font-semibold rounded-md shadow-sm hover:bg-slate-50 cursor-pointer">Choose a file</span>
+                  <span className="text-slate-500">{importFileName}</span>
+                  <input type="file" accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values,text/plain" onChange={handleFileChange} className="sr-only" />
+                </label>
+                {error && (
+                  <p className="text-sm text-red-700 bg-red-50 border border-red-200 rounded-md px-3 py-2" role="alert">{error}</p>
+                )}
+                {renderImportPreview()}
+              </section>
+            </div>
+        </div>
+    </div>
+  );
+};
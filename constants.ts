@@ -1,4 +1,4 @@
-import type { FunctionalDomain } from './types';
+import type { ConjugationForms, FunctionalDomain, LanguageSettings } from './types';
 
 export const INITIAL_VERBS: string[] = [
   "Ser",       // To be (permanent)
@@ -305,9 +305,58 @@ export const FUNCTIONAL_DOMAINS: FunctionalDomain[] = [
 ];
 
 
+export const TENSE_LABELS: { [key: string]: string } = {
+  presente: 'Present',
+  preterito_perfeito: 'Simple Past (Preterite)',
+  preterito_imperfeito: 'Imperfect Past',
+  preterito_mais_que_perfeito: 'Pluperfect (Simple)',
+  preterito_perfeito_composto: 'Present Perfect',
+  preterito_mais_que_perfeito_composto: 'Pluperfect (Compound)',
+  futuro_do_presente: 'Simple Future',
+  futuro_do_preterito: 'Conditional',
+  presente_do_subjuntivo: 'Present Subjunctive',
+  imperfeito_do_subjuntivo: 'Imperfect Subjunctive',
+  futuro_do_subjuntivo: 'Future Subjunctive',
+  imperativo_afirmativo: 'Affirmative Imperative',
+  imperativo_negativo: 'Negative Imperative',
+  infinitivo_pessoal: 'Personal Infinitive',
+  gerundio: 'Gerund',
+  participio: 'Past Participle',
+};
+
+// In table order.
+export const PRONOUN_LABELS: Record<keyof ConjugationForms, string> = {
+  eu: 'Eu',
+  tu: 'Tu',
+  voce: 'Você/Ele/Ela',
+  nos: 'Nós',
+  vos: 'Vós',
+  voces: 'Vocês/Eles/Elas',
+};
+
 export const VOCABULARY_CUSTOM_CATEGORIES_STORAGE_KEY = 'portugueseVocabularyCustomCategories';
 export const WORD_BANK_STORAGE_KEY = 'portugueseWordBank';
+export const WORD_REVIEW_STORAGE_KEY = 'portugueseWordReviewSchedule';
 export const FUNCTIONAL_CUSTOM_DOMAINS_STORAGE_KEY = 'portugueseFunctionalCustomDomains';
+export const LANGUAGE_SETTINGS_STORAGE_KEY = 'portugueseLanguageSettings';
+export const CONJUGATION_MASTERY_STORAGE_KEY = 'portugueseConjugationMastery';
+// Replaces the flat list once saved under 'portugueseVerbs', which is migrated into a "Default" list.
+export const VERB_LISTS_STORAGE_KEY = 'portugueseVerbLists';
+export const LEGACY_VERBS_STORAGE_KEY = 'portugueseVerbs';
+export const CHAT_HISTORY_STORAGE_KEY = 'portugueseChatHistory';
+// Shared by all learner profiles on the device; every other key is kept per profile.
+export const PROFILES_STORAGE_KEY = 'portugueseProfiles';
+// Stored records that couldn't be read, kept so they can be recovered.
+export const QUARANTINE_STORAGE_KEY = 'portugueseQuarantinedData';
+
+// Offered when tagging a verb; any other tag can be typed in.
+export const SUGGESTED_VERB_TAGS = ['irregular', 'reflexive', 'phrasal', 'week 1', 'week 2', 'week 3', 'week 4'];
+
+export const DEFAULT_LANGUAGE_SETTINGS: LanguageSettings = {
+    variant: 'pt-BR',
+    showTu: false,
+    showVos: false,
+};
 
 export const CHAT_TOPICS = [
     { id: 'general_conversation', name: 'General Conversation', emoji: '💬', description: 'Start an open-ended chat about anything.' },
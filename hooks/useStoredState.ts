@@ -0,0 +1,25 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { readStoredValue, subscribeToStoredValue, writeStoredValue } from '../services/userStorage';
+import type { StoredValueDefinition } from '../services/userStorage';
+
+// useState for a stored record: it starts from the saved value (upgraded to the current
+// schema) and saves every change. Components using the same record stay in sync.
+export const useStoredState = <T,>(definition: StoredValueDefinition<T>): [T, React.Dispatch<React.SetStateAction<T>>] => {
+    const [value, setValue] = useState<T>(() => readStoredValue(definition));
+    // The value as it is in storage, which needn't be written again: the one read on mount,
+    // or one another component has just saved.
+    const storedRef = useRef(value);
+
+    useEffect(() => subscribeToStoredValue(definition, (stored: T) => {
+        storedRef.current = stored;
+        setValue(stored);
+    }), [definition]);
+
+    useEffect(() => {
+        if (value === storedRef.current) return;
+        storedRef.current = value;
+        writeStoredValue(definition, value);
+    }, [definition, value]);
+
+    return [value, setValue];
+};
@@ -2,6 +2,15 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { setLanguageVariant } from './services/languageVariant';
+import { setActiveProfileId } from './services/profiles';
+import { LANGUAGE_SETTINGS_RECORD, PROFILES_RECORD } from './services/storedRecords';
+import { readStoredValue } from './services/userStorage';
+
+// Everything else is read for the active learner profile, so it's chosen before rendering.
+setActiveProfileId(readStoredValue(PROFILES_RECORD).activeProfileId);
+// Components fetch on mount, before App's effects run, so the variant is set here too.
+setLanguageVariant(readStoredValue(LANGUAGE_SETTINGS_RECORD).variant);
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
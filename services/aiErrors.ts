@@ -0,0 +1,135 @@
+import type { AiTask } from './aiProvider';
+
+// Every failure coming out of geminiService is one of these, so components can show an
+// accurate message and decide whether offering a retry makes sense.
+
+export type AiErrorKind =
+    | 'quota_exceeded'
+    | 'invalid_key'
+    | 'timeout'
+    | 'safety_blocked'
+    | 'malformed'
+    | 'network'
+    | 'unavailable'
+    | 'cancelled'
+    | 'unknown';
+
+export class AiServiceError extends Error {
+    readonly kind: AiErrorKind;
+    // Whether the same request might succeed if sent again.
+    readonly retryable: boolean;
+
+    constructor(kind: AiErrorKind, message: string, retryable: boolean, cause?: unknown) {
+        super(message, { cause });
+        this.name = 'AiServiceError';
+        this.kind = kind;
+        this.retryable = retryable;
+    }
+}
+
+export class QuotaExceededError extends AiServiceError {
+    constructor(cause?: unknown) {
+        super('quota_exceeded', "API Quota Exceeded: You have run out of free daily requests. Please check your billing configuration in your Google AI project to continue using the service.", false, cause);
+        this.name = 'QuotaExceededError';
+    }
+}
+
+export class InvalidKeyError extends AiServiceError {
+    constructor(cause?: unknown) {
+        super('invalid_key', "Invalid API Key: The provided API key is missing or not valid. Please ensure it is configured correctly.", false, cause);
+        this.name = 'InvalidKeyError';
+    }
+}
+
+export class TimeoutError extends AiServiceError {
+    constructor(cause?: unknown) {
+        super('timeout', "Request Timed Out: The request to the AI model took too long to respond. Please check your internet connection and try again.", true, cause);
+        this.name = 'TimeoutError';
+    }
+}
+
+export class SafetyBlockedError extends AiServiceError {
+    constructor(cause?: unknown) {
+        super('safety_blocked', "Response Blocked: The AI model declined to answer this request because of its safety filters. Try rephrasing it.", false, cause);
+        this.name = 'SafetyBlockedError';
+    }
+}
+
+// Thrown when the model's reply still doesn't match the response schema after a retry.
+export class MalformedResponseError extends AiServiceError {
+    readonly task: AiTask;
+    readonly issues: string[];
+
+    constructor(task: AiTask, issues: string[]) {
+        super('malformed', "Malformed Response: The AI model returned an incomplete or invalid answer. Please try again.", true);
+        this.name = 'MalformedResponseError';
+        this.task = task;
+        this.issues = issues;
+    }
+}
+
+export class NetworkError extends AiServiceError {
+    constructor(cause?: unknown) {
+        super('network', "Network Error: The AI service could not be reached. Please check your internet connection and try again.", true, cause);
+        this.name = 'NetworkError';
+    }
+}
+
+export class ServiceUnavailableError extends AiServiceError {
+    constructor(cause?: unknown) {
+        super('unavailable', "Service Unavailable: The AI model is temporarily overloaded or unavailable. Please try again in a moment.", true, cause);
+        this.name = 'ServiceUnavailableError';
+    }
+}
+
+export class RequestCancelledError extends AiServiceError {
+    constructor(cause?: unknown) {
+        super('cancelled', "The request was cancelled.", false, cause);
+        this.name = 'RequestCancelledError';
+    }
+}
+
+const getStatus = (error: Error): number | undefined => {
+    const status = (error as { status?: unknown }).status;
+    if (typeof status === 'number') return status;
+    // Providers without a typed error put the status code at the start of the message.
+    const match = error.message.match(/^(\d{3})\b/);
+    return match ? Number(match[1]) : undefined;
+};
+
+// Maps whatever a provider threw (SDK errors, fetch failures, aborts) onto the taxonomy above.
+export const toAiServiceError = (error: unknown): AiServiceError => {
+    if (error instanceof AiServiceError) return error;
+    if (!(error instanceof Error)) return new AiServiceError('unknown', "An unexpected error occurred with the AI model. The service may be temporarily unavailable. Please try again later.", false, error);
+
+    if (error.name === 'AbortError') return new RequestCancelledError(error);
+    if (error.name === 'TimeoutError') return new TimeoutError(error);
+
+    const status = getStatus(error);
+    const message = error.message.toLowerCase();
+    if (status === 429 || message.includes('quota') || message.includes('resource_exhausted')) {
+        return new QuotaExceededError(error);
+    }
+    if (status === 401 || status === 403 || message.includes('api key not valid') || message.includes('api_key')) {
+        return new InvalidKeyError(error);
+    }
+    if (status === 408 || status === 504 || message.includes('timed out') || message.includes('deadline')) {
+        return new TimeoutError(error);
+    }
+    if (status !== undefined && status >= 500) {
+        return new ServiceUnavailableError(error);
+    }
+    // fetch reports unreachable hosts, CORS failures and dropped connections as a bare TypeError.
+    if (error instanceof TypeError || message.includes('failed to fetch') || message.includes('network')) {
+        return new NetworkError(error);
+    }
+    return new AiServiceError('unknown', "An unexpected error occurred with the AI model. The service may be temporarily unavailable. Please try again later.", false, error);
+};
+
+// Message to show for a failed request: the typed message when there is one, otherwise the
+// component's own wording.
+export const getErrorMessage = (error: unknown, fallback: string): string =>
+    error instanceof AiServiceError && error.kind !== 'unknown' ? error.message : fallback;
+
+export const isCancellation = (error: unknown): boolean =>
+    error instanceof RequestCancelledError || (error instanceof Error && error.name === 'AbortError');
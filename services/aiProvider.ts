@@ -0,0 +1,110 @@
+import type { Schema } from "@google/genai";
+import { createGeminiProvider } from './providers/geminiProvider';
+import { createOpenAiCompatibleProvider } from './providers/openAiCompatibleProvider';
+import { createMockProvider } from './providers/mockProvider';
+
+// --- Provider Contract ---
+
+// Each feature asks for a class of model rather than a model name; providers map
+// these tiers onto whatever models they actually serve.
+export type ModelTier = 'fast' | 'reasoning';
+
+// Identifies what a request is for independently of its prompt wording, so that
+// providers (notably the offline mock) can tell requests apart without parsing prompts.
+export type AiTask =
+    | 'validate_verb'
+    | 'conjugation'
+    | 'verb_profile'
+    | 'examples'
+    | 'grammar_paragraph'
+    | 'grammar_theory'
+    | 'written_drills'
+    | 'writing_tasks'
+    | 'writing_assessment'
+    | 'grammar_examples'
+    | 'vocabulary'
+    | 'vocabulary_completion'
+    | 'functional_scene'
+    | 'functional_domain'
+    | 'chat_start'
+    | 'chat_reply'
+    | 'chat_suggestion';
+
+export type RequestParams = Record<string, string | number | string[]>;
+
+export interface ChatTurn {
+    role: 'user' | 'model';
+    text: string;
+}
+
+export interface StructuredRequest {
+    task: AiTask;
+    params?: RequestParams;
+    tier: ModelTier;
+    prompt: string;
+    schema: Schema;
+    systemInstruction?: string;
+    signal?: AbortSignal;
+}
+
+export interface ChatRequest {
+    task: AiTask;
+    params?: RequestParams;
+    tier: ModelTier;
+    history: ChatTurn[];
+    schema: Schema;
+    systemInstruction: string;
+    signal?: AbortSignal;
+}
+
+export interface SpeechRequest {
+    text: string;
+    voice?: string;
+    signal?: AbortSignal;
+}
+
+// Providers should honour `signal` and may throw raw SDK or fetch errors; geminiService
+// maps them onto the types in aiErrors.ts. A refusal on safety grounds should be thrown
+// as SafetyBlockedError, since it otherwise looks like an empty reply.
+export interface LanguageModelProvider {
+    readonly id: string;
+    // Returns the raw JSON text produced for `schema`; parsing is left to the caller.
+    generateStructured: (request: StructuredRequest) => Promise<string>;
+    // Returns base64-encoded 16-bit mono PCM at 24kHz, the format utils/audio expects.
+    generateSpeech: (request: SpeechRequest) => Promise<string>;
+    // Multi-turn variant of generateStructured; also returns raw JSON text.
+    chat: (request: ChatRequest) => Promise<string>;
+}
+
+// --- Provider Registry ---
+
+const providerFactories: Record<string, () => LanguageModelProvider> = {
+    'gemini': () => createGeminiProvider(),
+    'openai-compatible': () => createOpenAiCompatibleProvider(),
+    'mock': () => createMockProvider(),
+};
+
+let activeProvider: LanguageModelProvider | null = null;
+
+export const registerProvider = (id: string, factory: () => LanguageModelProvider) => {
+    providerFactories[id] = factory;
+};
+
+// Replaces the active provider, e.g. to point the whole app at a different backend at runtime.
+export const setProvider = (provider: LanguageModelProvider) => {
+    activeProvider = provider;
+};
+
+// The provider is created lazily so that a missing key surfaces on the first request
+// rather than when the module is imported.
+export const getProvider = (): LanguageModelProvider => {
+    if (!activeProvider) {
+        const id = process.env.AI_PROVIDER || 'gemini';
+        const factory = providerFactories[id];
+        if (!factory) {
+            throw new Error(`Unknown AI provider "${id}". Available providers: ${Object.keys(providerFactories).join(', ')}.`);
+        }
+        activeProvider = factory();
+    }
+    return activeProvider;
+};
@@ -0,0 +1,200 @@
+import type { VocabularyItem } from '../types';
+import { describeWordType } from '../utils/vocabularyItem';
+import { getSpeech } from './geminiService';
+import { decode, pcmToWav } from '../utils/audio';
+import { createSqliteDatabase } from '../utils/sqlite';
+import type { SqlValue } from '../utils/sqlite';
+import { createZip } from '../utils/zip';
+import type { ZipFile } from '../utils/zip';
+
+// Exports word bank words for Anki. The text file uses Anki's plain-text import format
+// (File → Import) with one note per word. The package is an Anki deck (.apkg) with the same
+// notes and the pronunciation of every word, and is imported by opening it in Anki.
+
+export interface ExportedWord {
+    item: VocabularyItem;
+    category: string;
+}
+
+// The fields of the package's note type; the text file has the same minus the audio, then the tags.
+const FIELD_NAMES = ['Portuguese', 'English', 'Word type', 'Plural', 'IPA', 'Example', 'Example translation', 'Audio'];
+const TEXT_COLUMNS = [...FIELD_NAMES.filter(name => name !== 'Audio'), 'Tags'];
+
+const toSlug = (text: string): string =>
+    text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+
+// Anki tags can't contain spaces; categories become e.g. "portuguese::food_dining".
+const toTag = (category: string): string => `portuguese::${toSlug(category) || 'words'}`;
+
+export const getAudioFileName = (portugueseWord: string): string => `portuguese_${toSlug(portugueseWord) || 'word'}.wav`;
+
+// Tabs and line breaks would start a new field or note.
+const toField = (value: string | null | undefined): string => (value ?? '').replace(/[\t\r\n]+/g, ' ').trim();
+
+export const getWordsToExport = (wordBank: Record<string, VocabularyItem[]>, category: string | null): ExportedWord[] =>
+    Object.entries(wordBank)
+        .filter(([name]) => category === null || name === category)
+        .flatMap(([name, items]) => items.map(item => ({ item, category: name })));
+
+// Every field but the audio, as plain text.
+const getTextFields = (item: VocabularyItem): string[] => [
+    item.portugueseWord,
+    item.englishTranslation,
+    describeWordType(item),
+    item.plural,
+    item.ipa,
+    item.exampleSentence,
+    item.exampleTranslation,
+].map(toField);
+
+export const createAnkiText = (words: ExportedWord[]): string => {
+    const header = [
+        '#separator:tab',
+        '#html:false',
+        `#columns:${TEXT_COLUMNS.join('\t')}`,
+        `#tags column:${TEXT_COLUMNS.length}`,
+    ];
+    const notes = words.map(({ item, category }) => [...getTextFields(item), toTag(category)].join('\t'));
+    return [...header, ...notes].join('\n') + '\n';
+};
+
+// --- Anki package ---
+
+// An .apkg file is a zip holding the collection (an SQLite database in Anki's schema 11, which
+// every version of Anki imports), a "media" file mapping numbered entries to file names, and
+// the numbered media files themselves.
+
+// Fixed, so that importing a newer export updates the same note type, deck and notes.
+const NOTE_TYPE_ID = 1716800000000;
+const DECK_ID = 1716800000001;
+const DECK_NAME = 'Portuguese word bank';
+
+const CARD_FRONT = '<div class="word">{{Portuguese}}</div>{{Audio}}';
+const CARD_BACK = `{{FrontSide}}
+<hr id="answer">
+<div class="translation">{{English}}</div>
+<div class="details">{{Word type}}{{#Plural}} · plural: {{Plural}}{{/Plural}}{{#IPA}} · /{{IPA}}/{{/IPA}}</div>
+{{#Example}}<div class="example">{{Example}}<br><i>{{Example translation}}</i></div>{{/Example}}`;
+const CARD_CSS = `.card { font-family: Arial, sans-serif; font-size: 22px; text-align: center; color: #1e293b; background: #fff; }
+.word { font-size: 32px; font-weight: bold; }
+.details, .example { font-size: 16px; color: #475569; margin-top: 12px; }`;
+
+const COLLECTION_SCHEMA = [
+    { name: 'col', rowidColumn: 0, sql: 'CREATE TABLE col (id integer primary key, crt integer not null, mod integer not null, scm integer not null, ver integer not null, dty integer not null, usn integer not null, ls integer not null, conf text not null, models text not null, decks text not null, dconf text not null, tags text not null)' },
+    { name: 'notes', rowidColumn: 0, sql: 'CREATE TABLE notes (id integer primary key, guid text not null, mid integer not null, mod integer not null, usn integer not null, tags text not null, flds text not null, sfld integer not null, csum integer not null, flags integer not null, data text not null)' },
+    { name: 'cards', rowidColumn: 0, sql: 'CREATE TABLE cards (id integer primary key, nid integer not null, did integer not null, ord integer not null, mod integer not null, usn integer not null, type integer not null, queue integer not null, due integer not null, ivl integer not null, factor integer not null, reps integer not null, lapses integer not null, left integer not null, odue integer not null, odid integer not null, flags integer not null, data text not null)' },
+    { name: 'revlog', rowidColumn: 0, sql: 'CREATE TABLE revlog (id integer primary key, cid integer not null, usn integer not null, ease integer not null, ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null, type integer not null)' },
+    { name: 'graves', sql: 'CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null)' },
+];
+
+const sha1Hex = async (text: string): Promise<string> => {
+    const digest = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(text));
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const escapeHtml = (text: string): string =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const createCollectionSettings = (now: number) => {
+    const noteType = {
+        id: NOTE_TYPE_ID,
+        name: 'Portuguese Learner word',
+        type: 0,
+        mod: Math.floor(now / 1000),
+        usn: -1,
+        sortf: 0,
+        did: DECK_ID,
+        tmpls: [{ name: 'Portuguese → English', ord: 0, qfmt: CARD_FRONT, afmt: CARD_BACK, bqfmt: '', bafmt: '', did: null }],
+        flds: FIELD_NAMES.map((name, ord) => ({ name, ord, sticky: false, rtl: false, font: 'Arial', size: 20, media: [] })),
+        css: CARD_CSS,
+        latexPre: '\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage[utf8]{inputenc}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n',
+        latexPost: '\\end{document}',
+        latexsvg: false,
+        // The card is made whenever the Portuguese field isn't empty.
+        req: [[0, 'any', [0]]],
+        tags: [],
+        vers: [],
+    };
+    const deck = (id: number, name: string) => ({
+        id, name, mod: Math.floor(now / 1000), usn: -1, desc: '', dyn: 0, conf: 1, collapsed: false, browserCollapsed: false,
+        extendNew: 0, extendRev: 0, lrnToday: [0, 0], revToday: [0, 0], newToday: [0, 0], timeToday: [0, 0],
+    });
+    const deckOptions = {
+        id: 1, name: 'Default', mod: 0, usn: 0, maxTaken: 60, autoplay: true, timer: 0, replayq: true,
+        new: { bury: true, delays: [1, 10], initialFactor: 2500, ints: [1, 4, 7], order: 1, perDay: 20, separate: true },
+        rev: { bury: true, ease4: 1.3, fuzz: 0.05, ivlFct: 1, maxIvl: 36500, minSpace: 1, perDay: 200 },
+        lapse: { delays: [10], leechAction: 0, leechFails: 8, minInt: 1, mult: 0 },
+    };
+    const conf = {
+        activeDecks: [1], curDeck: 1, newSpread: 0, collapseTime: 1200, timeLim: 0, estTimes: true, dueCounts: true,
+        curModel: String(NOTE_TYPE_ID), nextPos: 1, sortType: 'noteFld', sortBackwards: false, addToCur: true,
+    };
+    return {
+        conf: JSON.stringify(conf),
+        models: JSON.stringify({ [NOTE_TYPE_ID]: noteType }),
+        decks: JSON.stringify({ 1: deck(1, 'Default'), [DECK_ID]: deck(DECK_ID, DECK_NAME) }),
+        dconf: JSON.stringify({ 1: deckOptions }),
+    };
+};
+
+// The collection holds one note per word, in a deck of its own, with the category as a tag
+// and a card asking for the English meaning.
+const createCollection = async (words: ExportedWord[], audioFileNames: Set<string>, now = Date.now()): Promise<Uint8Array> => {
+    const notes: SqlValue[][] = [];
+    const cards: SqlValue[][] = [];
+    for (const [index, { item, category }] of words.entries()) {
+        const audioFileName = getAudioFileName(item.portugueseWord);
+        // Fields are HTML in a collection.
+        const fields = getTextFields(item).map(escapeHtml);
+        fields.push(audioFileNames.has(audioFileName) ? `[sound:${audioFileName}]` : '');
+
+        const id = now + index;
+        const sortField = toField(item.portugueseWord);
+        // Anki finds duplicates by the first eight hex digits of the SHA-1 of the first field.
+        const checksum = parseInt((await sha1Hex(sortField)).slice(0, 8), 16);
+        const guid = (await sha1Hex(`${category}\u001f${item.portugueseWord}`)).slice(0, 16);
+        notes.push([id, guid, NOTE_TYPE_ID, Math.floor(now / 1000), -1, ` ${toTag(category)} `, fields.join('\u001f'), sortField, checksum, 0, '']);
+        // A new card, shown in the order the words were exported.
+        cards.push([id, id, DECK_ID, 0, Math.floor(now / 1000), -1, 0, 0, index + 1, 0, 0, 0, 0, 0, 0, 0, 0, '']);
+    }
+
+    const settings = createCollectionSettings(now);
+    const dayStart = Math.floor(new Date(now).setHours(0, 0, 0, 0) / 1000);
+    const rows: Record<string, SqlValue[][]> = {
+        col: [[1, dayStart, now, now, 11, 0, 0, 0, settings.conf, settings.models, settings.decks, settings.dconf, '{}']],
+        notes,
+        cards,
+    };
+    return createSqliteDatabase(COLLECTION_SCHEMA.map(table => ({ ...table, rows: rows[table.name] ?? [] })));
+};
+
+// Fetches the pronunciation of each word, from the audio cache where possible. Words whose
+// audio can't be generated are exported without it.
+export const createAnkiPackage = async (words: ExportedWord[], onProgress?: (done: number, total: number) => void): Promise<Uint8Array> => {
+    const audioFiles = new Map<string, Uint8Array>();
+    let done = 0;
+
+    for (const { item } of words) {
+        const fileName = getAudioFileName(item.portugueseWord);
+        if (!audioFiles.has(fileName)) {
+            try {
+                audioFiles.set(fileName, pcmToWav(decode(await getSpeech(item.portugueseWord))));
+            } catch (error) {
+                console.warn(`Exporting "${item.portugueseWord}" without audio:`, error);
+            }
+        }
+        onProgress?.(++done, words.length);
+    }
+
+    const media = Array.from(audioFiles);
+    const files: ZipFile[] = [
+        { name: 'collection.anki2', data: await createCollection(words, new Set(audioFiles.keys())) },
+        { name: 'media', data: new TextEncoder().encode(JSON.stringify(Object.fromEntries(media.map(([name], index) => [index, name])))) },
+        ...media.map(([, data], index) => ({ name: String(index), data })),
+    ];
+    return createZip(files);
+};
+
+// e.g. "word-bank-food-dining-2024-05-01.txt"
+export const getAnkiFileName = (category: string | null, extension: 'txt' | 'apkg', date = new Date()): string =>
+    `word-bank-${category ? toSlug(category).replace(/_/g, '-') : 'all'}-${date.toISOString().slice(0, 10)}.${extension}`;
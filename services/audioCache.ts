@@ -0,0 +1,31 @@
+import { createCacheStore } from './cacheStore';
+import { decode, encode } from '../utils/audio';
+
+// Synthesized speech is kept across sessions so that replaying a sentence costs no API call
+// and works offline. The PCM is stored as raw bytes, which is about a quarter smaller than
+// the base64 text the providers return.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MB = 1024 * 1024;
+
+const audioStore = createCacheStore<Uint8Array>('audio', {
+    version: 1,
+    ttlMs: 365 * DAY_MS,
+    // Roughly 15 minutes of 24kHz 16-bit audio.
+    maxBytes: 40 * MB,
+});
+
+// The provider is part of the key because each one has its own default voice.
+export const getAudioCacheKey = (providerId: string, text: string, voice?: string): string =>
+    `${providerId}|${voice ?? 'default'}|${text.trim()}`;
+
+// Returns base64 PCM, the format getSpeech and playAudio use.
+export const getCachedAudio = async (key: string): Promise<string | undefined> => {
+    const bytes = await audioStore.get(key);
+    return bytes ? encode(bytes) : undefined;
+};
+
+export const saveCachedAudio = (key: string, base64Audio: string): Promise<void> =>
+    audioStore.set(key, decode(base64Audio));
+
+export const clearAudioCache = (): Promise<void> => audioStore.clear();
@@ -0,0 +1,257 @@
+import type { FunctionalDomain, LanguageSettings, SavedChat, VerbListsState, VocabularyCategory, VocabularyItem } from '../types';
+import type { ConjugationMastery } from '../utils/conjugationMastery';
+import type { WordReviewSchedule } from '../utils/wordReview';
+import { mergeVerbLists } from '../utils/verbLists';
+import { isPlainObject } from '../utils/typeGuards';
+import { exportCacheEntries, importCacheEntries } from './cacheStore';
+import type { CacheEntry, CacheNamespace } from './cacheStore';
+import { readStoredValue, upgradeStoredValue, writeStoredValue } from './userStorage';
+import type { StoredValueDefinition, VersionedRecord } from './userStorage';
+import {
+    CHAT_HISTORY_RECORD, CONJUGATION_MASTERY_RECORD, FUNCTIONAL_CUSTOM_DOMAINS_RECORD, LANGUAGE_SETTINGS_RECORD, VERB_LISTS_RECORD,
+    VOCABULARY_CUSTOM_CATEGORIES_RECORD, WORD_BANK_RECORD, WORD_REVIEW_RECORD,
+} from './storedRecords';
+
+// All learner data in one JSON file, for backups and for moving to another browser.
+// Records are kept in the form they're stored in, schema version included, so a backup
+// made by an older version of the app is migrated on import like any stored record.
+// A backup holds the data of the active learner profile and is imported into the active one.
+
+export const BACKUP_FORMAT = 'portuguese-learner-backup';
+// Bump when the layout of the file itself changes.
+const BACKUP_VERSION = 1;
+
+// Synthesized audio is left out: it is binary and by far the largest cache.
+const BACKUP_CACHE_NAMESPACES: CacheNamespace[] = ['conjugations', 'examples', 'vocabulary', 'functionalScenes', 'verbProfiles'];
+
+export interface LearnerBackup {
+    format: typeof BACKUP_FORMAT;
+    version: number;
+    exportedAt: string;
+    // Keyed by storage key.
+    records: Record<string, VersionedRecord>;
+    caches?: Partial<Record<CacheNamespace, CacheEntry[]>>;
+}
+
+export type ImportMode = 'merge' | 'replace';
+
+export class BackupError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'BackupError';
+    }
+}
+
+// --- Sections ---
+
+interface BackupSection<T> {
+    record: StoredValueDefinition<T>;
+    label: string;
+    // A short summary for the import preview, e.g. "12 words".
+    describe: (value: T) => string;
+    merge: (current: T, incoming: T) => T;
+}
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+// Items of `incoming` whose key isn't in `current` are appended.
+const mergeByKey = <T>(current: T[], incoming: T[], getKey: (item: T) => string): T[] => [
+    ...current,
+    ...incoming.filter(item => !current.some(existing => getKey(existing) === getKey(item))),
+];
+
+const countWords = (bank: Record<string, VocabularyItem[]>) =>
+    Object.values(bank).reduce((total, items) => total + items.length, 0);
+
+const section = <T>(definition: BackupSection<T>): BackupSection<unknown> => definition as BackupSection<unknown>;
+
+const BACKUP_SECTIONS: BackupSection<unknown>[] = [
+    section<VerbListsState>({
+        record: VERB_LISTS_RECORD,
+        label: 'Verb lists',
+        describe: state => `${plural(state.lists.length, 'list')}, ${plural(state.lists.reduce((total, list) => total + list.entries.length, 0), 'verb')}`,
+        merge: mergeVerbLists,
+    }),
+    section<Record<string, VocabularyItem[]>>({
+        record: WORD_BANK_RECORD,
+        label: 'Word bank',
+        describe: bank => `${plural(countWords(bank), 'word')} in ${plural(Object.keys(bank).length, 'topic')}`,
+        merge: (current, incoming) => {
+            const merged = { ...current };
+            Object.entries(incoming).forEach(([topic, items]) => {
+                merged[topic] = mergeByKey(merged[topic] ?? [], items, item => item.portugueseWord)
+                    .sort((a, b) => a.portugueseWord.localeCompare(b.portugueseWord));
+            });
+            return merged;
+        },
+    }),
+    section<WordReviewSchedule>({
+        record: WORD_REVIEW_RECORD,
+        label: 'Review schedule',
+        describe: schedule => plural(Object.keys(schedule).length, 'reviewed word'),
+        // The more recent review wins for each word.
+        merge: (current, incoming) => {
+            const merged = { ...current };
+            Object.entries(incoming).forEach(([key, state]) => {
+                if (!merged[key] || merged[key].lastReviewed < state.lastReviewed) merged[key] = state;
+            });
+            return merged;
+        },
+    }),
+    section<VocabularyCategory[]>({
+        record: VOCABULARY_CUSTOM_CATEGORIES_RECORD,
+        label: 'Custom vocabulary topics',
+        describe: categories => plural(categories.length, 'topic'),
+        merge: (current, incoming) => mergeByKey(current, incoming, category => category.id),
+    }),
+    section<FunctionalDomain[]>({
+        record: FUNCTIONAL_CUSTOM_DOMAINS_RECORD,
+        label: 'Custom function domains',
+        describe: domains => plural(domains.length, 'domain'),
+        merge: (current, incoming) => mergeByKey(current, incoming, domain => domain.id),
+    }),
+    section<ConjugationMastery>({
+        record: CONJUGATION_MASTERY_RECORD,
+        label: 'Drill progress',
+        describe: mastery => plural(Object.keys(mastery).length, 'practised form'),
+        // The more recently practised result wins for each form.
+        merge: (current, incoming) => {
+            const merged = { ...current };
+            Object.entries(incoming).forEach(([key, cell]) => {
+                if (!merged[key] || merged[key].lastPracticed < cell.lastPracticed) merged[key] = cell;
+            });
+            return merged;
+        },
+    }),
+    section<SavedChat | null>({
+        record: CHAT_HISTORY_RECORD,
+        label: 'Chat',
+        describe: chat => chat ? `${chat.topic.name} (${plural(chat.messages.length, 'message')})` : 'None',
+        // Only one conversation is kept, and the one in progress wins.
+        merge: (current, incoming) => current ?? incoming,
+    }),
+    section<LanguageSettings>({
+        record: LANGUAGE_SETTINGS_RECORD,
+        label: 'Settings',
+        describe: settings => [settings.variant, settings.showTu && 'tu', settings.showVos && 'vós'].filter(Boolean).join(', '),
+        // Settings belong to the browser they were chosen in unless everything is replaced.
+        merge: current => current,
+    }),
+];
+
+// --- Export ---
+
+export const createBackup = async (options: { includeCaches: boolean }): Promise<LearnerBackup> => {
+    const records: Record<string, VersionedRecord> = {};
+    BACKUP_SECTIONS.forEach(({ record }) => {
+        records[record.key] = { schemaVersion: record.version, data: readStoredValue(record) };
+    });
+
+    const backup: LearnerBackup = { format: BACKUP_FORMAT, version: BACKUP_VERSION, exportedAt: new Date().toISOString(), records };
+    if (options.includeCaches) {
+        backup.caches = {};
+        for (const namespace of BACKUP_CACHE_NAMESPACES) {
+            backup.caches[namespace] = await exportCacheEntries(namespace);
+        }
+    }
+    return backup;
+};
+
+// e.g. "portuguese-learner-backup-2024-05-01.json"
+export const getBackupFileName = (backup: LearnerBackup) => `${BACKUP_FORMAT}-${backup.exportedAt.slice(0, 10)}.json`;
+
+// --- Import ---
+
+export interface ParsedBackup {
+    exportedAt: string;
+    // Upgraded to the current schemas and keyed by storage key; only valid records are kept.
+    values: Record<string, unknown>;
+    // Labels of the sections that were in the file but couldn't be read.
+    invalidSections: string[];
+    caches: Partial<Record<CacheNamespace, CacheEntry[]>>;
+}
+
+export interface BackupPreviewItem {
+    label: string;
+    current: string;
+    // Null when the file doesn't include the section.
+    incoming: string | null;
+    merged: string | null;
+}
+
+const isCacheEntry = (value: unknown): value is CacheEntry =>
+    isPlainObject(value) && typeof value.key === 'string' && typeof value.version === 'number' &&
+    typeof value.createdAt === 'number' && 'value' in value;
+
+// Checks the file and upgrades its records. Throws a BackupError if it isn't a backup at all.
+export const parseBackup = (text: string): ParsedBackup => {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(text);
+    } catch {
+        throw new BackupError("The file isn't valid JSON.");
+    }
+    if (!isPlainObject(parsed) || parsed.format !== BACKUP_FORMAT || !isPlainObject(parsed.records)) {
+        throw new BackupError("The file isn't a Portuguese Learner backup.");
+    }
+    const records = parsed.records;
+    if (typeof parsed.version !== 'number' || parsed.version > BACKUP_VERSION) {
+        throw new BackupError("The backup was made by a newer version of the app. Please update and try again.");
+    }
+
+    const values: Record<string, unknown> = {};
+    const invalidSections: string[] = [];
+    BACKUP_SECTIONS.forEach(({ record, label }) => {
+        if (!(record.key in records)) return;
+        try {
+            values[record.key] = upgradeStoredValue(record, records[record.key]);
+        } catch (error) {
+            console.warn(`Skipping the "${label}" section of the backup:`, error);
+            invalidSections.push(label);
+        }
+    });
+
+    const caches: Partial<Record<CacheNamespace, CacheEntry[]>> = {};
+    const backupCaches = isPlainObject(parsed.caches) ? parsed.caches : {};
+    BACKUP_CACHE_NAMESPACES.forEach(namespace => {
+        const entries = backupCaches[namespace];
+        if (Array.isArray(entries)) caches[namespace] = entries.filter(isCacheEntry);
+    });
+
+    return { exportedAt: typeof parsed.exportedAt === 'string' ? parsed.exportedAt : '', values, invalidSections, caches };
+};
+
+export const previewBackup = (backup: ParsedBackup): BackupPreviewItem[] =>
+    BACKUP_SECTIONS.map(({ record, label, describe, merge }) => {
+        const current = readStoredValue(record);
+        const hasIncoming = record.key in backup.values;
+        const incoming = backup.values[record.key];
+        return {
+            label,
+            current: describe(current),
+            incoming: hasIncoming ? describe(incoming) : null,
+            merged: hasIncoming ? describe(merge(current, incoming)) : null,
+        };
+    });
+
+export const countCacheEntries = (backup: ParsedBackup) =>
+    Object.values(backup.caches).reduce((total, entries) => total + (entries?.length ?? 0), 0);
+
+// Sections missing from the file are left alone, even when replacing. If a section can't be
+// saved, the ones already written are put back and a BackupError is thrown.
+export const applyBackup = async (backup: ParsedBackup, mode: ImportMode): Promise<void> => {
+    const written: { record: StoredValueDefinition<unknown>; previous: unknown }[] = [];
+    for (const { record, label, merge } of BACKUP_SECTIONS) {
+        if (!(record.key in backup.values)) continue;
+        const previous = readStoredValue(record);
+        const incoming = backup.values[record.key];
+        if (!writeStoredValue(record, mode === 'replace' ? incoming : merge(previous, incoming))) {
+            written.forEach(section => writeStoredValue(section.record, section.previous));
+            throw new BackupError(`The "${label}" section couldn't be saved; the browser's storage may be full. Your data hasn't been changed.`);
+        }
+        written.push({ record, previous });
+    }
+    for (const [namespace, entries] of Object.entries(backup.caches) as [CacheNamespace, CacheEntry[]][]) {
+        await importCacheEntries(namespace, entries);
+    }
+};
@@ -0,0 +1,415 @@
+// Persistent cache for AI responses, backed by IndexedDB so that writes are asynchronous and
+// not limited by the ~5 MB localStorage quota. Each namespace is its own object store with
+// its own version, time-to-live and size budget. When IndexedDB isn't available (e.g. some
+// private browsing modes) the cache silently falls back to memory for the session.
+
+export type CacheNamespace = 'conjugations' | 'examples' | 'vocabulary' | 'functionalScenes' | 'verbProfiles' | 'audio';
+
+const NAMESPACES: CacheNamespace[] = ['conjugations', 'examples', 'vocabulary', 'functionalScenes', 'verbProfiles', 'audio'];
+
+const DB_NAME = 'portugueseAppCache';
+// Bump when NAMESPACES changes so that the upgrade handler creates the new stores.
+const DB_VERSION = 3;
+const LAST_ACCESSED_INDEX = 'lastAccessed';
+// Avoids a write on every read: access times closer together than this aren't recorded.
+const ACCESS_TOUCH_INTERVAL_MS = 60 * 1000;
+const LEGACY_STORAGE_VERSION = 1;
+
+export interface CacheStoreOptions<T> {
+    // Entries written with a different version are treated as missing and deleted, so bump
+    // it whenever the shape of the cached data changes.
+    version: number;
+    ttlMs: number;
+    // Approximate budget for the namespace; least recently used entries are evicted beyond it.
+    maxBytes: number;
+    // localStorage key this namespace used to be saved under; imported once, then removed.
+    // Its entries are imported as version 1, the version they were written with.
+    legacyStorageKey?: string;
+    // Upgrades an entry written with an older version. Entries it returns undefined for are
+    // dropped, as are all outdated entries when it isn't given.
+    migrate?: (key: string, value: unknown, fromVersion: number) => T | undefined;
+}
+
+export interface CacheStore<T> {
+    get: (key: string) => Promise<T | undefined>;
+    set: (key: string, value: T) => Promise<void>;
+    delete: (key: string) => Promise<void>;
+    clear: () => Promise<void>;
+    // Every stored key, including those of entries `get` would find expired or outdated.
+    keys: () => Promise<string[]>;
+}
+
+// An entry as it is stored, without the bookkeeping; used for backups.
+export interface CacheEntry {
+    key: string;
+    value: unknown;
+    version: number;
+    createdAt: number;
+}
+
+interface CacheRecord<T> {
+    key: string;
+    value: T;
+    version: number;
+    createdAt: number;
+    lastAccessed: number;
+    size: number;
+}
+
+// --- IndexedDB helpers ---
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+    new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase | null> => {
+    if (!dbPromise) {
+        dbPromise = new Promise<IDBDatabase | null>(resolve => {
+            if (typeof indexedDB === 'undefined') {
+                resolve(null);
+                return;
+            }
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                NAMESPACES.forEach(namespace => {
+                    if (!db.objectStoreNames.contains(namespace)) {
+                        const store = db.createObjectStore(namespace, { keyPath: 'key' });
+                        store.createIndex(LAST_ACCESSED_INDEX, 'lastAccessed');
+                    }
+                });
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                console.warn("IndexedDB is unavailable; caching in memory for this session.", request.error);
+                resolve(null);
+            };
+            request.onblocked = () => {
+                console.warn("IndexedDB upgrade is blocked by another open tab; caching in memory for this session.");
+                resolve(null);
+            };
+        });
+    }
+    return dbPromise;
+};
+
+const estimateSize = (value: unknown): number => {
+    if (value instanceof ArrayBuffer || ArrayBuffer.isView(value)) {
+        return value.byteLength;
+    }
+    try {
+        return JSON.stringify(value).length * 2; // UTF-16
+    } catch {
+        return 0;
+    }
+};
+
+// --- localStorage migration ---
+
+// Moves a cache that used to live in localStorage (a JSON array of [key, value] entries)
+// into the store, then removes the localStorage key so the migration only happens once.
+const migrateLocalStorageCache = async <T>(storageKey: string, write: (key: string, value: T) => Promise<void>) => {
+    let saved: string | null;
+    try {
+        saved = window.localStorage.getItem(storageKey);
+    } catch {
+        return;
+    }
+    if (!saved) return;
+
+    try {
+        const parsed = JSON.parse(saved);
+        if (Array.isArray(parsed)) {
+            for (const entry of parsed) {
+                if (Array.isArray(entry) && typeof entry[0] === 'string') {
+                    await write(entry[0], entry[1] as T);
+                }
+            }
+        }
+    } catch (error) {
+        console.error(`Error migrating cache from localStorage for key "${storageKey}":`, error);
+    }
+    window.localStorage.removeItem(storageKey);
+};
+
+// --- Backups ---
+
+// Each store registers itself so that a backup can reach the namespaces it owns.
+const backupHandlers = new Map<CacheNamespace, {
+    dump: () => Promise<CacheEntry[]>;
+    restore: (entries: CacheEntry[]) => Promise<void>;
+}>();
+
+// The unexpired entries of a namespace, or none if its store hasn't been created.
+export const exportCacheEntries = async (namespace: CacheNamespace): Promise<CacheEntry[]> =>
+    (await backupHandlers.get(namespace)?.dump()) ?? [];
+
+// Entries keep their version and creation time, so they're migrated and expired as usual.
+export const importCacheEntries = async (namespace: CacheNamespace, entries: CacheEntry[]): Promise<void> => {
+    await backupHandlers.get(namespace)?.restore(entries);
+};
+
+// --- Store factory ---
+
+export const createCacheStore = <T>(namespace: CacheNamespace, options: CacheStoreOptions<T>): CacheStore<T> => {
+    const memory = new Map<string, CacheRecord<T>>();
+    // Running total of `size` for the namespace. It's counted from the store before the first
+    // change, then updated inside each readwrite transaction, which IndexedDB runs one at a
+    // time, so writes running side by side can't lose each other's updates. Null until
+    // counted, and again after a failed transaction, which may have been counted in part.
+    let usedBytes: number | null = null;
+    let counting: Promise<number> | null = null;
+
+    const isExpired = (record: CacheRecord<T>) => Date.now() - record.createdAt >= options.ttlMs;
+
+    // Changes start their transaction only once this resolves, so the count sees none of them
+    // half done.
+    const getUsedBytes = (db: IDBDatabase): Promise<number> => {
+        if (usedBytes !== null) return Promise.resolve(usedBytes);
+        if (!counting) {
+            counting = requestToPromise(
+                db.transaction(namespace, 'readonly').objectStore(namespace).getAll() as IDBRequest<CacheRecord<T>[]>
+            )
+                .then(records => (usedBytes = records.reduce((total, record) => total + (record.size || 0), 0)))
+                .finally(() => {
+                    counting = null;
+                });
+        }
+        return counting;
+    };
+
+    // Called from request callbacks, in the order the transactions run.
+    const adjustUsedBytes = (delta: number) => {
+        if (usedBytes !== null) usedBytes += delta;
+    };
+
+    const finishChange = (transaction: IDBTransaction) =>
+        transactionDone(transaction).catch(error => {
+            usedBytes = null;
+            throw error;
+        });
+
+    const evictLeastRecentlyUsed = async (db: IDBDatabase) => {
+        if (await getUsedBytes(db) <= options.maxBytes) return;
+
+        const transaction = db.transaction(namespace, 'readwrite');
+        const cursorRequest = transaction.objectStore(namespace).index(LAST_ACCESSED_INDEX).openCursor();
+        cursorRequest.onsuccess = () => {
+            const cursor = cursorRequest.result;
+            if (!cursor || usedBytes === null || usedBytes <= options.maxBytes) return;
+            adjustUsedBytes(-((cursor.value as CacheRecord<T>).size || 0));
+            cursor.delete();
+            cursor.continue();
+        };
+        await finishChange(transaction);
+    };
+
+    const evictFromMemory = () => {
+        let total = Array.from(memory.values()).reduce((sum, record) => sum + record.size, 0);
+        const byAge = Array.from(memory.values()).sort((a, b) => a.lastAccessed - b.lastAccessed);
+        for (const record of byAge) {
+            if (total <= options.maxBytes) break;
+            memory.delete(record.key);
+            total -= record.size;
+        }
+    };
+
+    const readRecord = (db: IDBDatabase, key: string) =>
+        requestToPromise(db.transaction(namespace, 'readonly').objectStore(namespace).get(key) as IDBRequest<CacheRecord<T> | undefined>);
+
+    const remove = async (key: string) => {
+        memory.delete(key);
+        const db = await openDatabase();
+        if (!db) return;
+        await getUsedBytes(db);
+        const transaction = db.transaction(namespace, 'readwrite');
+        const store = transaction.objectStore(namespace);
+        const existingRequest = store.get(key) as IDBRequest<CacheRecord<T> | undefined>;
+        existingRequest.onsuccess = () => {
+            const existing = existingRequest.result;
+            if (!existing) return;
+            store.delete(key);
+            adjustUsedBytes(-(existing.size || 0));
+        };
+        await finishChange(transaction);
+    };
+
+    const write = async (key: string, value: T, version = options.version, createdAt = Date.now()) => {
+        const now = Date.now();
+        const record: CacheRecord<T> = {
+            key,
+            value,
+            version,
+            createdAt,
+            lastAccessed: now,
+            size: estimateSize(value),
+        };
+        const db = await openDatabase();
+        if (!db) {
+            memory.set(key, record);
+            evictFromMemory();
+            return;
+        }
+        await getUsedBytes(db);
+        const transaction = db.transaction(namespace, 'readwrite');
+        const store = transaction.objectStore(namespace);
+        const existingRequest = store.get(key) as IDBRequest<CacheRecord<T> | undefined>;
+        existingRequest.onsuccess = () => {
+            store.put(record);
+            adjustUsedBytes(record.size - (existingRequest.result?.size || 0));
+        };
+        await finishChange(transaction);
+        await evictLeastRecentlyUsed(db);
+    };
+
+    let readyPromise: Promise<void> | null = null;
+    const ready = () => {
+        if (!readyPromise) {
+            readyPromise = options.legacyStorageKey
+                ? migrateLocalStorageCache<T>(options.legacyStorageKey, (key, value) => write(key, value, LEGACY_STORAGE_VERSION))
+                : Promise.resolve();
+        }
+        return readyPromise;
+    };
+
+    backupHandlers.set(namespace, {
+        dump: async () => {
+            try {
+                await ready();
+                const db = await openDatabase();
+                const records = db
+                    ? await requestToPromise(db.transaction(namespace, 'readonly').objectStore(namespace).getAll() as IDBRequest<CacheRecord<T>[]>)
+                    : Array.from(memory.values());
+                return records
+                    .filter(record => !isExpired(record))
+                    .map(({ key, value, version, createdAt }) => ({ key, value, version, createdAt }));
+            } catch (error) {
+                console.error(`Error exporting the ${namespace} cache:`, error);
+                return [];
+            }
+        },
+        restore: async (entries) => {
+            try {
+                await ready();
+                for (const entry of entries) {
+                    if (typeof entry?.key !== 'string' || typeof entry.version !== 'number' || entry.version > options.version) continue;
+                    await write(entry.key, entry.value as T, entry.version, typeof entry.createdAt === 'number' ? entry.createdAt : Date.now());
+                }
+            } catch (error) {
+                console.error(`Error importing into the ${namespace} cache:`, error);
+            }
+        },
+    });
+
+    return {
+        get: async (key) => {
+            try {
+                await ready();
+                const db = await openDatabase();
+                let record: CacheRecord<T> | undefined;
+                if (db) {
+                    record = await readRecord(db, key);
+                } else {
+                    record = memory.get(key);
+                }
+                if (!record) return undefined;
+
+                if (isExpired(record)) {
+                    await remove(key);
+                    return undefined;
+                }
+                if (record.version !== options.version) {
+                    let migrated: T | undefined;
+                    try {
+                        migrated = record.version < options.version
+                            ? options.migrate?.(key, record.value, record.version)
+                            : undefined;
+                    } catch (error) {
+                        // A malformed old entry would otherwise fail the same way on every read.
+                        console.warn(`Dropping "${key}" from the ${namespace} cache, as it couldn't be migrated:`, error);
+                    }
+                    if (migrated === undefined) {
+                        await remove(key);
+                        return undefined;
+                    }
+                    await write(key, migrated, options.version, record.createdAt);
+                    return migrated;
+                }
+
+                const now = Date.now();
+                if (now - record.lastAccessed > ACCESS_TOUCH_INTERVAL_MS) {
+                    record.lastAccessed = now;
+                    if (db) {
+                        // Not awaited, so the read isn't slowed down; a failed update only
+                        // makes the entry look older to eviction.
+                        Promise.resolve()
+                            .then(() => requestToPromise(db.transaction(namespace, 'readwrite').objectStore(namespace).put(record)))
+                            .catch(error => console.warn(`Error updating the access time of "${key}" in the ${namespace} cache:`, error));
+                    }
+                }
+                return record.value;
+            } catch (error) {
+                console.error(`Error reading "${key}" from the ${namespace} cache:`, error);
+                return undefined;
+            }
+        },
+
+        set: async (key, value) => {
+            try {
+                await ready();
+                await write(key, value);
+            } catch (error) {
+                console.error(`Error saving "${key}" to the ${namespace} cache:`, error);
+            }
+        },
+
+        delete: async (key) => {
+            try {
+                await ready();
+                await remove(key);
+            } catch (error) {
+                console.error(`Error deleting "${key}" from the ${namespace} cache:`, error);
+            }
+        },
+
+        keys: async () => {
+            try {
+                await ready();
+                const db = await openDatabase();
+                if (!db) return Array.from(memory.keys());
+                const keys = await requestToPromise(db.transaction(namespace, 'readonly').objectStore(namespace).getAllKeys());
+                return keys.map(String);
+            } catch (error) {
+                console.error(`Error listing the keys of the ${namespace} cache:`, error);
+                return [];
+            }
+        },
+
+        clear: async () => {
+            memory.clear();
+            try {
+                await ready();
+                const db = await openDatabase();
+                if (!db) return;
+                const transaction = db.transaction(namespace, 'readwrite');
+                transaction.objectStore(namespace).clear().onsuccess = () => {
+                    usedBytes = 0;
+                };
+                await finishChange(transaction);
+            } catch (error) {
+                console.error(`Error clearing the ${namespace} cache:`, error);
+            }
+        },
+    };
+};
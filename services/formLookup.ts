@@ -0,0 +1,200 @@
+import type { ConjugationData, LanguageVariant } from '../types';
+import { getCachedConjugationVerbs, getLocalConjugations } from './geminiService';
+import { getLanguageVariant } from './languageVariant';
+import { conjugateRegularly, conjugateVerb, flattenTable, isListedVerb, listForms, listIrregularVerbs } from '../utils/conjugationEngine';
+
+// Reverse lookup from a conjugated form ("fizéssemos") to the verbs and cells it belongs to.
+// Only local data is searched: the engine's tables, and tables the model has already sent.
+// Forms of regular verbs nobody has looked at yet are found by guessing the infinitive.
+
+export interface FormMatch {
+    verb: string;
+    // Path of the cell in ConjugationData, e.g. "imperfeito_do_subjuntivo.nos" or "participio.0".
+    path: string;
+    form: string;
+    // Set when the verb was inferred from the ending; it may not be a real verb.
+    guessed: boolean;
+}
+
+const MAX_RESULTS = 20;
+const MAX_GUESSED_VERBS = 3;
+
+// Lower case, single spaces and no accents, so that "fizessemos" still finds "fizéssemos".
+const foldForm = (form: string) =>
+    form.trim().toLowerCase().replace(/\s+/g, ' ').normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+
+const findInTable = (verb: string, table: ConjugationData, query: string, guessed: boolean): FormMatch[] =>
+    flattenTable(table)
+        .filter(([, form]) => foldForm(form) === foldForm(query))
+        .map(([path, form]) => ({ verb, path, form, guessed }));
+
+// --- Guessing ---
+
+const MODEL_VERBS = ['falar', 'comer', 'partir'];
+
+// Every single-word ending of the regular paradigms, with the class it belongs to.
+let regularEndings: { ending: string; verbClass: string }[] | null = null;
+const getRegularEndings = () => {
+    if (!regularEndings) {
+        regularEndings = MODEL_VERBS.flatMap(model => {
+            const stem = model.slice(0, -2);
+            const endings = new Set(flattenTable(conjugateRegularly(model))
+                .map(([, form]) => form)
+                .filter(form => !form.includes(' ') && form.startsWith(stem))
+                .map(form => form.slice(stem.length)));
+            return Array.from(endings, ending => ({ ending, verbClass: model.slice(-2) }));
+        });
+    }
+    return regularEndings;
+};
+
+// The stem as the infinitive spells it: fiqu(ei) → fic(ar), comec(ei) → começ(ar),
+// conheç(o) → conhec(er), protej(o) → proteg(er), sig(o) → (se)gu(ir).
+const RESPELLINGS: Record<string, [string, string][]> = {
+    ar: [['qu', 'c'], ['gu', 'g'], ['c', 'ç']],
+    er: [['ç', 'c'], ['j', 'g']],
+    ir: [['ç', 'c'], ['j', 'g'], ['g', 'gu']],
+};
+
+// Stem-changing -ir verbs raise or lower their stem vowel in some present forms; these
+// swaps undo it: sirvo → servir, durmo → dormir, sobe → subir.
+const IR_VOWEL_SWAPS: [string, string][] = [['i', 'e'], ['u', 'o'], ['o', 'u']];
+
+const swapLastVowel = (stem: string, from: string, to: string): string | null => {
+    // The u of gu and qu is part of the consonant.
+    const match = stem.match(/[aeiou](?:[^aeiou]|[gq]u)*$/);
+    return match && match[0][0] === from ? stem.slice(0, match.index) + to + match[0].slice(1) : null;
+};
+
+// Candidates are ordered by the length of the ending they were found with, since a longer
+// ending is less likely to be a coincidence, then -ar before -er before -ir, as -ar verbs
+// are by far the most common.
+const guessInfinitives = (word: string): string[] => {
+    const candidates = new Map<string, number>();
+    const add = (verb: string, endingLength: number) => {
+        // ç is never written before e or i, so conheçer can't be an infinitive, and no
+        // regular infinitive doubles its vowel (fiqueer from fiquei).
+        if (/ç[ei]/.test(verb) || /(aa|ee|ii)r$/.test(verb)) return;
+        candidates.set(verb, Math.max(candidates.get(verb) ?? 0, endingLength));
+    };
+    getRegularEndings().forEach(({ ending, verbClass }) => {
+        if (!word.endsWith(ending) || word.length - ending.length < 2) return;
+        const stem = word.slice(0, word.length - ending.length);
+        const stems = [stem, ...RESPELLINGS[verbClass]
+            .filter(([spelled]) => stem.endsWith(spelled))
+            .map(([spelled, original]) => stem.slice(0, -spelled.length) + original)];
+        stems.forEach(candidate => {
+            add(candidate + verbClass, ending.length);
+            if (verbClass !== 'ir') return;
+            IR_VOWEL_SWAPS.forEach(([from, to]) => {
+                const swapped = swapLastVowel(candidate, from, to);
+                if (swapped) add(swapped + verbClass, ending.length);
+            });
+        });
+    });
+    const classOrder = (verb: string) => MODEL_VERBS.findIndex(model => verb.endsWith(model.slice(-2)));
+    return Array.from(candidates.keys()).sort((a, b) =>
+        candidates.get(b)! - candidates.get(a)! || classOrder(a) - classOrder(b)
+    );
+};
+
+// --- Lookup ---
+
+// Every form of the engine's irregular verbs, indexed by form (spelled exactly) and built once
+// per language variant.
+interface IrregularFormIndex {
+    verbsByForm: Map<string, string[]>;
+    formsByVerb: Map<string, string[]>;
+}
+
+const irregularFormIndexes = new Map<LanguageVariant, IrregularFormIndex>();
+
+const getIrregularFormIndex = (variant: LanguageVariant): IrregularFormIndex => {
+    const cached = irregularFormIndexes.get(variant);
+    if (cached) return cached;
+
+    const verbsByForm = new Map<string, string[]>();
+    const formsByVerb = new Map<string, string[]>();
+    for (const verb of listIrregularVerbs()) {
+        const table = conjugateVerb(verb, { variant });
+        if (!table) continue;
+        const forms = listForms(table);
+        formsByVerb.set(verb, forms);
+        forms.forEach(form => {
+            const key = form.toLowerCase();
+            verbsByForm.set(key, [...(verbsByForm.get(key) ?? []), verb]);
+        });
+    }
+    const index = { verbsByForm, formsByVerb };
+    irregularFormIndexes.set(variant, index);
+    return index;
+};
+
+// Every form of the irregular verbs a form belongs to ("fazemos" gives faço, fiz, fizéssemos,
+// ...), found synchronously from the engine alone. Used to tell a wrong form of the right verb
+// apart from a wrong answer. Only an exact spelling counts, accents included, so "de" and "da"
+// aren't taken for dar's "dê" and "dá". Compound forms ("tinha feito", "não fales") are looked
+// up by their last word.
+export const findRelatedForms = (form: string): string[] => {
+    const word = form.trim().toLowerCase().replace(/\s+/g, ' ');
+    if (!word) return [];
+
+    const { verbsByForm, formsByVerb } = getIrregularFormIndex(getLanguageVariant());
+    const verbs = verbsByForm.get(word) ?? verbsByForm.get(word.split(' ').pop()!) ?? [];
+    const related = new Set<string>();
+    verbs.forEach(verb => {
+        related.add(verb);
+        formsByVerb.get(verb)!.forEach(relatedForm => related.add(relatedForm));
+    });
+    return Array.from(related);
+};
+
+// `verbs` are the learner's own verbs, which are searched along with the engine's irregular
+// verbs and every verb the model has conjugated.
+export const findConjugatedForm = async (query: string, verbs: string[]): Promise<FormMatch[]> => {
+    const word = query.trim().toLowerCase().replace(/\s+/g, ' ');
+    if (!word) return [];
+
+    const known = new Set([...verbs, ...listIrregularVerbs(), ...await getCachedConjugationVerbs()].map(verb => verb.toLowerCase()));
+    const matches: FormMatch[] = [];
+    for (const verb of known) {
+        const table = await getLocalConjugations(verb);
+        if (table) matches.push(...findInTable(verb, table, word, false));
+    }
+
+    if (matches.length === 0 && !word.includes(' ')) {
+        const variant = getLanguageVariant();
+        const candidates = guessInfinitives(word).filter(verb => !known.has(verb));
+        // A verb the engine lists is a real one, and its match rules out the bare guesses:
+        // "sirvo" is the "eu" form of a made-up "sirvar" only because every -ar verb ends
+        // in -o there, while servir is the verb it belongs to.
+        candidates.filter(isListedVerb).forEach(verb => {
+            const table = conjugateVerb(verb, { variant });
+            if (table) matches.push(...findInTable(verb, table, word, false));
+        });
+
+        // Otherwise the best guess stands, along with any guess that spells the stem another
+        // way for the same cell (conheço: conheçar or conhecer). Other classes sharing an
+        // ending, like faler for falo or fiquer for fiquei, are dropped.
+        let best: FormMatch[] = [];
+        let guessedVerbs = 0;
+        for (const verb of matches.length === 0 ? candidates : []) {
+            if (guessedVerbs === MAX_GUESSED_VERBS) break;
+            const table = conjugateVerb(verb, { variant });
+            const found = table ? findInTable(verb, table, word, true) : [];
+            const isAlternative = best.some(match =>
+                match.verb.slice(0, -2) !== verb.slice(0, -2) && found.some(({ path }) => path === match.path)
+            );
+            if (found.length > 0 && (best.length === 0 || isAlternative)) {
+                if (best.length === 0) best = found;
+                matches.push(...found);
+                guessedVerbs++;
+            }
+        }
+    }
+
+    const exact = (match: FormMatch) => (match.form.toLowerCase() === word ? 0 : 1);
+    // Exact spellings first, then accent-insensitive matches. The sort is stable, so guesses
+    // keep their order.
+    return matches.sort((a, b) => exact(a) - exact(b)).slice(0, MAX_RESULTS);
+};
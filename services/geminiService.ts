@@ -1,72 +1,131 @@
 
-import { GoogleGenAI, Type, Modality } from "@google/genai";
-import type { ConjugationData, Example, GrammarParagraph, GrammarTheory, WrittenDrill, VocabularyItem, FunctionalScene, FunctionalDomain, ChatMessage, ChatStreamEvent } from '../types';
-
-if (!process.env.API_KEY) {
-  throw new Error("API_KEY environment variable is not set");
-}
-
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+import { Type } from "@google/genai";
+import type { Schema } from "@google/genai";
+import type { ConjugationData, VerbProfile, Example, GrammarParagraph, GrammarTheory, WrittenDrill, WritingAssessment, WritingTask, VocabularyItem, FunctionalScene, FunctionalDomain, ChatMessage, ChatStreamEvent } from '../types';
+import { getProvider } from './aiProvider';
+import type { AiTask, ChatRequest, ChatTurn, StructuredRequest } from './aiProvider';
+import { MalformedResponseError, RequestCancelledError, isCancellation, toAiServiceError } from './aiErrors';
+import { withRetry } from './retryPolicy';
+import { scheduleRequest } from './requestScheduler';
+import { createCacheStore } from './cacheStore';
+import { getAudioCacheKey, getCachedAudio, saveCachedAudio } from './audioCache';
+import type { CacheStore } from './cacheStore';
+import type { RequestPriority } from './requestScheduler';
+import { parseStructuredResponse, validateAgainstSchema } from './schemaValidation';
+import { getLanguageVariant, getOtherVariant, getVariantCacheKey, getVariantCountry, getVariantName } from './languageVariant';
+import { conjugateVerb, extendLegacyConjugations, flattenTable } from '../utils/conjugationEngine';
+import type { LegacyConjugationData } from '../utils/conjugationEngine';
+import { GENDERS, PARTS_OF_SPEECH, REGISTERS, WORD_VARIANTS, upgradeLegacyVocabularyItem } from '../utils/vocabularyItem';
+import { GRAMMAR_TOPIC_GROUPS } from '../constants';
 
 // --- Caching ---
-const CONJUGATION_CACHE_KEY = 'portugueseConjugationCache';
-const EXAMPLE_CACHE_KEY = 'portugueseExampleCache';
-const VOCABULARY_CACHE_KEY = 'portugueseVocabularyCache';
-const FUNCTIONAL_SCENE_CACHE_KEY = 'portugueseFunctionalSceneCache';
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MB = 1024 * 1024;
+
+// The legacy keys are the localStorage entries these caches used to live in; their
+// contents are moved into IndexedDB the first time each cache is used.
+const conjugationCache = createCacheStore<ConjugationData>('conjugations', {
+    version: 2,
+    ttlMs: 180 * DAY_MS,
+    maxBytes: 4 * MB,
+    legacyStorageKey: 'portugueseConjugationCache',
+    // Version 1 tables lack the mais-que-perfeito, future subjunctive, imperative and
+    // non-finite forms; those are derived from the tenses they do have.
+    migrate: (verb, value, fromVersion) =>
+        fromVersion === 1 ? extendLegacyConjugations(verb, value as LegacyConjugationData) : undefined,
+});
+const exampleCache = createCacheStore<Example[]>('examples', {
+    version: 1,
+    ttlMs: 60 * DAY_MS,
+    maxBytes: 4 * MB,
+    legacyStorageKey: 'portugueseExampleCache',
+});
+const vocabularyCache = createCacheStore<VocabularyItem[]>('vocabulary', {
+    version: 2,
+    ttlMs: 60 * DAY_MS,
+    maxBytes: 2 * MB,
+    legacyStorageKey: 'portugueseVocabularyCache',
+    // Version 1 items describe the word with a free-text wordType instead of the structured fields.
+    migrate: (_category, value, fromVersion) =>
+        fromVersion === 1 && Array.isArray(value) ? value.map(upgradeLegacyVocabularyItem) : undefined,
+});
+const functionalSceneCache = createCacheStore<FunctionalScene>('functionalScenes', {
+    version: 1,
+    ttlMs: 60 * DAY_MS,
+    maxBytes: 2 * MB,
+    legacyStorageKey: 'portugueseFunctionalSceneCache',
+});
+const verbProfileCache = createCacheStore<VerbProfile>('verbProfiles', {
+    version: 1,
+    ttlMs: 180 * DAY_MS,
+    maxBytes: 1 * MB,
+});
+
+// Entries saved before responses were validated may be malformed; those are dropped
+// so that they get fetched again instead of reaching the components.
+const getCached = async <T>(cache: CacheStore<T>, key: string, schema: Schema): Promise<T | undefined> => {
+    const cached = await cache.get(key);
+    if (cached === undefined) return undefined;
+    const outcome = validateAgainstSchema<T>(cached, schema);
+    if (outcome.ok) return outcome.value;
+    console.warn(`Discarding malformed cache entry "${key}":`, outcome.issues);
+    cache.delete(key);
+    return undefined;
+};
+// -----------------
 
-// Function to load cache from localStorage
-const loadCache = <T>(key: string): Map<string, T> => {
-    try {
-        const savedCache = window.localStorage.getItem(key);
-        if (savedCache) {
-            const parsed = JSON.parse(savedCache);
-            if (Array.isArray(parsed)) {
-                return new Map(parsed);
-            }
-        }
-    } catch (error) {
-        console.error(`Error loading cache from localStorage for key "${key}":`, error);
-        window.localStorage.removeItem(key);
+// --- Centralized API Error Handling ---
+// Every exported function rejects with an AiServiceError subclass (see aiErrors.ts).
+const handleApiError = (error: unknown): never => {
+    const serviceError = toAiServiceError(error);
+    if (serviceError.kind !== 'cancelled') {
+        console.error("AI Provider Error:", error);
     }
-    return new Map<string, T>();
+    throw serviceError;
 };
 
-
-// Function to save cache to localStorage
-const saveCache = <T>(key: string, cache: Map<string, T>) => {
-    try {
-        const cacheArray = Array.from(cache.entries());
-        window.localStorage.setItem(key, JSON.stringify(cacheArray));
-    } catch (error) {
-        console.error(`Error saving cache to localStorage for key "${key}":`, error);
-    }
+export interface RequestOptions {
+    // Aborting rejects the call with a RequestCancelledError, including during retry backoff.
+    signal?: AbortSignal;
+    // Background prefetches should pass 'prefetch' so they queue behind user requests.
+    priority?: RequestPriority;
 }
-
-
-const conjugationCache = loadCache<ConjugationData>(CONJUGATION_CACHE_KEY);
-const exampleCache = loadCache<Example[]>(EXAMPLE_CACHE_KEY);
-const vocabularyCache = loadCache<VocabularyItem[]>(VOCABULARY_CACHE_KEY);
-const functionalSceneCache = loadCache<FunctionalScene>(FUNCTIONAL_SCENE_CACHE_KEY);
 // -----------------
 
-// --- Centralized API Error Handling ---
-const handleApiError = (error: unknown): never => {
-    console.error("Gemini API Error:", error);
-    if (error instanceof Error) {
-        const errorMessage = error.message.toLowerCase();
-        if (errorMessage.includes('429') || errorMessage.includes('quota')) {
-            throw new Error("API Quota Exceeded: You have run out of free daily requests. Please check your billing configuration in your Google AI project to continue using the service.");
-        }
-        if (errorMessage.includes('api key not valid')) {
-            throw new Error("Invalid API Key: The provided API key is not valid. Please ensure it is configured correctly.");
-        }
-        if (errorMessage.includes('timed out')) {
-            throw new Error("Request Timed Out: The request to the AI model took too long to respond. Please check your internet connection and try again.");
+// --- Response Validation ---
+const MALFORMED_RESPONSE_RETRIES = 1;
+
+// Parses the raw reply against its schema, asking the model again if it can't be used.
+// Transport failures are retried separately by withRetry, according to the retry policy.
+const requestValidated = async <T>(task: AiTask, schema: Schema, send: (signal: AbortSignal) => Promise<string>, signal?: AbortSignal): Promise<T> => {
+    let issues: string[] = [];
+    for (let attempt = 0; attempt <= MALFORMED_RESPONSE_RETRIES; attempt++) {
+        const outcome = parseStructuredResponse<T>(await withRetry(send, signal), schema);
+        if (outcome.ok) {
+            if (outcome.repairs.length > 0) {
+                console.warn(`Repaired "${task}" response:`, outcome.repairs);
+            }
+            return outcome.value;
         }
+        issues = outcome.issues;
+        console.warn(`Malformed "${task}" response (attempt ${attempt + 1}):`, issues);
     }
-    // Fallback for other errors
-    throw new Error("An unexpected error occurred with the AI model. The service may be temporarily unavailable. Please try again later.");
+    throw new MalformedResponseError(task, issues);
 };
+
+// Identical structured requests made while one is in flight share its result.
+const generateValidated = <T>(request: StructuredRequest, options: RequestOptions): Promise<T> =>
+    scheduleRequest(
+        { key: JSON.stringify([request.task, request.tier, request.systemInstruction, request.prompt]), priority: options.priority, signal: options.signal },
+        signal => requestValidated<T>(request.task, request.schema, attemptSignal => getProvider().generateStructured({ ...request, signal: attemptSignal }), signal)
+    );
+
+// Chat turns are never merged: sending the same message twice is a deliberate action.
+const chatValidated = <T>(request: ChatRequest, options: RequestOptions): Promise<T> =>
+    scheduleRequest(
+        { priority: options.priority, signal: options.signal },
+        signal => requestValidated<T>(request.task, request.schema, attemptSignal => getProvider().chat({ ...request, signal: attemptSignal }), signal)
+    );
 // -----------------
 
 
@@ -75,10 +134,11 @@ const verbValidationSchema = {
     properties: {
         isValid: { 
             type: Type.BOOLEAN,
-            description: "Whether the provided word is a valid infinitive verb in Brazilian Portuguese."
+            description: "Whether the provided word is a valid infinitive verb in Portuguese."
         },
         reason: { 
             type: Type.STRING,
+            nullable: true,
             description: "A brief, user-friendly explanation in English if the word is not a valid verb (e.g., 'it is a noun', 'it is misspelled'). Is null if the verb is valid."
         },
     },
@@ -94,37 +154,131 @@ const conjugationFormsSchema = {
     type: Type.OBJECT,
     properties: {
         eu: { type: Type.STRING },
+        tu: { type: Type.STRING },
         voce: { type: Type.STRING, description: "Conjugation for você/ele/ela." },
         nos: { type: Type.STRING },
+        vos: { type: Type.STRING, description: "Conjugation for vós." },
         voces: { type: Type.STRING, description: "Conjugation for vocês/eles/elas." },
     },
+    // tu and vós are requested but optional, so that tables cached without them stay valid.
     required: ["eu", "voce", "nos", "voces"],
 };
 
+const imperativeFormsSchema = {
+    type: Type.OBJECT,
+    properties: {
+        tu: { type: Type.STRING, description: "Command for tu." },
+        voce: { type: Type.STRING, description: "Command for você." },
+        nos: { type: Type.STRING },
+        vos: { type: Type.STRING, description: "Command for vós." },
+        voces: { type: Type.STRING, description: "Command for vocês." },
+    },
+    required: ["voce", "nos", "voces"],
+};
+
 const conjugationSchema = {
   type: Type.OBJECT,
   properties: {
     presente: { ...conjugationFormsSchema, description: "Present Indicative tense." },
     preterito_perfeito: { ...conjugationFormsSchema, description: "Preterite Perfect tense (simple past)." },
     preterito_imperfeito: { ...conjugationFormsSchema, description: "Imperfect Past tense." },
+    preterito_mais_que_perfeito: { ...conjugationFormsSchema, description: "Simple Pluperfect tense (e.g., 'falara')." },
     preterito_perfeito_composto: { ...conjugationFormsSchema, description: "Present Perfect Compound tense using 'ter' (e.g., 'tenho falado')." },
+    preterito_mais_que_perfeito_composto: { ...conjugationFormsSchema, description: "Compound Pluperfect tense using 'ter' (e.g., 'tinha falado')." },
     futuro_do_presente: { ...conjugationFormsSchema, description: "Simple Future tense." },
     futuro_do_preterito: { ...conjugationFormsSchema, description: "Conditional tense." },
     presente_do_subjuntivo: { ...conjugationFormsSchema, description: "Present Subjunctive tense." },
     imperfeito_do_subjuntivo: { ...conjugationFormsSchema, description: "Imperfect Subjunctive tense." },
+    futuro_do_subjuntivo: { ...conjugationFormsSchema, description: "Future Subjunctive tense (e.g., 'quando eu falar')." },
+    imperativo_afirmativo: { ...imperativeFormsSchema, description: "Affirmative Imperative (e.g., 'fale')." },
+    imperativo_negativo: { ...imperativeFormsSchema, description: "Negative Imperative, including 'não' (e.g., 'não fale')." },
+    infinitivo_pessoal: { ...conjugationFormsSchema, description: "Personal Infinitive (e.g., 'para eles falarem')." },
+    gerundio: { type: Type.STRING, description: "Gerund (e.g., 'falando')." },
+    participio: {
+        type: Type.ARRAY,
+        items: { type: Type.STRING },
+        description: "Past participle. For verbs with two participles, the regular one used with 'ter' first and the irregular one used with 'ser'/'estar' second (e.g., ['aceitado', 'aceito']).",
+    },
   },
   required: [
     "presente",
     "preterito_perfeito",
     "preterito_imperfeito",
+    "preterito_mais_que_perfeito",
     "preterito_perfeito_composto",
+    "preterito_mais_que_perfeito_composto",
     "futuro_do_presente",
     "futuro_do_preterito",
     "presente_do_subjuntivo",
-    "imperfeito_do_subjuntivo"
+    "imperfeito_do_subjuntivo",
+    "futuro_do_subjuntivo",
+    "imperativo_afirmativo",
+    "imperativo_negativo",
+    "infinitivo_pessoal",
+    "gerundio",
+    "participio"
   ],
 };
 
+const verbProfileSchema = {
+    type: Type.OBJECT,
+    properties: {
+        englishMeaning: { type: Type.STRING, description: "The main English meanings of the verb, e.g. 'to like; to enjoy'." },
+        frequencyRank: {
+            type: Type.INTEGER,
+            nullable: true,
+            description: "Approximate rank of the verb among the most frequent Portuguese verbs in everyday speech (1 = the most frequent). Null if it is not among the 1000 most frequent.",
+        },
+        isReflexive: { type: Type.BOOLEAN, description: "Whether the verb is commonly used reflexively, with the action falling on the subject (e.g. 'lavar-se')." },
+        isPronominal: { type: Type.BOOLEAN, description: "Whether the verb is commonly used with a pronoun that changes its meaning or is required (e.g. 'lembrar-se de', 'queixar-se')." },
+        pronominalForm: {
+            type: Type.STRING,
+            nullable: true,
+            description: "The infinitive with its pronoun (e.g. 'lembrar-se') if the verb is reflexive or pronominal. Null otherwise.",
+        },
+        prepositions: {
+            type: Type.ARRAY,
+            description: "The prepositions the verb commonly takes, one entry per construction (e.g. 'gostar de', 'pensar em'). Empty if it takes none.",
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    preposition: { type: Type.STRING, description: "The preposition alone, e.g. 'de'." },
+                    pattern: { type: Type.STRING, description: "The verb with the preposition, e.g. 'gostar de'." },
+                    meaning: { type: Type.STRING, description: "What the construction means in English." },
+                    example: { type: Type.STRING, description: "A natural example sentence in Portuguese." },
+                    exampleTranslation: { type: Type.STRING, description: "The English translation of the example." },
+                },
+                required: ["preposition", "pattern", "meaning", "example", "exampleTranslation"],
+            },
+        },
+        collocations: {
+            type: Type.ARRAY,
+            description: "3-5 common collocations or fixed expressions with the verb (e.g. 'fazer questão').",
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    portuguese: { type: Type.STRING },
+                    english: { type: Type.STRING },
+                },
+                required: ["portuguese", "english"],
+            },
+        },
+        derivedNouns: {
+            type: Type.ARRAY,
+            description: "Nouns derived from the verb, with their article (e.g. 'a conversa' from 'conversar'). Empty if there are none in common use.",
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    noun: { type: Type.STRING },
+                    english: { type: Type.STRING },
+                },
+                required: ["noun", "english"],
+            },
+        },
+    },
+    required: ["englishMeaning", "frequencyRank", "isReflexive", "isPronominal", "pronominalForm", "prepositions", "collocations", "derivedNouns"],
+};
+
 const examplesSchema = {
   type: Type.ARRAY,
   items: {
@@ -132,7 +286,7 @@ const examplesSchema = {
     properties: {
       portuguese: {
         type: Type.STRING,
-        description: "The example sentence in Brazilian Portuguese.",
+        description: "The example sentence in Portuguese.",
       },
       english: {
         type: Type.STRING,
@@ -148,7 +302,7 @@ const grammarParagraphSchema = {
     properties: {
         portugueseParagraph: {
             type: Type.STRING,
-            description: "A short, informal paragraph in Brazilian Portuguese about the theme, using the specified grammar topic.",
+            description: "A short, informal paragraph in Portuguese about the theme, using the specified grammar topic.",
         },
         englishTranslation: {
             type: Type.STRING,
@@ -166,7 +320,7 @@ const grammarParagraphSchema = {
 const grammarTheoryExampleSchema = {
     type: Type.OBJECT,
     properties: {
-        portuguese: { type: Type.STRING, description: "The example sentence in Brazilian Portuguese." },
+        portuguese: { type: Type.STRING, description: "The example sentence in Portuguese." },
         english: { type: Type.STRING, description: "The English translation of the sentence." },
         explanation: { type: Type.STRING, description: "Optional: A brief explanation of how the grammar topic is applied in this specific sentence." },
     },
@@ -209,16 +363,69 @@ const writtenDrillSchema = {
     },
   };
 
+const writingTaskListSchema = {
+    type: Type.ARRAY,
+    items: {
+        type: Type.OBJECT,
+        properties: {
+            kind: { type: Type.STRING, enum: ['translate', 'rewrite'] },
+            instruction: { type: Type.STRING, description: "What to do, in English, e.g. 'Translate into Portuguese.' or 'Put the verb in the imperfect subjunctive.'" },
+            source: { type: Type.STRING, description: "The English sentence to translate, or the Portuguese sentence to rewrite." },
+            modelAnswer: { type: Type.STRING, description: "A natural, correct Portuguese answer." },
+        },
+        required: ["kind", "instruction", "source", "modelAnswer"],
+    },
+};
+
+// Errors are tagged with the app's own grammar topics so that the feedback can link to them.
+const GRAMMAR_TOPIC_IDS = GRAMMAR_TOPIC_GROUPS.flatMap(group => group.topics.map(topic => topic.id));
+
+const writingAssessmentSchema = {
+    type: Type.OBJECT,
+    properties: {
+        isCorrect: { type: Type.BOOLEAN, description: "True if the answer has no errors." },
+        correctedSentence: { type: Type.STRING, description: "The learner's answer with the errors fixed and everything else left as it was. The answer itself if it is correct." },
+        errors: {
+            type: Type.ARRAY,
+            description: "One entry per error; empty if the answer is correct.",
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    original: { type: Type.STRING, description: "The wrong words exactly as the learner wrote them." },
+                    correction: { type: Type.STRING, description: "What they should be." },
+                    explanation: { type: Type.STRING, description: "A short explanation of the error in English." },
+                    topicId: { type: Type.STRING, enum: [...GRAMMAR_TOPIC_IDS, 'other'], description: "The grammar topic the error is about, or 'other' if none fits." },
+                },
+                required: ["original", "correction", "explanation", "topicId"],
+            },
+        },
+        comment: { type: Type.STRING, nullable: true, description: "A short note in English, e.g. a more natural way to say it. Null if there is nothing to add." },
+    },
+    required: ["isCorrect", "correctedSentence", "errors", "comment"],
+};
+
   const vocabularyItemSchema = {
     type: Type.OBJECT,
     properties: {
       portugueseWord: { type: Type.STRING },
       englishTranslation: { type: Type.STRING },
-      wordType: { type: Type.STRING, description: "e.g., 'noun (masculine)', 'verb', 'adjective', 'phrase'" },
-      exampleSentence: { type: Type.STRING, description: "A practical example sentence in Brazilian Portuguese using the word." },
+      partOfSpeech: { type: Type.STRING, enum: PARTS_OF_SPEECH, description: "Use 'phrase' for multi-word expressions." },
+      gender: { type: Type.STRING, enum: GENDERS, nullable: true, description: "The grammatical gender of nouns. Null for other parts of speech." },
+      plural: { type: Type.STRING, nullable: true, description: "The plural form of nouns and adjectives, e.g. 'os pães'. Null when there is none." },
+      ipa: { type: Type.STRING, nullable: true, description: "The IPA pronunciation in the requested variant, without slashes or brackets." },
+      register: { type: Type.STRING, enum: REGISTERS, description: "'neutral' unless the word is marked as formal, informal or slang." },
+      variant: { type: Type.STRING, enum: WORD_VARIANTS, description: "'both' if the word is used in Brazil and Portugal alike; otherwise the variant where it is used." },
+      synonyms: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Up to three common synonyms in Portuguese; empty if there are none." },
+      antonyms: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Up to three common antonyms in Portuguese; empty if there are none." },
+      exampleSentence: { type: Type.STRING, description: "A practical example sentence in Portuguese using the word." },
       exampleTranslation: { type: Type.STRING, description: "The English translation of the example sentence." },
+      variantNote: {
+        type: Type.STRING,
+        nullable: true,
+        description: "Where the other variant of Portuguese uses a different word or phrasing, a short note giving it (e.g. 'Portugal: autocarro'). Null otherwise.",
+      },
     },
-    required: ["portugueseWord", "englishTranslation", "wordType", "exampleSentence", "exampleTranslation"],
+    required: ["portugueseWord", "englishTranslation", "partOfSpeech", "gender", "plural", "ipa", "register", "variant", "synonyms", "antonyms", "exampleSentence", "exampleTranslation"],
   };
   
   const vocabularyListSchema = {
@@ -237,7 +444,7 @@ const writtenDrillSchema = {
           type: Type.OBJECT,
           properties: {
             speaker: { type: Type.STRING, description: "The role of the person speaking (e.g., 'You', 'Barista', 'Waiter', 'Friend'). Keep it simple." },
-            portuguese: { type: Type.STRING, description: "The phrase in Brazilian Portuguese." },
+            portuguese: { type: Type.STRING, description: "The phrase in Portuguese." },
             english: { type: Type.STRING, description: "The English translation of the phrase." },
           },
           required: ["speaker", "portuguese", "english"],
@@ -275,74 +482,141 @@ const functionalDomainSchema = {
     required: ['name', 'emoji', 'subtopics'],
 };
 
-export const validateVerb = async (verb: string): Promise<VerbValidationResult> => {
+export const validateVerb = async (verb: string, options: RequestOptions = {}): Promise<VerbValidationResult> => {
     try {
-        const result = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: `Is "${verb}" a valid infinitive verb in Brazilian Portuguese?`,
-            config: {
-                responseMimeType: 'application/json',
-                responseSchema: verbValidationSchema,
-            },
-        });
-        const json = JSON.parse(result.text);
+        const json = await generateValidated<VerbValidationResult>({
+            task: 'validate_verb',
+            params: { verb },
+            tier: 'fast',
+            prompt: `Is "${verb}" a valid infinitive verb in ${getVariantName()}?`,
+            schema: verbValidationSchema,
+        }, options);
         return json;
     } catch (error) {
         handleApiError(error);
     }
 };
 
-export const getConjugations = async (verb: string): Promise<ConjugationData> => {
-    if (conjugationCache.has(verb)) {
-        return conjugationCache.get(verb)!;
+// Set in vite.config.ts; on by default in development. Verbs the user opens are also sent to
+// the model in the background and any disagreement with the local engine is logged.
+const CROSS_CHECK_CONJUGATIONS = process.env.CONJUGATION_CROSS_CHECK === 'true';
+const crossCheckedVerbs = new Set<string>();
+
+const requestModelConjugations = (verb: string, options: RequestOptions): Promise<ConjugationData> =>
+    generateValidated<ConjugationData>({
+        task: 'conjugation',
+        params: { verb, variant: getLanguageVariant() },
+        tier: 'reasoning', // More complex task, use pro model
+        prompt: `Conjugate the verb "${verb}" in ${getVariantName()} for the following tenses: presente, pretérito perfeito, pretérito imperfeito, pretérito mais-que-perfeito (simple, and compound using 'ter'), pretérito perfeito composto (using 'ter'), futuro do presente, futuro do pretérito, presente do subjuntivo, imperfeito do subjuntivo, futuro do subjuntivo and infinitivo pessoal. Provide conjugations for eu, tu, você/ele/ela, nós, vós, and vocês/eles/elas. Also give the affirmative and negative imperative for tu, você, nós, vós and vocês, the gerúndio, and the particípio (both forms if the verb has two).`,
+        schema: conjugationSchema,
+    }, options);
+
+const crossCheckConjugations = async (verb: string, local: ConjugationData) => {
+    const key = getVariantCacheKey(verb.trim().toLowerCase());
+    if (crossCheckedVerbs.has(key)) return;
+    crossCheckedVerbs.add(key);
+
+    try {
+        const remote = await requestModelConjugations(verb, { priority: 'prefetch' });
+        const normalize = (form: unknown) => String(form).trim().toLowerCase().replace(/\s+/g, ' ');
+        const remoteForms: Record<string, string> = Object.fromEntries(flattenTable(remote));
+        const mismatches = flattenTable(local)
+            .filter(([path, form]) => normalize(form) !== normalize(remoteForms[path]))
+            .map(([path, form]) => `${path}: engine "${form}", model "${remoteForms[path]}"`);
+        if (mismatches.length > 0) {
+            console.warn(`Conjugation engine and model disagree on "${verb}":`, mismatches);
+        }
+    } catch (error) {
+        if (!isCancellation(error)) {
+            console.warn(`Could not cross-check the conjugations of "${verb}":`, error);
+        }
+    }
+};
+
+export const getConjugations = async (verb: string, options: RequestOptions = {}): Promise<ConjugationData> => {
+    // Regular and common irregular verbs are conjugated locally; only the rest need the model.
+    const local = conjugateVerb(verb, { variant: getLanguageVariant() });
+    if (local) {
+        if (CROSS_CHECK_CONJUGATIONS && options.priority !== 'prefetch') {
+            crossCheckConjugations(verb, local);
+        }
+        return local;
+    }
+
+    const cacheKey = getVariantCacheKey(verb);
+    const cached = await getCached(conjugationCache, cacheKey, conjugationSchema);
+    if (cached) {
+        return cached;
     }
 
     try {
-        const result = await ai.models.generateContent({
-            model: 'gemini-2.5-pro', // More complex task, use pro model
-            contents: `Conjugate the verb "${verb}" in Brazilian Portuguese for the following tenses: presente, pretérito perfeito, pretérito imperfeito, pretérito perfeito composto (using 'ter'), futuro do presente, futuro do pretérito, presente do subjuntivo, and imperfeito do subjuntivo. Provide conjugations for eu, você/ele/ela, nós, and vocês/eles/elas.`,
-            config: {
-                responseMimeType: 'application/json',
-                responseSchema: conjugationSchema,
-            },
-        });
+        const data = await requestModelConjugations(verb, options);
+        conjugationCache.set(cacheKey, data);
+        return data;
+    } catch (error) {
+        handleApiError(error);
+    }
+};
+
+// Conjugations that are available without a model call: from the engine or an earlier response.
+export const getLocalConjugations = async (verb: string): Promise<ConjugationData | undefined> =>
+    conjugateVerb(verb, { variant: getLanguageVariant() }) ?? getCached(conjugationCache, getVariantCacheKey(verb), conjugationSchema);
+
+// Verbs the model has conjugated for the current variant.
+export const getCachedConjugationVerbs = async (): Promise<string[]> => {
+    const prefix = getVariantCacheKey('');
+    const keys = await conjugationCache.keys();
+    return prefix
+        ? keys.filter(key => key.startsWith(prefix)).map(key => key.slice(prefix.length))
+        : keys.filter(key => !key.includes('|'));
+};
+
+export const getVerbProfile = async (verb: string, options: RequestOptions = {}): Promise<VerbProfile> => {
+    const cacheKey = getVariantCacheKey(verb.trim().toLowerCase());
+    const cached = await getCached(verbProfileCache, cacheKey, verbProfileSchema);
+    if (cached) {
+        return cached;
+    }
 
-        const data: ConjugationData = JSON.parse(result.text);
-        conjugationCache.set(verb, data);
-        saveCache(CONJUGATION_CACHE_KEY, conjugationCache);
+    try {
+        const data = await generateValidated<VerbProfile>({
+            task: 'verb_profile',
+            params: { verb },
+            tier: 'fast',
+            prompt: `Describe how the verb "${verb}" is used in ${getVariantName()}: its English meaning, how frequent it is, whether it is reflexive or pronominal, the prepositions it takes (with an example for each), its most common collocations and the nouns derived from it. Base usage and examples on how people speak in ${getVariantCountry()}.`,
+            schema: verbProfileSchema,
+        }, options);
+        verbProfileCache.set(cacheKey, data);
         return data;
     } catch (error) {
         handleApiError(error);
     }
 };
 
-export const getExamples = async (verb: string, form: string, existingExamples?: Example[]): Promise<Example[]> => {
-    const cacheKey = `${verb}-${form}`;
-    if (!existingExamples && exampleCache.has(cacheKey)) {
-        return exampleCache.get(cacheKey)!;
+export const getExamples = async (verb: string, form: string, existingExamples?: Example[], options: RequestOptions = {}): Promise<Example[]> => {
+    const cacheKey = getVariantCacheKey(`${verb}-${form}`);
+    const cached = existingExamples ? undefined : await getCached(exampleCache, cacheKey, examplesSchema);
+    if (cached) {
+        return cached;
     }
 
-    let prompt = `Provide 5 unique and practical example sentences in Brazilian Portuguese using the verb form "${form}" (from the verb "${verb}"). The sentences should be distinct from each other.`;
+    let prompt = `Provide 5 unique and practical example sentences in ${getVariantName()} using the verb form "${form}" (from the verb "${verb}"). The sentences should be distinct from each other.`;
     if (existingExamples && existingExamples.length > 0) {
         const existingPortuguese = existingExamples.map(e => `"${e.portuguese}"`).join(', ');
         prompt = `Provide 5 new and unique example sentences for the verb form "${form}" that are different from these: ${existingPortuguese}.`;
     }
 
     try {
-        const result = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: prompt,
-            config: {
-                responseMimeType: 'application/json',
-                responseSchema: examplesSchema,
-            },
-        });
-        
-        const data: Example[] = JSON.parse(result.text);
+        const data = await generateValidated<Example[]>({
+            task: 'examples',
+            params: { verb, form, exclude: (existingExamples || []).map(e => e.portuguese) },
+            tier: 'fast',
+            prompt,
+            schema: examplesSchema,
+        }, options);
 
         if (!existingExamples) {
             exampleCache.set(cacheKey, data);
-            saveCache(EXAMPLE_CACHE_KEY, exampleCache);
         }
 
         return data;
@@ -351,121 +625,156 @@ export const getExamples = async (verb: string, form: string, existingExamples?:
     }
 };
 
-export const getGeneralVerbExamples = async (verb: string, existingExamples?: Example[]): Promise<Example[]> => {
-    let prompt = `Provide 5 unique and practical example sentences in Brazilian Portuguese using the verb "${verb}" in various common tenses. The sentences should be distinct from each other.`;
+export const getGeneralVerbExamples = async (verb: string, existingExamples?: Example[], options: RequestOptions = {}): Promise<Example[]> => {
+    let prompt = `Provide 5 unique and practical example sentences in ${getVariantName()} using the verb "${verb}" in various common tenses. The sentences should be distinct from each other.`;
     if (existingExamples && existingExamples.length > 0) {
         const existingPortuguese = existingExamples.map(e => `"${e.portuguese}"`).join(', ');
         prompt = `Provide 5 new and unique example sentences for the verb "${verb}" that are different from these: ${existingPortuguese}. Use a variety of common tenses.`;
     }
 
     try {
-        const result = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: prompt,
-            config: {
-                responseMimeType: 'application/json',
-                responseSchema: examplesSchema,
-            },
-        });
-        
-        const data: Example[] = JSON.parse(result.text);
+        const data = await generateValidated<Example[]>({
+            task: 'examples',
+            params: { verb, form: verb, exclude: (existingExamples || []).map(e => e.portuguese) },
+            tier: 'fast',
+            prompt,
+            schema: examplesSchema,
+        }, options);
         return data;
     } catch (error) {
         handleApiError(error);
     }
 };
 
-export const getSpeech = async (text: string): Promise<string> => {
+export interface SpeechOptions extends RequestOptions {
+    voice?: string;
+}
+
+// Audio is served from the persistent audio cache when possible, so replays are free.
+export const getSpeech = async (text: string, options: SpeechOptions = {}): Promise<string> => {
+    const { voice } = options;
     try {
-        const response = await ai.models.generateContent({
-            model: "gemini-2.5-flash-preview-tts",
-            contents: [{ parts: [{ text }] }],
-            config: {
-                responseModalities: [Modality.AUDIO],
-                speechConfig: {
-                    voiceConfig: {
-                        prebuiltVoiceConfig: { voiceName: 'Kore' },
-                    },
-                },
-            },
-        });
-        const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-        if (!base64Audio) {
-            throw new Error("No audio data received from API.");
+        const provider = getProvider();
+        const cacheKey = getAudioCacheKey(provider.id, text, voice);
+        const cached = await getCachedAudio(cacheKey);
+        if (cached) {
+            return cached;
         }
-        return base64Audio;
+
+        const audio = await scheduleRequest(
+            { key: `speech:${cacheKey}`, priority: options.priority, signal: options.signal },
+            signal => withRetry(attemptSignal => provider.generateSpeech({ text, voice, signal: attemptSignal }), signal)
+        );
+        saveCachedAudio(cacheKey, audio);
+        return audio;
     } catch (error) {
         handleApiError(error);
     }
 };
 
-export const generateGrammarParagraph = async (topic: string, theme: string): Promise<GrammarParagraph> => {
-    const prompt = `Create a short, informal paragraph in modern, spoken Brazilian Portuguese about the theme "${theme || 'daily life'}" that clearly demonstrates the use of the grammar topic: "${topic}". The paragraph must sound natural and reflect how people actually speak in Brazil today. Also provide an English translation and an array of the specific words/phrases that are examples of the topic.`;
+export const generateGrammarParagraph = async (topic: string, theme: string, options: RequestOptions = {}): Promise<GrammarParagraph> => {
+    const prompt = `Create a short, informal paragraph in modern, spoken ${getVariantName()} about the theme "${theme || 'daily life'}" that clearly demonstrates the use of the grammar topic: "${topic}". The paragraph must sound natural and reflect how people actually speak in ${getVariantCountry()} today. Also provide an English translation and an array of the specific words/phrases that are examples of the topic.`;
 
     try {
-        const result = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: prompt,
-            config: {
-                responseMimeType: 'application/json',
-                responseSchema: grammarParagraphSchema,
-            },
-        });
-        
-        const data: GrammarParagraph = JSON.parse(result.text);
+        const data = await generateValidated<GrammarParagraph>({
+            task: 'grammar_paragraph',
+            params: { topic, theme },
+            tier: 'fast',
+            prompt,
+            schema: grammarParagraphSchema,
+        }, options);
         return data;
     } catch (error) {
         handleApiError(error);
     }
 };
 
-export const getGrammarTheory = async (topic: string): Promise<GrammarTheory> => {
-    const prompt = `Explain the grammar topic "${topic}" for a student of spoken Brazilian Portuguese. The explanation must focus on how this grammar is used in everyday, informal conversation in Brazil. If there's a difference between formal/written Portuguese and common spoken usage, you must highlight it. For example, for compound tenses, explain that the simple past is often preferred in speech for completed actions. All example sentences must be natural and reflect modern, spoken Brazilian Portuguese. Provide a clear explanation with rules and use cases, and give 3-4 distinct example sentences with English translations. Format the explanation for readability, using double asterisks for bolding key terms.`;
+export const getGrammarTheory = async (topic: string, options: RequestOptions = {}): Promise<GrammarTheory> => {
+    const prompt = `Explain the grammar topic "${topic}" for a student of spoken ${getVariantName()}. The explanation must focus on how this grammar is used in everyday, informal conversation in ${getVariantCountry()}. If there's a difference between formal/written Portuguese and common spoken usage, you must highlight it. For example, for compound tenses, explain that the simple past is often preferred in speech for completed actions. If ${getVariantName(getOtherVariant())} differs on this topic, in particular in where clitic pronouns go (e.g. "Chamo-me Ana" in Portugal, "Me chamo Ana" in Brazil), point out the difference. All example sentences must be natural and reflect modern, spoken ${getVariantName()}. Provide a clear explanation with rules and use cases, and give 3-4 distinct example sentences with English translations. Format the explanation for readability, using double asterisks for bolding key terms.`;
 
     try {
-        const result = await ai.models.generateContent({
-            model: 'gemini-2.5-pro', // Theory needs more reasoning
-            contents: prompt,
-            config: {
-                responseMimeType: 'application/json',
-                responseSchema: grammarTheorySchema,
-            },
-        });
-        
-        const data: GrammarTheory = JSON.parse(result.text);
+        const data = await generateValidated<GrammarTheory>({
+            task: 'grammar_theory',
+            params: { topic },
+            tier: 'reasoning', // Theory needs more reasoning
+            prompt,
+            schema: grammarTheorySchema,
+        }, options);
         return data;
     } catch (error) {
         handleApiError(error);
     }
 };
 
-export const generateWrittenDrills = async (topic: string, count: number): Promise<WrittenDrill[]> => {
-    const prompt = `Create ${count} written drill exercises for the grammar topic "${topic}". Each exercise must use natural, common, spoken Brazilian Portuguese. Each exercise should be a sentence with a blank '___', the correct answer for the blank, and an English hint (the full translated sentence). The drills should be varied and reflect everyday conversation.`;
+export const generateWrittenDrills = async (topic: string, count: number, options: RequestOptions = {}): Promise<WrittenDrill[]> => {
+    const prompt = `Create ${count} written drill exercises for the grammar topic "${topic}". Each exercise must use natural, common, spoken ${getVariantName()}. Each exercise should be a sentence with a blank '___', the correct answer for the blank, and an English hint (the full translated sentence). The drills should be varied and reflect everyday conversation.`;
 
     try {
-        const result = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: prompt,
-            config: {
-                responseMimeType: 'application/json',
-                responseSchema: writtenDrillSchema,
-            },
-        });
-        
-        const data: WrittenDrill[] = JSON.parse(result.text);
+        const data = await generateValidated<WrittenDrill[]>({
+            task: 'written_drills',
+            params: { topic, count },
+            tier: 'fast',
+            prompt,
+            schema: writtenDrillSchema,
+        }, options);
         return data;
     } catch (error) {
         handleApiError(error);
     }
 };
 
-export const getVocabularyForCategory = async (category: string, existingWords?: VocabularyItem[], wordsToExclude?: string[]): Promise<VocabularyItem[]> => {
-    const cacheKey = category;
-    if (!existingWords && !wordsToExclude && vocabularyCache.has(cacheKey)) {
-        return vocabularyCache.get(cacheKey)!;
+// Free writing: sentences to translate or rewrite, graded by the model rather than matched
+// against one answer.
+export const generateWritingTasks = async (topic: string, count: number, options: RequestOptions = {}): Promise<WritingTask[]> => {
+    const prompt = `Create ${count} free writing exercises in natural, common, spoken ${getVariantName()} for the grammar topic "${topic}". Mix two kinds: 'translate', where the learner translates an English sentence into Portuguese, and 'rewrite', where the learner rewrites a Portuguese sentence as the instruction says (e.g. "Put the verb in the imperfect subjunctive." or "Make the sentence negative."). Each sentence must need the grammar of the topic. Give the instruction in English, the sentence to translate or rewrite, and a model answer.`;
+
+    try {
+        const data = await generateValidated<WritingTask[]>({
+            task: 'writing_tasks',
+            params: { topic, count },
+            tier: 'fast',
+            prompt,
+            schema: writingTaskListSchema,
+        }, options);
+        return data;
+    } catch (error) {
+        handleApiError(error);
     }
+};
+
+export const assessWriting = async (topic: string, task: WritingTask, answer: string, options: RequestOptions = {}): Promise<WritingAssessment> => {
+    const topicList = GRAMMAR_TOPIC_GROUPS.flatMap(group => group.topics.map(t => `- ${t.id}: ${t.name}`)).join('\n');
+    const prompt = `A learner of ${getVariantName()} is practising the grammar topic "${topic}". The exercise was: "${task.instruction}" ${task.kind === 'translate' ? 'English sentence' : 'Sentence to rewrite'}: "${task.source}". One model answer is "${task.modelAnswer}".
 
-    let prompt = `Generate a list of 10 useful vocabulary items (words or short phrases) in Brazilian Portuguese for the category "${category}". For each item, provide the Portuguese word, its English translation, the word type (e.g., noun, verb), a practical example sentence in Portuguese, and the English translation of the example.`;
+The learner answered: "${answer}"
+
+Grade the answer. Accept any answer that is grammatical, natural in ${getVariantCountry()} and does what the exercise asks, even if it differs from the model answer (e.g. "tinha ido" instead of "fora", or a different but correct word order). Don't count capitalisation or punctuation as errors. For each error give the wrong words as written, the correction, a short explanation in English, and the grammar topic it is about from this list ('other' if none fits):
+${topicList}
+
+Return the learner's answer with only the errors corrected. If the answer is correct but could be said more naturally, say so in the comment.`;
+
+    try {
+        const data = await generateValidated<WritingAssessment>({
+            task: 'writing_assessment',
+            params: { topic, instruction: task.instruction, source: task.source, modelAnswer: task.modelAnswer, answer },
+            tier: 'reasoning',
+            prompt,
+            schema: writingAssessmentSchema,
+        }, options);
+        return data;
+    } catch (error) {
+        handleApiError(error);
+    }
+};
+
+export const getVocabularyForCategory = async (category: string, existingWords?: VocabularyItem[], wordsToExclude?: string[], options: RequestOptions = {}): Promise<VocabularyItem[]> => {
+    const cacheKey = getVariantCacheKey(category);
+    const cached = existingWords || wordsToExclude ? undefined : await getCached(vocabularyCache, cacheKey, vocabularyListSchema);
+    if (cached) {
+        return cached;
+    }
+
+    let prompt = `Generate a list of 10 useful vocabulary items (words or short phrases) in ${getVariantName()} for the category "${category}". For each item, provide the Portuguese word, its English translation, its part of speech, the gender and plural of nouns, the IPA pronunciation as spoken in ${getVariantCountry()}, its register (formal, neutral, informal or slang), whether it is used in Brazil, Portugal or both, up to three synonyms and antonyms, a practical example sentence in Portuguese, and the English translation of the example. If ${getVariantName(getOtherVariant())} uses a different word or phrasing, give it in variantNote; otherwise set variantNote to null.`;
     
     const exclusions = new Set(wordsToExclude || []);
     if (existingWords) {
@@ -478,20 +787,16 @@ export const getVocabularyForCategory = async (category: string, existingWords?:
     }
 
     try {
-        const result = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: prompt,
-            config: {
-                responseMimeType: 'application/json',
-                responseSchema: vocabularyListSchema,
-            },
-        });
-        
-        const data: VocabularyItem[] = JSON.parse(result.text);
+        const data = await generateValidated<VocabularyItem[]>({
+            task: 'vocabulary',
+            params: { category, exclude: Array.from(exclusions) },
+            tier: 'fast',
+            prompt,
+            schema: vocabularyListSchema,
+        }, options);
 
         if (!existingWords && !wordsToExclude) {
             vocabularyCache.set(cacheKey, data);
-            saveCache(VOCABULARY_CACHE_KEY, vocabularyCache);
         }
 
         return data;
@@ -500,56 +805,80 @@ export const getVocabularyForCategory = async (category: string, existingWords?:
     }
 };
 
-export const generateGrammarExamplesBatch = async (topic: string, count: number, existingExamples?: Example[]): Promise<Example[]> => {
-    let prompt = `Generate ${count} distinct example sentences in modern, spoken Brazilian Portuguese that clearly demonstrate the grammar topic: "${topic}". The sentences must sound natural and reflect how people actually talk in Brazil, avoiding overly formal or literary constructions. Provide an English translation for each sentence.`;
+// Words are sent in batches so that long imported lists still get complete replies.
+const VOCABULARY_COMPLETION_BATCH_SIZE = 20;
+
+// Fills in the word type and an example sentence for words the user brought in themselves,
+// e.g. from an imported word list. Match the results to the words by portugueseWord, since
+// the model may leave some out.
+export const completeVocabularyItems = async (words: Pick<VocabularyItem, 'portugueseWord' | 'englishTranslation'>[], options: RequestOptions = {}): Promise<VocabularyItem[]> => {
+    const batches: Pick<VocabularyItem, 'portugueseWord' | 'englishTranslation'>[][] = [];
+    for (let i = 0; i < words.length; i += VOCABULARY_COMPLETION_BATCH_SIZE) {
+        batches.push(words.slice(i, i + VOCABULARY_COMPLETION_BATCH_SIZE));
+    }
+
+    try {
+        const results = await Promise.all(batches.map(batch => {
+            const wordList = batch.map(word => `- ${word.portugueseWord} (${word.englishTranslation})`).join('\n');
+            const prompt = `For each of the following ${getVariantName()} words or phrases, give its part of speech, the gender and plural of nouns, the IPA pronunciation as spoken in ${getVariantCountry()}, its register, whether it is used in Brazil, Portugal or both, up to three synonyms and antonyms, a practical example sentence in ${getVariantName()} that uses it, and the English translation of the example. Return the Portuguese word and its English translation exactly as given, in the same order. If ${getVariantName(getOtherVariant())} uses a different word or phrasing, give it in variantNote; otherwise set variantNote to null.\n\n${wordList}`;
+            return generateValidated<VocabularyItem[]>({
+                task: 'vocabulary_completion',
+                params: { words: batch.map(word => word.portugueseWord), translations: batch.map(word => word.englishTranslation) },
+                tier: 'fast',
+                prompt,
+                schema: vocabularyListSchema,
+            }, options);
+        }));
+        return results.flat();
+    } catch (error) {
+        handleApiError(error);
+    }
+};
+
+export const generateGrammarExamplesBatch = async (topic: string, count: number, existingExamples?: Example[], options: RequestOptions = {}): Promise<Example[]> => {
+    let prompt = `Generate ${count} distinct example sentences in modern, spoken ${getVariantName()} that clearly demonstrate the grammar topic: "${topic}". The sentences must sound natural and reflect how people actually talk in ${getVariantCountry()}, avoiding overly formal or literary constructions. Provide an English translation for each sentence.`;
     if (existingExamples && existingExamples.length > 0) {
         const existingPortuguese = existingExamples.map(e => `"${e.portuguese}"`).join(', ');
         prompt += `\n\nThe new sentences must be different from these: ${existingPortuguese}.`;
     }
 
     try {
-        const result = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: prompt,
-            config: {
-                responseMimeType: 'application/json',
-                responseSchema: examplesSchema,
-            },
-        });
-        
-        const data: Example[] = JSON.parse(result.text);
+        const data = await generateValidated<Example[]>({
+            task: 'grammar_examples',
+            params: { topic, count, exclude: (existingExamples || []).map(e => e.portuguese) },
+            tier: 'fast',
+            prompt,
+            schema: examplesSchema,
+        }, options);
         return data;
     } catch (error) {
         handleApiError(error);
     }
 };
 
-export const getFunctionalScene = async (domain: string, subtopic: string, func: string, existingScene?: FunctionalScene): Promise<FunctionalScene> => {
-    const cacheKey = `${domain}-${subtopic}-${func}`;
-    if (!existingScene && functionalSceneCache.has(cacheKey)) {
-        return functionalSceneCache.get(cacheKey)!;
+export const getFunctionalScene = async (domain: string, subtopic: string, func: string, existingScene?: FunctionalScene, options: RequestOptions = {}): Promise<FunctionalScene> => {
+    const cacheKey = getVariantCacheKey(`${domain}-${subtopic}-${func}`);
+    const cached = existingScene ? undefined : await getCached(functionalSceneCache, cacheKey, functionalSceneSchema);
+    if (cached) {
+        return cached;
     }
 
-    let prompt = `Create a short, practical conversation or scene in Brazilian Portuguese that demonstrates the language function: "${func}". This function belongs to the subtopic "${subtopic}" and the main domain "${domain}". The scene should include 4-6 phrases, alternating between simple speaker roles (e.g., 'You', 'Waiter'). Provide a simple title and one-sentence description for the scene.`;
+    let prompt = `Create a short, practical conversation or scene in ${getVariantName()} that demonstrates the language function: "${func}". This function belongs to the subtopic "${subtopic}" and the main domain "${domain}". The scene should include 4-6 phrases, alternating between simple speaker roles (e.g., 'You', 'Waiter'). Provide a simple title and one-sentence description for the scene.`;
     if (existingScene) {
         prompt = `Generate a new, different scene for the language function "${func}" within the topic "${subtopic}". The new scene should be distinct from a previous one which had the title "${existingScene.sceneTitle}".`;
     }
     
     try {
-        const result = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: prompt,
-            config: {
-                responseMimeType: 'application/json',
-                responseSchema: functionalSceneSchema,
-            },
-        });
-        
-        const data: FunctionalScene = JSON.parse(result.text);
+        const data = await generateValidated<FunctionalScene>({
+            task: 'functional_scene',
+            params: { domain, subtopic, func, previousTitle: existingScene?.sceneTitle ?? '' },
+            tier: 'fast',
+            prompt,
+            schema: functionalSceneSchema,
+        }, options);
 
         if (!existingScene) {
             functionalSceneCache.set(cacheKey, data);
-            saveCache(FUNCTIONAL_SCENE_CACHE_KEY, functionalSceneCache);
         }
 
         return data;
@@ -558,48 +887,54 @@ export const getFunctionalScene = async (domain: string, subtopic: string, func:
     }
 };
 
-export const generateFunctionalDomain = async (topic: string): Promise<Omit<FunctionalDomain, 'id' | 'isCustom'>> => {
+export const generateFunctionalDomain = async (topic: string, options: RequestOptions = {}): Promise<Omit<FunctionalDomain, 'id' | 'isCustom'>> => {
     const prompt = `Analyze the user-provided topic "${topic}" and structure it as a functional language domain. Create a concise name, a single relevant emoji, and 2-4 logical subtopics. For each subtopic, provide a name and a list of 3-5 specific, practical language functions.`;
 
     try {
-        const result = await ai.models.generateContent({
-            model: 'gemini-2.5-pro',
-            contents: prompt,
-            config: {
-                responseMimeType: 'application/json',
-                responseSchema: functionalDomainSchema,
-            },
-        });
-        
-        const data: Omit<FunctionalDomain, 'id' | 'isCustom'> = JSON.parse(result.text);
+        const data = await generateValidated<Omit<FunctionalDomain, 'id' | 'isCustom'>>({
+            task: 'functional_domain',
+            params: { topic },
+            tier: 'reasoning',
+            prompt,
+            schema: functionalDomainSchema,
+        }, options);
         return data;
     } catch (error) {
         handleApiError(error);
     }
 };
 
-export const startChat = async (topic: string): Promise<Omit<ChatMessage, 'id' | 'sender'>> => {
-    const systemInstruction = `You are a friendly and patient Portuguese language tutor. You are starting a conversation with a student about the topic: "${topic}". Your goal is to help them practice. Start with a simple opening question or statement in Portuguese to begin the conversation. Keep your responses relatively short. Also provide an English translation of your response.`;
+interface ChatReplyResponse {
+    correction: { portuguese: string; english: string } | null;
+    portugueseResponse: string;
+    englishTranslation: string;
+}
+
+const toChatTurns = (history: ChatMessage[]): ChatTurn[] =>
+    history.map(msg => ({
+        role: msg.sender === 'user' ? 'user' : 'model',
+        text: msg.portuguese,
+    }));
+
+export const startChat = async (topic: string, options: RequestOptions = {}): Promise<Omit<ChatMessage, 'id' | 'sender'>> => {
+    const systemInstruction = `You are a friendly and patient tutor of ${getVariantName()}. You are starting a conversation with a student about the topic: "${topic}". Your goal is to help them practice. Start with a simple opening question or statement in Portuguese to begin the conversation. Keep your responses relatively short. Also provide an English translation of your response.`;
 
     try {
-        const result = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: 'Start the conversation.',
-            config: {
-                systemInstruction,
-                responseMimeType: 'application/json',
-                responseSchema: {
-                    type: Type.OBJECT,
-                    properties: {
-                        portuguese: { type: Type.STRING },
-                        english: { type: Type.STRING },
-                    },
-                    required: ['portuguese', 'english'],
+        const data = await generateValidated<Omit<ChatMessage, 'id' | 'sender'>>({
+            task: 'chat_start',
+            params: { topic },
+            tier: 'fast',
+            prompt: 'Start the conversation.',
+            systemInstruction,
+            schema: {
+                type: Type.OBJECT,
+                properties: {
+                    portuguese: { type: Type.STRING },
+                    english: { type: Type.STRING },
                 },
+                required: ['portuguese', 'english'],
             },
-        });
-        
-        const data: Omit<ChatMessage, 'id' | 'sender'> = JSON.parse(result.text);
+        }, options);
         return data;
     } catch (error) {
         handleApiError(error);
@@ -608,48 +943,41 @@ export const startChat = async (topic: string): Promise<Omit<ChatMessage, 'id' |
 
 export async function* getChatResponseStream(
     history: ChatMessage[],
-    userMessage: string
+    userMessage: string,
+    options: RequestOptions = {}
 ): AsyncGenerator<ChatStreamEvent> {
-    const systemInstruction = `You are a friendly and patient Portuguese language tutor. Your goal is to help the user practice Portuguese.
-1. First, analyze the user's last message ("${userMessage}"). If it contains grammatical errors, provide a correction. If it's correct, the correction is null.
-2. Then, provide a natural, conversational response in Portuguese.
+    const systemInstruction = `You are a friendly and patient tutor of ${getVariantName()}. Your goal is to help the user practice Portuguese.
+1. First, analyze the user's last message ("${userMessage}"). If it contains grammatical errors, provide a correction. Vocabulary and clitic placement that are normal in ${getVariantName()} are correct. If it's correct, the correction is null.
+2. Then, provide a natural, conversational response in ${getVariantName()}.
 3. Finally, provide the English translation of your Portuguese response.
 Your entire output MUST be a single JSON object with three keys: "correction" (object with "portuguese" and "english" strings, or null), "portugueseResponse" (string), and "englishTranslation" (string).
 Do not add any text outside of this JSON object.`;
 
-    const contents = history.map(msg => ({
-        role: msg.sender === 'user' ? 'user' : 'model',
-        parts: [{ text: msg.portuguese }],
-    }));
-
     try {
-        const result = await ai.models.generateContent({
-            model: 'gemini-2.5-pro',
-            contents,
-            config: {
-                systemInstruction,
-                responseMimeType: 'application/json',
-                responseSchema: {
-                    type: Type.OBJECT,
-                    properties: {
-                        correction: {
-                            type: Type.OBJECT,
-                            nullable: true,
-                            properties: {
-                                portuguese: { type: Type.STRING },
-                                english: { type: Type.STRING },
-                            },
-                            required: ['portuguese', 'english'],
+        const responseJson = await chatValidated<ChatReplyResponse>({
+            task: 'chat_reply',
+            params: { userMessage },
+            tier: 'reasoning',
+            history: toChatTurns(history),
+            systemInstruction,
+            schema: {
+                type: Type.OBJECT,
+                properties: {
+                    correction: {
+                        type: Type.OBJECT,
+                        nullable: true,
+                        properties: {
+                            portuguese: { type: Type.STRING },
+                            english: { type: Type.STRING },
                         },
-                        portugueseResponse: { type: Type.STRING },
-                        englishTranslation: { type: Type.STRING },
+                        required: ['portuguese', 'english'],
                     },
-                    required: ['correction', 'portugueseResponse', 'englishTranslation'],
-                }
+                    portugueseResponse: { type: Type.STRING },
+                    englishTranslation: { type: Type.STRING },
+                },
+                required: ['correction', 'portugueseResponse', 'englishTranslation'],
             },
-        });
-
-        const responseJson = JSON.parse(result.text);
+        }, options);
 
         const { correction, portugueseResponse, englishTranslation } = responseJson;
 
@@ -658,6 +986,9 @@ Do not add any text outside of this JSON object.`;
         const chunks = portugueseResponse.match(/.{1,10}/g) || [portugueseResponse];
         for (const chunk of chunks) {
             await new Promise(res => setTimeout(res, 50));
+            if (options.signal?.aborted) {
+                throw new RequestCancelledError(options.signal.reason);
+            }
             yield { type: 'portuguese_chunk', chunk };
         }
 
@@ -668,32 +999,23 @@ Do not add any text outside of this JSON object.`;
     }
 }
 
-export const getSuggestedResponse = async (history: ChatMessage[]): Promise<{ portuguese: string }> => {
-    const systemInstruction = `You are an AI assistant helping a Portuguese learner. Based on the conversation history, suggest a logical, simple, and relevant response that the user could say next. The suggestion should be in Portuguese.`;
-    
-    const contents = history.map(msg => ({
-        role: msg.sender === 'user' ? 'user' : 'model',
-        parts: [{ text: msg.portuguese }],
-    }));
+export const getSuggestedResponse = async (history: ChatMessage[], options: RequestOptions = {}): Promise<{ portuguese: string }> => {
+    const systemInstruction = `You are an AI assistant helping a Portuguese learner. Based on the conversation history, suggest a logical, simple, and relevant response that the user could say next. The suggestion should be in ${getVariantName()}.`;
 
     try {
-        const result = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: [...contents, { role: 'user', parts: [{ text: 'What could I say next?' }] }],
-            config: {
-                systemInstruction,
-                responseMimeType: 'application/json',
-                responseSchema: {
-                    type: Type.OBJECT,
-                    properties: {
-                        portuguese: { type: Type.STRING, description: 'A suggested response in Portuguese.' },
-                    },
-                    required: ['portuguese'],
+        const data = await chatValidated<{ portuguese: string }>({
+            task: 'chat_suggestion',
+            tier: 'fast',
+            history: [...toChatTurns(history), { role: 'user', text: 'What could I say next?' }],
+            systemInstruction,
+            schema: {
+                type: Type.OBJECT,
+                properties: {
+                    portuguese: { type: Type.STRING, description: 'A suggested response in Portuguese.' },
                 },
+                required: ['portuguese'],
             },
-        });
-        
-        const data: { portuguese: string } = JSON.parse(result.text);
+        }, options);
         data.portuguese = data.portuguese.replace(/^"|"$/g, '');
         return data;
     } catch (error) {
@@ -0,0 +1,29 @@
+import type { LanguageVariant } from '../types';
+
+// The variant of Portuguese the learner has chosen. Prompts are written for it and cached
+// responses are kept apart per variant, since sentences and vocabulary differ between them.
+
+export const LANGUAGE_VARIANTS: Record<LanguageVariant, { label: string; name: string; country: string }> = {
+    'pt-BR': { label: 'Brazil (pt-BR)', name: 'Brazilian Portuguese', country: 'Brazil' },
+    'pt-PT': { label: 'Portugal (pt-PT)', name: 'European Portuguese', country: 'Portugal' },
+};
+
+let currentVariant: LanguageVariant = 'pt-BR';
+
+export const getLanguageVariant = (): LanguageVariant => currentVariant;
+
+export const setLanguageVariant = (variant: LanguageVariant) => {
+    currentVariant = variant;
+};
+
+export const getOtherVariant = (variant: LanguageVariant = currentVariant): LanguageVariant =>
+    variant === 'pt-BR' ? 'pt-PT' : 'pt-BR';
+
+// e.g. "Brazilian Portuguese", for use in prompts.
+export const getVariantName = (variant: LanguageVariant = currentVariant): string => LANGUAGE_VARIANTS[variant].name;
+
+export const getVariantCountry = (variant: LanguageVariant = currentVariant): string => LANGUAGE_VARIANTS[variant].country;
+
+// Brazilian Portuguese keeps the unprefixed keys it was cached under before variants existed.
+export const getVariantCacheKey = (key: string, variant: LanguageVariant = currentVariant): string =>
+    variant === 'pt-BR' ? key : `${variant}|${key}`;
@@ -0,0 +1,61 @@
+import type { LearnerProfile, ProfilesState } from '../types';
+import { isPlainObject } from '../utils/typeGuards';
+
+// Learner profiles let several people share one browser. Every stored record is kept once
+// per profile; AI caches don't depend on the learner and are shared by all of them.
+
+export const DEFAULT_PROFILE_ID = 'default';
+const DEFAULT_PROFILE_NAME = 'Learner 1';
+
+let currentProfileId = DEFAULT_PROFILE_ID;
+
+export const getActiveProfileId = (): string => currentProfileId;
+
+// Records are read for the active profile, so this is set before anything is rendered.
+export const setActiveProfileId = (profileId: string) => {
+    currentProfileId = profileId;
+};
+
+// The first profile keeps the unprefixed keys its data was saved under before profiles existed.
+export const getProfileStorageKey = (key: string, profileId: string = currentProfileId): string =>
+    profileId === DEFAULT_PROFILE_ID ? key : `${key}|${profileId}`;
+
+// --- Profile list ---
+
+export const createProfilesState = (): ProfilesState => ({
+    profiles: [{ id: DEFAULT_PROFILE_ID, name: DEFAULT_PROFILE_NAME, createdAt: Date.now() }],
+    activeProfileId: DEFAULT_PROFILE_ID,
+});
+
+export const isProfilesState = (value: unknown): value is ProfilesState => {
+    if (!isPlainObject(value)) return false;
+    const { profiles, activeProfileId } = value;
+    return Array.isArray(profiles) && profiles.length > 0 && typeof activeProfileId === 'string' &&
+        profiles.every((profile: unknown) =>
+            isPlainObject(profile) && typeof profile.id === 'string' && typeof profile.name === 'string' && typeof profile.createdAt === 'number'
+        );
+};
+
+export const getActiveProfile = (state: ProfilesState): LearnerProfile =>
+    state.profiles.find(profile => profile.id === state.activeProfileId) ?? state.profiles[0];
+
+// The new profile becomes the active one.
+export const addProfile = (state: ProfilesState, name: string): ProfilesState => {
+    const profile: LearnerProfile = { id: `profile-${Date.now()}`, name: name.trim() || DEFAULT_PROFILE_NAME, createdAt: Date.now() };
+    return { profiles: [...state.profiles, profile], activeProfileId: profile.id };
+};
+
+export const renameProfile = (state: ProfilesState, profileId: string, name: string): ProfilesState =>
+    name.trim()
+        ? { ...state, profiles: state.profiles.map(profile => profile.id === profileId ? { ...profile, name: name.trim() } : profile) }
+        : state;
+
+// The last profile can't be deleted.
+export const deleteProfile = (state: ProfilesState, profileId: string): ProfilesState => {
+    if (state.profiles.length <= 1) return state;
+    const profiles = state.profiles.filter(profile => profile.id !== profileId);
+    return {
+        profiles,
+        activeProfileId: state.activeProfileId === profileId ? profiles[0].id : state.activeProfileId,
+    };
+};
@@ -0,0 +1,91 @@
+import { GoogleGenAI, Modality, FinishReason } from "@google/genai";
+import type { GenerateContentResponse } from "@google/genai";
+import type { LanguageModelProvider, ModelTier } from '../aiProvider';
+import { SafetyBlockedError } from '../aiErrors';
+
+const MODELS: Record<ModelTier, string> = {
+    fast: 'gemini-2.5-flash',
+    reasoning: 'gemini-2.5-pro',
+};
+
+const TTS_MODEL = 'gemini-2.5-flash-preview-tts';
+const DEFAULT_VOICE = 'Kore';
+
+// A blocked prompt or answer comes back as a successful response with no text.
+const getText = (result: GenerateContentResponse): string => {
+    const finishReason = result.candidates?.[0]?.finishReason;
+    if (result.promptFeedback?.blockReason || finishReason === FinishReason.SAFETY || finishReason === FinishReason.PROHIBITED_CONTENT) {
+        throw new SafetyBlockedError(result.promptFeedback?.blockReasonMessage ?? finishReason);
+    }
+    return result.text ?? '';
+};
+
+export const createGeminiProvider = (apiKey: string | undefined = process.env.API_KEY): LanguageModelProvider => {
+    let client: GoogleGenAI | null = null;
+
+    const getClient = (): GoogleGenAI => {
+        if (!apiKey) {
+            throw new Error("API_KEY environment variable is not set");
+        }
+        if (!client) {
+            client = new GoogleGenAI({ apiKey });
+        }
+        return client;
+    };
+
+    return {
+        id: 'gemini',
+
+        generateStructured: async ({ tier, prompt, schema, systemInstruction, signal }) => {
+            const result = await getClient().models.generateContent({
+                model: MODELS[tier],
+                contents: prompt,
+                config: {
+                    systemInstruction,
+                    responseMimeType: 'application/json',
+                    responseSchema: schema,
+                    abortSignal: signal,
+                },
+            });
+            return getText(result);
+        },
+
+        chat: async ({ tier, history, schema, systemInstruction, signal }) => {
+            const result = await getClient().models.generateContent({
+                model: MODELS[tier],
+                contents: history.map(turn => ({
+                    role: turn.role,
+                    parts: [{ text: turn.text }],
+                })),
+                config: {
+                    systemInstruction,
+                    responseMimeType: 'application/json',
+                    responseSchema: schema,
+                    abortSignal: signal,
+                },
+            });
+            return getText(result);
+        },
+
+        generateSpeech: async ({ text, voice = DEFAULT_VOICE, signal }) => {
+            const response = await getClient().models.generateContent({
+                model: TTS_MODEL,
+                contents: [{ parts: [{ text }] }],
+                config: {
+                    responseModalities: [Modality.AUDIO],
+                    abortSignal: signal,
+                    speechConfig: {
+                        voiceConfig: {
+                            prebuiltVoiceConfig: { voiceName: voice },
+                        },
+                    },
+                },
+            });
+            const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+            if (!base64Audio) {
+                throw new Error("No audio data received from API.");
+            }
+            return base64Audio;
+        },
+    };
+};
@@ -0,0 +1,229 @@
+import type { AiTask, LanguageModelProvider, RequestParams } from '../aiProvider';
+import { encode } from '../../utils/audio';
+import { conjugateVerb } from '../../utils/conjugationEngine';
+import { gradeAnswer } from '../../utils/answerGrading';
+import { GRAMMAR_TOPIC_GROUPS } from '../../constants';
+import corpus from './mockCorpus.json';
+
+// Offline provider that answers every request from mockCorpus.json (conjugations come from
+// the local conjugation engine), so the UI can be developed and demoed without an API key
+// or network. Responses are deterministic: the same request always yields the same fixture.
+
+interface MockProviderOptions {
+    latencyMs?: number;
+    speech?: 'beep' | 'silent';
+}
+
+const SAMPLE_RATE = 24000;
+const SPEECH_SECONDS = 0.4;
+const VOCABULARY_SET_SIZE = 10;
+
+// Small, stable string hash (FNV-1a) used to pick fixtures deterministically.
+const hashString = (value: string): number => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+};
+
+const pick = <T,>(items: T[], seed: string): T => items[hashString(seed) % items.length];
+
+// Rotates a list by a seed-dependent offset so different requests start at different fixtures.
+const rotate = <T,>(items: T[], seed: string): T[] => {
+    const offset = hashString(seed) % items.length;
+    return [...items.slice(offset), ...items.slice(0, offset)];
+};
+
+// Takes `count` items, preferring ones that haven't been excluded and repeating if the corpus is short.
+const takeFresh = <T,>(items: T[], count: number, isExcluded: (item: T) => boolean = () => false): T[] => {
+    const ordered = [...items.filter(item => !isExcluded(item)), ...items.filter(isExcluded)];
+    return Array.from({ length: count }, (_, i) => ordered[i % ordered.length]);
+};
+
+// Replaces {placeholders} in every string of a fixture with the request params.
+const fillTemplate = <T,>(value: T, params: RequestParams): T => {
+    if (typeof value === 'string') {
+        return value.replace(/\{(\w+)\}/g, (match, key) => {
+            const param = params[key];
+            return typeof param === 'string' || typeof param === 'number' ? String(param) : match;
+        }) as T;
+    }
+    if (Array.isArray(value)) {
+        return value.map(item => fillTemplate(item, params)) as T;
+    }
+    if (value && typeof value === 'object') {
+        return Object.fromEntries(
+            Object.entries(value).map(([key, item]) => [key, fillTemplate(item, params)])
+        ) as T;
+    }
+    return value;
+};
+
+const stringParam = (params: RequestParams, key: string): string => {
+    const value = params[key];
+    return typeof value === 'string' ? value : '';
+};
+
+const listParam = (params: RequestParams, key: string): string[] => {
+    const value = params[key];
+    return Array.isArray(value) ? value : [];
+};
+
+const stripPunctuation = (text: string) => text.replace(/[.,;:!?"]+/g, '');
+
+// --- Fixture lookup ---
+
+const respond = (task: AiTask, params: RequestParams, turnCount: number): unknown => {
+    switch (task) {
+        case 'validate_verb': {
+            const verb = stringParam(params, 'verb');
+            const isValid = /(ar|er|ir|or|ôr)$/i.test(verb);
+            return {
+                isValid,
+                reason: isValid ? null : 'In offline mode, only words ending in -ar, -er, -ir or -or are accepted as verbs.',
+            };
+        }
+        case 'conjugation': {
+            // The local engine already covers the common verbs, so anything else is
+            // conjugated as if it were regular; good enough for offline demos.
+            const verb = stringParam(params, 'verb');
+            const variant = params.variant === 'pt-PT' ? 'pt-PT' : 'pt-BR';
+            const conjugated = conjugateVerb(verb, { assumeRegular: true, variant });
+            if (!conjugated) throw new Error(`The mock provider can't conjugate "${verb}".`);
+            return conjugated;
+        }
+        case 'verb_profile':
+            return fillTemplate(corpus.verbProfile, params);
+        case 'examples': {
+            const exclude = listParam(params, 'exclude');
+            const sets = corpus.examples.map(set => fillTemplate(set, params));
+            const fresh = sets.filter(set => !set.some(example => exclude.includes(example.portuguese)));
+            return pick(fresh.length > 0 ? fresh : sets, `${params.verb}-${params.form}`);
+        }
+        case 'grammar_paragraph':
+            return pick(corpus.grammarParagraphs, `${params.topic}-${params.theme}`);
+        case 'grammar_theory':
+            return fillTemplate(corpus.grammarTheory, params);
+        case 'written_drills': {
+            const count = Number(params.count) || VOCABULARY_SET_SIZE;
+            return takeFresh(rotate(corpus.writtenDrills, stringParam(params, 'topic')), count);
+        }
+        case 'writing_tasks': {
+            const count = Number(params.count) || VOCABULARY_SET_SIZE;
+            return takeFresh(rotate(corpus.writingTasks, stringParam(params, 'topic')), count);
+        }
+        case 'writing_assessment': {
+            // Nothing can judge alternative answers offline, so the answer is only compared
+            // with the model answer, ignoring punctuation.
+            const answer = stringParam(params, 'answer').trim();
+            const modelAnswer = stringParam(params, 'modelAnswer');
+            const { verdict } = gradeAnswer(stripPunctuation(answer), stripPunctuation(modelAnswer));
+            if (verdict === 'exact') {
+                return { isCorrect: true, correctedSentence: answer, errors: [], comment: null };
+            }
+            const topic = GRAMMAR_TOPIC_GROUPS.flatMap(group => group.topics).find(t => t.name === params.topic);
+            return {
+                isCorrect: false,
+                correctedSentence: modelAnswer,
+                errors: [{
+                    original: answer,
+                    correction: modelAnswer,
+                    explanation: verdict === 'accent' ? 'Check the accents.' : 'In offline mode, answers are only compared with the model answer.',
+                    topicId: topic?.id ?? 'other',
+                }],
+                comment: null,
+            };
+        }
+        case 'grammar_examples': {
+            const count = Number(params.count) || VOCABULARY_SET_SIZE;
+            const exclude = listParam(params, 'exclude');
+            return takeFresh(rotate(corpus.grammarExamples, stringParam(params, 'topic')), count, example => exclude.includes(example.portuguese));
+        }
+        case 'vocabulary': {
+            const exclude = listParam(params, 'exclude');
+            const items = rotate(corpus.vocabulary, stringParam(params, 'category'));
+            return items.filter(item => !exclude.includes(item.portugueseWord)).slice(0, VOCABULARY_SET_SIZE);
+        }
+        case 'vocabulary_completion': {
+            const translations = listParam(params, 'translations');
+            return listParam(params, 'words').map((word, i) => ({
+                portugueseWord: word,
+                englishTranslation: translations[i] ?? '',
+                partOfSpeech: 'phrase',
+                gender: null,
+                plural: null,
+                ipa: null,
+                register: 'neutral',
+                variant: 'both',
+                synonyms: [],
+                antonyms: [],
+                exampleSentence: `Hoje aprendi a palavra "${word}".`,
+                exampleTranslation: `Today I learned the word "${translations[i] ?? word}".`,
+                variantNote: null,
+            }));
+        }
+        case 'functional_scene': {
+            const scenes = corpus.functionalScenes.map(scene => fillTemplate(scene, params));
+            const fresh = scenes.filter(scene => scene.sceneTitle !== params.previousTitle);
+            return pick(fresh.length > 0 ? fresh : scenes, `${params.subtopic}-${params.func}-${params.previousTitle}`);
+        }
+        case 'functional_domain':
+            return fillTemplate(corpus.functionalDomain, params);
+        case 'chat_start':
+            return fillTemplate(pick(corpus.chat.openers, stringParam(params, 'topic')), params);
+        case 'chat_reply':
+            return corpus.chat.replies[turnCount % corpus.chat.replies.length];
+        case 'chat_suggestion':
+            return corpus.chat.suggestions[turnCount % corpus.chat.suggestions.length];
+        default:
+            throw new Error(`The mock provider has no fixture for task "${task}".`);
+    }
+};
+
+// --- Speech ---
+
+const createPcmPayload = (mode: 'beep' | 'silent'): string => {
+    const samples = new Int16Array(Math.floor(SAMPLE_RATE * SPEECH_SECONDS));
+    if (mode === 'beep') {
+        for (let i = 0; i < samples.length; i++) {
+            // 660Hz tone with a short linear fade in and out to avoid clicks.
+            const fade = Math.min(1, i / 600, (samples.length - i) / 600);
+            samples[i] = Math.round(Math.sin((2 * Math.PI * 660 * i) / SAMPLE_RATE) * 8000 * fade);
+        }
+    }
+    return encode(new Uint8Array(samples.buffer));
+};
+
+export const createMockProvider = (options: MockProviderOptions = {}): LanguageModelProvider => {
+    const latencyMs = options.latencyMs ?? 300;
+    const speechPayload = createPcmPayload(options.speech ?? 'beep');
+
+    const simulateLatency = (signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+        const timerId = setTimeout(resolve, latencyMs);
+        signal?.addEventListener('abort', () => {
+            clearTimeout(timerId);
+            reject(new DOMException('The request was aborted.', 'AbortError'));
+        }, { once: true });
+    });
+
+    return {
+        id: 'mock',
+
+        generateStructured: async ({ task, params = {}, signal }) => {
+            await simulateLatency(signal);
+            return JSON.stringify(respond(task, params, 0));
+        },
+
+        chat: async ({ task, params = {}, history, signal }) => {
+            await simulateLatency(signal);
+            return JSON.stringify(respond(task, params, history.length));
+        },
+
+        generateSpeech: async ({ signal }) => {
+            await simulateLatency(signal);
+            return speechPayload;
+        },
+    };
+};
@@ -0,0 +1,130 @@
+import { Type } from "@google/genai";
+import type { Schema } from "@google/genai";
+import type { LanguageModelProvider, ModelTier } from '../aiProvider';
+import { encode } from '../../utils/audio';
+import { SafetyBlockedError } from '../aiErrors';
+
+// Targets any server exposing the OpenAI REST surface (/chat/completions and
+// /audio/speech), such as a local llama.cpp, vLLM or LM Studio instance.
+
+interface OpenAiCompatibleOptions {
+    baseUrl?: string;
+    apiKey?: string;
+    models?: Partial<Record<ModelTier, string>>;
+    ttsModel?: string;
+    defaultVoice?: string;
+}
+
+interface ChatCompletionMessage {
+    role: 'system' | 'user' | 'assistant';
+    content: string;
+}
+
+const DEFAULT_BASE_URL = 'http://localhost:8080/v1';
+
+// Gemini schemas use upper-case type names and `nullable`; JSON Schema wants
+// lower-case names and a union with "null".
+const toJsonSchema = (schema: Schema): Record<string, unknown> => {
+    const jsonSchema: Record<string, unknown> = {};
+    if (schema.type && schema.type !== Type.TYPE_UNSPECIFIED) {
+        const typeName = schema.type.toLowerCase();
+        jsonSchema.type = schema.nullable ? [typeName, 'null'] : typeName;
+    }
+    if (schema.description) jsonSchema.description = schema.description;
+    if (schema.enum) jsonSchema.enum = schema.enum;
+    if (schema.items) jsonSchema.items = toJsonSchema(schema.items);
+    if (schema.properties) {
+        jsonSchema.properties = Object.fromEntries(
+            Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)])
+        );
+        jsonSchema.additionalProperties = false;
+    }
+    if (schema.required) jsonSchema.required = schema.required;
+    return jsonSchema;
+};
+
+export const createOpenAiCompatibleProvider = (options: OpenAiCompatibleOptions = {}): LanguageModelProvider => {
+    const baseUrl = (options.baseUrl || process.env.OPENAI_COMPATIBLE_BASE_URL || DEFAULT_BASE_URL).replace(/\/$/, '');
+    const apiKey = options.apiKey || process.env.OPENAI_COMPATIBLE_API_KEY;
+    const defaultModel = process.env.OPENAI_COMPATIBLE_MODEL || 'default';
+    const models: Record<ModelTier, string> = {
+        fast: options.models?.fast || defaultModel,
+        reasoning: options.models?.reasoning || defaultModel,
+    };
+    const ttsModel = options.ttsModel || 'tts-1';
+    const defaultVoice = options.defaultVoice || 'alloy';
+
+    const post = async (path: string, body: unknown, signal?: AbortSignal): Promise<Response> => {
+        const response = await fetch(`${baseUrl}${path}`, {
+            method: 'POST',
+            signal,
+            headers: {
+                'Content-Type': 'application/json',
+                ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+            },
+            body: JSON.stringify(body),
+        });
+        if (!response.ok) {
+            // Keep the status code at the start of the message so toAiServiceError can classify it.
+            const detail = await response.text().catch(() => '');
+            throw new Error(`${response.status} ${response.statusText}: ${detail}`);
+        }
+        return response;
+    };
+
+    const complete = async (tier: ModelTier, messages: ChatCompletionMessage[], schema: Schema, signal?: AbortSignal): Promise<string> => {
+        const response = await post('/chat/completions', {
+            model: models[tier],
+            messages,
+            response_format: {
+                type: 'json_schema',
+                json_schema: { name: 'response', strict: true, schema: toJsonSchema(schema) },
+            },
+        }, signal);
+        const json = await response.json();
+        const choice = json.choices?.[0];
+        if (choice?.finish_reason === 'content_filter') {
+            throw new SafetyBlockedError(choice.finish_reason);
+        }
+        return choice?.message?.content ?? '';
+    };
+
+    return {
+        id: 'openai-compatible',
+
+        generateStructured: ({ tier, prompt, schema, systemInstruction, signal }) => {
+            const messages: ChatCompletionMessage[] = [];
+            if (systemInstruction) {
+                messages.push({ role: 'system', content: systemInstruction });
+            }
+            messages.push({ role: 'user', content: prompt });
+            return complete(tier, messages, schema, signal);
+        },
+
+        chat: ({ tier, history, schema, systemInstruction, signal }) => {
+            const messages: ChatCompletionMessage[] = [
+                { role: 'system', content: systemInstruction },
+                ...history.map((turn): ChatCompletionMessage => ({
+                    role: turn.role === 'user' ? 'user' : 'assistant',
+                    content: turn.text,
+                })),
+            ];
+            return complete(tier, messages, schema, signal);
+        },
+
+        generateSpeech: async ({ text, voice = defaultVoice, signal }) => {
+            // "pcm" is raw 16-bit mono at 24kHz, which matches what the Gemini TTS model returns.
+            const response = await post('/audio/speech', {
+                model: ttsModel,
+                input: text,
+                voice,
+                response_format: 'pcm',
+            }, signal);
+            const audio = await response.arrayBuffer();
+            if (audio.byteLength === 0) {
+                throw new Error("No audio data received from API.");
+            }
+            return encode(new Uint8Array(audio));
+        },
+    };
+};
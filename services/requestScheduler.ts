@@ -0,0 +1,133 @@
+import { RequestCancelledError } from './aiErrors';
+
+// Every AI request goes through here. Identical requests share one in-flight promise, and
+// at most `maxConcurrent` requests run at once. Queued user-initiated requests always start
+// before background prefetches, so prefetching never delays what the user is waiting for.
+
+export type RequestPriority = 'user' | 'prefetch';
+
+export interface ScheduleOptions {
+    // Requests with the same key are merged while in flight. Omit it for requests that must
+    // always be sent, such as chat turns.
+    key?: string;
+    priority?: RequestPriority;
+    signal?: AbortSignal;
+}
+
+interface QueuedRequest {
+    priority: RequestPriority;
+    start: () => void;
+    cancel: (reason?: unknown) => void;
+}
+
+interface InFlightRequest {
+    key?: string;
+    promise: Promise<unknown>;
+    controller: AbortController;
+    // Set while the request is waiting for a slot.
+    queued: QueuedRequest | null;
+    // Callers still waiting for the result; the request is aborted when this drops to zero.
+    subscribers: number;
+}
+
+const DEFAULT_MAX_CONCURRENT = 3;
+
+let maxConcurrent = DEFAULT_MAX_CONCURRENT;
+let activeCount = 0;
+const queue: QueuedRequest[] = [];
+const inFlight = new Map<string, InFlightRequest>();
+
+export const setConcurrencyLimit = (limit: number) => {
+    maxConcurrent = Math.max(1, limit);
+    startQueued();
+};
+
+const startQueued = () => {
+    while (activeCount < maxConcurrent && queue.length > 0) {
+        const userIndex = queue.findIndex(request => request.priority === 'user');
+        const [next] = queue.splice(userIndex === -1 ? 0 : userIndex, 1);
+        activeCount++;
+        next.start();
+    }
+};
+
+const forget = (request: InFlightRequest) => {
+    if (request.key !== undefined && inFlight.get(request.key) === request) {
+        inFlight.delete(request.key);
+    }
+};
+
+// Resolves with the shared result, or rejects as soon as this caller's own signal aborts.
+const subscribe = <T>(request: InFlightRequest, signal?: AbortSignal): Promise<T> => {
+    request.subscribers++;
+    const unsubscribe = () => {
+        request.subscribers--;
+        if (request.subscribers === 0) {
+            forget(request);
+            request.queued?.cancel(signal?.reason);
+            request.controller.abort(signal?.reason);
+        }
+    };
+    if (!signal) {
+        return request.promise as Promise<T>;
+    }
+    if (signal.aborted) {
+        unsubscribe();
+        return Promise.reject(new RequestCancelledError(signal.reason));
+    }
+    return new Promise<T>((resolve, reject) => {
+        const onAbort = () => {
+            unsubscribe();
+            reject(new RequestCancelledError(signal.reason));
+        };
+        signal.addEventListener('abort', onAbort, { once: true });
+        (request.promise as Promise<T>).then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+    });
+};
+
+export const scheduleRequest = <T>(options: ScheduleOptions, run: (signal: AbortSignal) => Promise<T>): Promise<T> => {
+    const { key, priority = 'user', signal } = options;
+    // Nothing is created for a caller that has already given up, so no promise is left unhandled.
+    if (signal?.aborted) {
+        return Promise.reject(new RequestCancelledError(signal.reason));
+    }
+
+    const existing = key !== undefined ? inFlight.get(key) : undefined;
+    if (existing) {
+        // Someone is now actively waiting for a queued prefetch, so move it to the front lane.
+        if (priority === 'user' && existing.queued) {
+            existing.queued.priority = 'user';
+        }
+        return subscribe<T>(existing, signal);
+    }
+
+    const controller = new AbortController();
+    const request: InFlightRequest = { key, promise: null!, controller, queued: null, subscribers: 0 };
+    request.promise = new Promise<T>((resolve, reject) => {
+        const queued: QueuedRequest = {
+            priority,
+            start: () => {
+                request.queued = null;
+                run(controller.signal).then(resolve, reject).finally(() => {
+                    activeCount--;
+                    startQueued();
+                });
+            },
+            cancel: reason => {
+                request.queued = null;
+                queue.splice(queue.indexOf(queued), 1);
+                reject(new RequestCancelledError(reason));
+            },
+        };
+        request.queued = queued;
+        queue.push(queued);
+    });
+
+    if (key !== undefined) {
+        inFlight.set(key, request);
+        request.promise.finally(() => forget(request)).catch(() => {});
+    }
+    const result = subscribe<T>(request, signal);
+    startQueued();
+    return result;
+};
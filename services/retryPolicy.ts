@@ -0,0 +1,96 @@
+import { RequestCancelledError, TimeoutError, toAiServiceError } from './aiErrors';
+
+// Retries transient AI failures (timeouts, network drops, overloaded servers, malformed
+// replies) with exponential backoff and full jitter. Quota, key and safety errors are
+// never retried because sending the same request again can't fix them.
+
+export interface RetryPolicy {
+    // Attempts after the first one.
+    maxRetries: number;
+    baseDelayMs: number;
+    maxDelayMs: number;
+    // Per-attempt limit; the attempt is aborted and reported as a timeout when it's exceeded.
+    timeoutMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+    maxRetries: 2,
+    baseDelayMs: 500,
+    maxDelayMs: 8000,
+    timeoutMs: 60000,
+};
+
+let activePolicy: RetryPolicy = DEFAULT_RETRY_POLICY;
+
+export const setRetryPolicy = (policy: Partial<RetryPolicy>) => {
+    activePolicy = { ...activePolicy, ...policy };
+};
+
+export const getRetryPolicy = (): RetryPolicy => activePolicy;
+
+// Full jitter: a random delay between 0 and the exponential cap, so that clients that
+// failed together don't all retry together.
+const getBackoffDelay = (attempt: number, policy: RetryPolicy): number =>
+    Math.random() * Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+        reject(new RequestCancelledError(signal.reason));
+        return;
+    }
+    const onAbort = () => {
+        clearTimeout(timerId);
+        reject(new RequestCancelledError(signal?.reason));
+    };
+    const timerId = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Runs one attempt with its own AbortSignal that fires on caller cancellation or on timeout.
+const runAttempt = async <T>(operation: (signal: AbortSignal) => Promise<T>, timeoutMs: number, signal?: AbortSignal): Promise<T> => {
+    const controller = new AbortController();
+    let timedOut = false;
+    const timerId = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+    }, timeoutMs);
+    const onAbort = () => controller.abort(signal?.reason);
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    try {
+        return await operation(controller.signal);
+    } catch (error) {
+        if (timedOut) throw new TimeoutError(error);
+        if (signal?.aborted) throw new RequestCancelledError(error);
+        throw toAiServiceError(error);
+    } finally {
+        clearTimeout(timerId);
+        signal?.removeEventListener('abort', onAbort);
+    }
+};
+
+export const withRetry = async <T>(
+    operation: (signal: AbortSignal) => Promise<T>,
+    signal?: AbortSignal,
+    policy: RetryPolicy = activePolicy
+): Promise<T> => {
+    for (let attempt = 0; ; attempt++) {
+        if (signal?.aborted) {
+            throw new RequestCancelledError(signal.reason);
+        }
+        try {
+            return await runAttempt(operation, policy.timeoutMs, signal);
+        } catch (error) {
+            const serviceError = toAiServiceError(error);
+            if (!serviceError.retryable || attempt >= policy.maxRetries) {
+                throw serviceError;
+            }
+            const delay = getBackoffDelay(attempt, policy);
+            console.warn(`AI request failed (${serviceError.kind}), retrying in ${Math.round(delay)}ms...`);
+            await sleep(delay, signal);
+        }
+    }
+};
@@ -0,0 +1,179 @@
+import { Type } from "@google/genai";
+import type { Schema } from "@google/genai";
+import { isPlainObject } from "../utils/typeGuards";
+
+// Checks model output against the same Schema objects that are sent as `responseSchema`,
+// so the schemas stay the single description of what each response looks like.
+// Small, unambiguous deviations (numbers sent as strings, stray properties, a few broken
+// list items) are repaired; anything else is rejected with a list of issues.
+
+export interface ValidationOutcome<T> {
+    ok: boolean;
+    // The repaired value; only set when `ok` is true.
+    value: T | null;
+    issues: string[];
+    repairs: string[];
+}
+
+interface ValidationContext {
+    issues: string[];
+    repairs: string[];
+}
+
+const INVALID = Symbol('invalid');
+
+const describe = (path: string) => path || 'response';
+
+const checkValue = (value: unknown, schema: Schema, path: string, ctx: ValidationContext): unknown => {
+    if (value === null || value === undefined) {
+        if (schema.nullable) return null;
+        ctx.issues.push(`${describe(path)}: expected a value but got ${value === null ? 'null' : 'nothing'}`);
+        return INVALID;
+    }
+
+    switch (schema.type) {
+        case Type.STRING: {
+            if (typeof value === 'number' || typeof value === 'boolean') {
+                ctx.repairs.push(`${describe(path)}: converted ${typeof value} to string`);
+                value = String(value);
+            }
+            if (typeof value !== 'string') {
+                ctx.issues.push(`${describe(path)}: expected a string`);
+                return INVALID;
+            }
+            if (schema.enum && !schema.enum.includes(value)) {
+                ctx.issues.push(`${describe(path)}: "${value}" is not one of ${schema.enum.join(', ')}`);
+                return INVALID;
+            }
+            return value;
+        }
+        case Type.NUMBER:
+        case Type.INTEGER: {
+            if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) {
+                ctx.repairs.push(`${describe(path)}: converted string to number`);
+                value = Number(value);
+            }
+            if (typeof value !== 'number' || !isFinite(value)) {
+                ctx.issues.push(`${describe(path)}: expected a number`);
+                return INVALID;
+            }
+            return schema.type === Type.INTEGER ? Math.round(value) : value;
+        }
+        case Type.BOOLEAN: {
+            if (value === 'true' || value === 'false') {
+                ctx.repairs.push(`${describe(path)}: converted string to boolean`);
+                return value === 'true';
+            }
+            if (typeof value !== 'boolean') {
+                ctx.issues.push(`${describe(path)}: expected a boolean`);
+                return INVALID;
+            }
+            return value;
+        }
+        case Type.ARRAY:
+            return checkArray(value, schema, path, ctx);
+        case Type.OBJECT:
+            return checkObject(value, schema, path, ctx);
+        default:
+            return value;
+    }
+};
+
+const checkArray = (value: unknown, schema: Schema, path: string, ctx: ValidationContext): unknown => {
+    // Models sometimes wrap a list in an object such as {"items": [...]}.
+    if (isPlainObject(value)) {
+        const arrays = Object.values(value).filter(Array.isArray);
+        if (arrays.length === 1) {
+            ctx.repairs.push(`${describe(path)}: unwrapped list from object`);
+            value = arrays[0];
+        }
+    }
+    if (!Array.isArray(value)) {
+        ctx.issues.push(`${describe(path)}: expected a list`);
+        return INVALID;
+    }
+    if (!schema.items) return value;
+
+    const itemIssues: string[] = [];
+    const items = value
+        .map((item, index) => checkValue(item, schema.items!, `${path}[${index}]`, { issues: itemIssues, repairs: ctx.repairs }))
+        .filter(item => item !== INVALID);
+
+    if (itemIssues.length === 0) return items;
+    // Dropping a few broken entries is better than discarding the whole list, but an
+    // empty result means nothing usable came back.
+    if (items.length === 0) {
+        ctx.issues.push(...itemIssues);
+        return INVALID;
+    }
+    ctx.repairs.push(...itemIssues.map(issue => `dropped item (${issue})`));
+    return items;
+};
+
+const checkObject = (value: unknown, schema: Schema, path: string, ctx: ValidationContext): unknown => {
+    if (!isPlainObject(value)) {
+        ctx.issues.push(`${describe(path)}: expected an object`);
+        return INVALID;
+    }
+    if (!schema.properties) return value;
+
+    const required = new Set(schema.required ?? []);
+    const result: Record<string, unknown> = {};
+    let isValid = true;
+
+    for (const [key, propertySchema] of Object.entries(schema.properties)) {
+        const propertyPath = path ? `${path}.${key}` : key;
+        const propertyValue = value[key];
+        if ((propertyValue === undefined || propertyValue === null) && !required.has(key) && !propertySchema.nullable) {
+            continue;
+        }
+        const checked = checkValue(propertyValue, propertySchema, propertyPath, ctx);
+        if (checked === INVALID) {
+            isValid = false;
+        } else {
+            result[key] = checked;
+        }
+    }
+
+    const extraKeys = Object.keys(value).filter(key => !(key in schema.properties!));
+    if (extraKeys.length > 0) {
+        ctx.repairs.push(`${describe(path)}: removed unexpected properties ${extraKeys.join(', ')}`);
+    }
+
+    return isValid ? result : INVALID;
+};
+
+// Strips Markdown code fences and any chatter around the JSON body before parsing.
+const parseJson = (text: string): unknown => {
+    try {
+        return JSON.parse(text);
+    } catch {
+        const unfenced = text.replace(/```(?:json)?/gi, '');
+        const start = unfenced.search(/[[{]/);
+        const end = Math.max(unfenced.lastIndexOf('}'), unfenced.lastIndexOf(']'));
+        if (start === -1 || end <= start) {
+            throw new Error('no complete JSON value found');
+        }
+        return JSON.parse(unfenced.slice(start, end + 1));
+    }
+};
+
+export const validateAgainstSchema = <T>(value: unknown, schema: Schema): ValidationOutcome<T> => {
+    const ctx: ValidationContext = { issues: [], repairs: [] };
+    const checked = checkValue(value, schema, '', ctx);
+    if (checked === INVALID) {
+        return { ok: false, value: null, issues: ctx.issues, repairs: ctx.repairs };
+    }
+    return { ok: true, value: checked as T, issues: [], repairs: ctx.repairs };
+};
+
+export const parseStructuredResponse = <T>(text: string, schema: Schema): ValidationOutcome<T> => {
+    let value: unknown;
+    try {
+        value = parseJson(text);
+    } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        return { ok: false, value: null, issues: [`response is not valid JSON (${reason})`], repairs: [] };
+    }
+    return validateAgainstSchema<T>(value, schema);
+};
@@ -0,0 +1,146 @@
+import {
+    CONJUGATION_MASTERY_STORAGE_KEY, DEFAULT_LANGUAGE_SETTINGS, FUNCTIONAL_CUSTOM_DOMAINS_STORAGE_KEY, INITIAL_VERBS,
+    LANGUAGE_SETTINGS_STORAGE_KEY, LEGACY_VERBS_STORAGE_KEY, VERB_LISTS_STORAGE_KEY, VOCABULARY_CUSTOM_CATEGORIES_STORAGE_KEY,
+    WORD_BANK_STORAGE_KEY, WORD_REVIEW_STORAGE_KEY, PROFILES_STORAGE_KEY, CHAT_HISTORY_STORAGE_KEY,
+} from '../constants';
+import type { FunctionalDomain, LanguageSettings, ProfilesState, SavedChat, VerbListsState, VocabularyCategory, VocabularyItem } from '../types';
+import { createVerbListsState, isVerbListsState } from '../utils/verbLists';
+import { isConjugationMastery } from '../utils/conjugationMastery';
+import type { ConjugationMastery } from '../utils/conjugationMastery';
+import { isWordReviewSchedule } from '../utils/wordReview';
+import type { WordReviewSchedule } from '../utils/wordReview';
+import { upgradeLegacyVocabularyItem } from '../utils/vocabularyItem';
+import { isPlainObject, isStringArray } from '../utils/typeGuards';
+import type { StoredValueDefinition } from './userStorage';
+import { createProfilesState, isProfilesState } from './profiles';
+
+// Every piece of learner data the app keeps, with its schema version and migrations.
+
+// Data saved before versioning that already has the version 1 shape.
+const unchanged = (data: unknown) => data;
+
+export const VERB_LISTS_RECORD: StoredValueDefinition<VerbListsState> = {
+    key: VERB_LISTS_STORAGE_KEY,
+    version: 1,
+    migrations: {
+        // The legacy key holds a flat list of verbs, which becomes the "Default" list.
+        0: data => isStringArray(data) ? createVerbListsState(data) : data,
+    },
+    validate: isVerbListsState,
+    defaultValue: () => createVerbListsState(INITIAL_VERBS),
+    legacyKeys: [LEGACY_VERBS_STORAGE_KEY],
+};
+
+export const LANGUAGE_SETTINGS_RECORD: StoredValueDefinition<LanguageSettings> = {
+    key: LANGUAGE_SETTINGS_STORAGE_KEY,
+    version: 1,
+    migrations: {
+        // Settings saved before tu and vós could be shown lack those flags.
+        0: data => isPlainObject(data) ? { ...DEFAULT_LANGUAGE_SETTINGS, ...data } : data,
+    },
+    validate: (value): value is LanguageSettings =>
+        isPlainObject(value) && (value.variant === 'pt-BR' || value.variant === 'pt-PT') &&
+        typeof value.showTu === 'boolean' && typeof value.showVos === 'boolean',
+    defaultValue: () => DEFAULT_LANGUAGE_SETTINGS,
+};
+
+export const CONJUGATION_MASTERY_RECORD: StoredValueDefinition<ConjugationMastery> = {
+    key: CONJUGATION_MASTERY_STORAGE_KEY,
+    version: 1,
+    migrations: { 0: unchanged },
+    validate: isConjugationMastery,
+    defaultValue: () => ({}),
+};
+
+export const VOCABULARY_CUSTOM_CATEGORIES_RECORD: StoredValueDefinition<VocabularyCategory[]> = {
+    key: VOCABULARY_CUSTOM_CATEGORIES_STORAGE_KEY,
+    version: 1,
+    migrations: { 0: unchanged },
+    validate: (value): value is VocabularyCategory[] =>
+        Array.isArray(value) && value.every(category =>
+            isPlainObject(category) && typeof category.id === 'string' && typeof category.name === 'string' &&
+            typeof category.emoji === 'string' && typeof category.description === 'string'
+        ),
+    defaultValue: () => [],
+};
+
+// Saved words, grouped by the name of the category they were saved from.
+export const WORD_BANK_RECORD: StoredValueDefinition<Record<string, VocabularyItem[]>> = {
+    key: WORD_BANK_STORAGE_KEY,
+    version: 2,
+    migrations: {
+        0: unchanged,
+        // The free-text wordType became structured fields (part of speech, gender, register...).
+        1: bank => isPlainObject(bank)
+            ? Object.fromEntries(Object.entries(bank).map(([category, items]) =>
+                [category, Array.isArray(items) ? items.map(upgradeLegacyVocabularyItem) : items]
+            ))
+            : bank,
+    },
+    validate: (value): value is Record<string, VocabularyItem[]> =>
+        isPlainObject(value) && Object.values(value).every(items =>
+            Array.isArray(items) && items.every(item =>
+                isPlainObject(item) && typeof item.portugueseWord === 'string' && typeof item.englishTranslation === 'string' &&
+                typeof item.partOfSpeech === 'string' && isStringArray(item.synonyms) && isStringArray(item.antonyms)
+            )
+        ),
+    defaultValue: () => ({}),
+};
+
+// When each banked word is next due for review.
+export const WORD_REVIEW_RECORD: StoredValueDefinition<WordReviewSchedule> = {
+    key: WORD_REVIEW_STORAGE_KEY,
+    version: 1,
+    migrations: {},
+    validate: isWordReviewSchedule,
+    defaultValue: () => ({}),
+};
+
+export const FUNCTIONAL_CUSTOM_DOMAINS_RECORD: StoredValueDefinition<FunctionalDomain[]> = {
+    key: FUNCTIONAL_CUSTOM_DOMAINS_STORAGE_KEY,
+    version: 1,
+    migrations: { 0: unchanged },
+    validate: (value): value is FunctionalDomain[] =>
+        Array.isArray(value) && value.every(domain =>
+            isPlainObject(domain) && typeof domain.id === 'string' && typeof domain.name === 'string' &&
+            Array.isArray(domain.subtopics) && domain.subtopics.every((subtopic: unknown) =>
+                isPlainObject(subtopic) && typeof subtopic.name === 'string' && isStringArray(subtopic.functions)
+            )
+        ),
+    defaultValue: () => [],
+};
+
+export const CHAT_HISTORY_RECORD: StoredValueDefinition<SavedChat | null> = {
+    key: CHAT_HISTORY_STORAGE_KEY,
+    version: 1,
+    migrations: {},
+    validate: (value): value is SavedChat | null =>
+        value === null || (
+            isPlainObject(value) && isPlainObject(value.topic) && typeof value.topic.name === 'string' &&
+            Array.isArray(value.messages) && value.messages.every((message: unknown) =>
+                isPlainObject(message) && (message.sender === 'user' || message.sender === 'ai') && typeof message.portuguese === 'string'
+            )
+        ),
+    defaultValue: () => null,
+};
+
+export const PROFILES_RECORD: StoredValueDefinition<ProfilesState> = {
+    key: PROFILES_STORAGE_KEY,
+    version: 1,
+    migrations: {},
+    validate: isProfilesState,
+    defaultValue: createProfilesState,
+    shared: true,
+};
+
+// The records each profile has its own copy of.
+export const STORED_RECORDS: StoredValueDefinition<unknown>[] = [
+    VERB_LISTS_RECORD,
+    LANGUAGE_SETTINGS_RECORD,
+    CONJUGATION_MASTERY_RECORD,
+    VOCABULARY_CUSTOM_CATEGORIES_RECORD,
+    WORD_BANK_RECORD,
+    WORD_REVIEW_RECORD,
+    FUNCTIONAL_CUSTOM_DOMAINS_RECORD,
+    CHAT_HISTORY_RECORD,
+];
@@ -0,0 +1,171 @@
+import { QUARANTINE_STORAGE_KEY } from '../constants';
+import { getActiveProfileId, getProfileStorageKey } from './profiles';
+
+// Learner data kept in localStorage: verb lists, settings, progress and saved topics.
+// Each record is saved together with its schema version and upgraded on read by running
+// its migrations in order. A record that can't be read is moved to a quarantine list
+// rather than thrown away, so that it can still be recovered. Records belong to the active
+// learner profile unless they're marked as shared.
+
+export interface StoredValueDefinition<T> {
+    key: string;
+    // Bump it, and add a migration from the previous version, whenever the shape changes.
+    version: number;
+    // migrations[n] upgrades data written with version n to version n + 1. Version 0 is
+    // data saved before records were versioned.
+    migrations: Record<number, (data: unknown) => unknown>;
+    validate: (value: unknown) => value is T;
+    defaultValue: () => T;
+    // Keys the data used to be saved under. They are read, as version 0, while the key itself
+    // is empty, and removed once the data has been saved under the new key.
+    legacyKeys?: string[];
+    // Kept once for the device rather than per profile, e.g. the list of profiles itself.
+    shared?: boolean;
+}
+
+export interface QuarantinedRecord {
+    key: string;
+    // Exactly what was stored, so nothing is lost.
+    raw: string;
+    reason: string;
+    quarantinedAt: number;
+}
+
+// How each record is saved, and how backups hold them.
+export interface VersionedRecord {
+    schemaVersion: number;
+    data: unknown;
+}
+
+// Oldest records are dropped beyond this, so a record that keeps failing can't fill the quota.
+const MAX_QUARANTINED_RECORDS = 20;
+
+const isVersionedRecord = (value: unknown): value is VersionedRecord =>
+    typeof value === 'object' && value !== null && !Array.isArray(value) &&
+    typeof (value as VersionedRecord).schemaVersion === 'number' && 'data' in value;
+
+const readRaw = (key: string): string | null => {
+    try {
+        return window.localStorage.getItem(key);
+    } catch {
+        return null;
+    }
+};
+
+const getStorageKey = (definition: StoredValueDefinition<unknown>, key: string, profileId = getActiveProfileId()) =>
+    definition.shared ? key : getProfileStorageKey(key, profileId);
+
+// --- Quarantine ---
+
+export const getQuarantinedRecords = (): QuarantinedRecord[] => {
+    try {
+        const saved = readRaw(QUARANTINE_STORAGE_KEY);
+        const parsed = saved ? JSON.parse(saved) : [];
+        return Array.isArray(parsed) ? parsed : [];
+    } catch (error) {
+        console.error("Error reading quarantined records from localStorage:", error);
+        return [];
+    }
+};
+
+export const clearQuarantinedRecords = () => {
+    try {
+        window.localStorage.removeItem(QUARANTINE_STORAGE_KEY);
+    } catch (error) {
+        console.error("Error clearing quarantined records:", error);
+    }
+};
+
+const quarantine = (key: string, raw: string, reason: string) => {
+    try {
+        const records = getQuarantinedRecords();
+        // The same record is read more than once, e.g. when a component mounts twice.
+        if (records.some(record => record.key === key && record.raw === raw)) return;
+        console.warn(`Stored data for "${key}" couldn't be read and was quarantined: ${reason}`);
+        records.push({ key, raw, reason, quarantinedAt: Date.now() });
+        window.localStorage.setItem(QUARANTINE_STORAGE_KEY, JSON.stringify(records.slice(-MAX_QUARANTINED_RECORDS)));
+    } catch (error) {
+        console.error(`Error quarantining stored data for "${key}":`, error);
+    }
+};
+
+// --- Change notifications ---
+
+type StoredValueListener = (value: unknown) => void;
+
+// Keyed by storage key, so that every component showing a record sees the others' changes.
+const listeners = new Map<string, Set<StoredValueListener>>();
+
+// Called with the new value whenever the record is saved. Returns an unsubscribe function.
+export const subscribeToStoredValue = <T>(definition: StoredValueDefinition<T>, listener: (value: T) => void) => {
+    const key = getStorageKey(definition, definition.key);
+    if (!listeners.has(key)) listeners.set(key, new Set());
+    const keyListeners = listeners.get(key)!;
+    keyListeners.add(listener as StoredValueListener);
+    return () => {
+        keyListeners.delete(listener as StoredValueListener);
+    };
+};
+
+// --- Reading and writing ---
+
+// Upgrades stored data (a VersionedRecord, or data saved before versioning) to the current
+// version. Throws if that isn't possible.
+export const upgradeStoredValue = <T>(definition: StoredValueDefinition<T>, stored: unknown): T => {
+    let version = isVersionedRecord(stored) ? stored.schemaVersion : 0;
+    let data = isVersionedRecord(stored) ? stored.data : stored;
+    if (version > definition.version) {
+        throw new Error(`it was written by a newer version of the app (schema ${version})`);
+    }
+    for (; version < definition.version; version++) {
+        const step = definition.migrations[version];
+        if (!step) throw new Error(`there is no migration from schema ${version}`);
+        data = step(data);
+    }
+    if (!definition.validate(data)) {
+        throw new Error(`it doesn't match schema ${definition.version}`);
+    }
+    return data;
+};
+
+// The stored value, or the default when there is none or it can't be read.
+export const readStoredValue = <T>(definition: StoredValueDefinition<T>): T => {
+    const sourceKey = [definition.key, ...(definition.legacyKeys ?? [])]
+        .map(key => getStorageKey(definition, key))
+        .find(key => readRaw(key) !== null);
+    if (!sourceKey) return definition.defaultValue();
+
+    const raw = readRaw(sourceKey)!;
+    try {
+        return upgradeStoredValue(definition, JSON.parse(raw));
+    } catch (error) {
+        quarantine(sourceKey, raw, error instanceof Error ? error.message : String(error));
+        return definition.defaultValue();
+    }
+};
+
+// Returns false if the value couldn't be saved, e.g. because the storage quota is full.
+// Listeners are only told about values that were saved.
+export const writeStoredValue = <T>(definition: StoredValueDefinition<T>, value: T): boolean => {
+    try {
+        const record: VersionedRecord = { schemaVersion: definition.version, data: value };
+        window.localStorage.setItem(getStorageKey(definition, definition.key), JSON.stringify(record));
+        definition.legacyKeys?.forEach(key => window.localStorage.removeItem(getStorageKey(definition, key)));
+    } catch (error) {
+        console.error(`Error saving "${definition.key}" to localStorage:`, error);
+        return false;
+    }
+    listeners.get(getStorageKey(definition, definition.key))?.forEach(listener => listener(value));
+    return true;
+};
+
+// Deletes a profile's copy of the record, e.g. when the profile is deleted.
+export const removeStoredValue = <T>(definition: StoredValueDefinition<T>, profileId = getActiveProfileId()) => {
+    try {
+        [definition.key, ...(definition.legacyKeys ?? [])].forEach(key =>
+            window.localStorage.removeItem(getStorageKey(definition, key, profileId))
+        );
+    } catch (error) {
+        console.error(`Error removing "${definition.key}" from localStorage:`, error);
+    }
+};
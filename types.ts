@@ -1,19 +1,49 @@
+export type LanguageVariant = 'pt-BR' | 'pt-PT';
+
+export interface LanguageSettings {
+  variant: LanguageVariant;
+  // Extra pronoun rows in the conjugation tables. Brazilian speech mostly uses você and
+  // vocês, but tu is common in Portugal and parts of Brazil; vós survives mainly in texts.
+  showTu: boolean;
+  showVos: boolean;
+}
+
 export interface ConjugationForms {
   eu: string;
+  // tu and vós are missing from tables the model produced before they were requested.
+  tu?: string;
   voce: string;
   nos: string;
+  vos?: string;
   voces: string;
 }
 
+// The imperative has no first person singular.
+export type ImperativeForms = Omit<ConjugationForms, 'eu'>;
+
 export interface ConjugationData {
+  // Indicative
   presente: ConjugationForms;
   preterito_perfeito: ConjugationForms;
   preterito_imperfeito: ConjugationForms;
+  preterito_mais_que_perfeito: ConjugationForms;
   preterito_perfeito_composto: ConjugationForms;
+  preterito_mais_que_perfeito_composto: ConjugationForms;
   futuro_do_presente: ConjugationForms;
   futuro_do_preterito: ConjugationForms;
+  // Subjunctive
   presente_do_subjuntivo: ConjugationForms;
   imperfeito_do_subjuntivo: ConjugationForms;
+  futuro_do_subjuntivo: ConjugationForms;
+  // Imperative; the negative forms include "não".
+  imperativo_afirmativo: ImperativeForms;
+  imperativo_negativo: ImperativeForms;
+  // Non-finite forms
+  infinitivo_pessoal: ConjugationForms;
+  gerundio: string;
+  // Verbs with two participles list the regular one (used with ter and haver) first and
+  // the irregular one (used with ser and estar) second, e.g. ["aceitado", "aceito"].
+  participio: string[];
 }
 
 export interface Example {
@@ -21,11 +51,85 @@ export interface Example {
   english: string;
 }
 
+// A cell of the conjugation table to select once the verb's table is shown, e.g. after a
+// reverse lookup. `path` is like "presente.eu" or "participio.1".
+export interface ConjugationFocus {
+  verb: string;
+  path: string;
+}
+
 export interface SelectedConjugation {
   verb: string;
   form: string;
   tense: string;
   pronoun: string;
+  // Where the form is in the table, as in ConjugationFocus.
+  path: string;
+}
+
+export interface VerbPreposition {
+  preposition: string;
+  // The verb with its preposition, e.g. "gostar de".
+  pattern: string;
+  meaning: string;
+  example: string;
+  exampleTranslation: string;
+}
+
+export interface VerbCollocation {
+  portuguese: string;
+  english: string;
+}
+
+export interface DerivedNoun {
+  // With its article, e.g. "a conversa".
+  noun: string;
+  english: string;
+}
+
+// What the model knows about a verb beyond its conjugations. The regularity and participles
+// shown next to it come from the conjugation table instead.
+export interface VerbProfile {
+  englishMeaning: string;
+  // Approximate rank among the most frequent verbs in everyday speech (1 = the most frequent).
+  frequencyRank: number | null;
+  isReflexive: boolean;
+  isPronominal: boolean;
+  // The form with its pronoun, e.g. "lembrar-se", when the verb is used that way.
+  pronominalForm: string | null;
+  prepositions: VerbPreposition[];
+  collocations: VerbCollocation[];
+  derivedNouns: DerivedNoun[];
+}
+
+export interface VerbListEntry {
+  verb: string;
+  // Free-form labels such as "irregular", "reflexive" or "week 3".
+  tags: string[];
+}
+
+export interface NamedVerbList {
+  id: string;
+  name: string;
+  // In the order the user arranged them.
+  entries: VerbListEntry[];
+}
+
+export interface VerbListsState {
+  lists: NamedVerbList[];
+  activeListId: string;
+}
+
+// Someone using the app on a shared device; each profile has its own saved data.
+export interface LearnerProfile {
+  id: string;
+  name: string;
+  createdAt: number;
+}
+
+export interface ProfilesState {
+  profiles: LearnerProfile[];
+  activeProfileId: string;
 }
 
 export interface GrammarParagraph {
@@ -52,12 +156,71 @@ export interface WrittenDrill {
   englishHint: string;
 }
 
+// Free writing: translating an English sentence, or rewriting a Portuguese one as told
+// (e.g. "Put it in the imperfect subjunctive").
+export type WritingTaskKind = 'translate' | 'rewrite';
+
+export interface WritingTask {
+  kind: WritingTaskKind;
+  instruction: string;
+  // The English sentence to translate, or the Portuguese sentence to rewrite.
+  source: string;
+  // One good answer; any other grammatical answer with the same meaning is accepted too.
+  modelAnswer: string;
+}
+
+export interface WritingError {
+  // The wrong words as the learner wrote them, and what they should be.
+  original: string;
+  correction: string;
+  explanation: string;
+  // The grammar topic the error is about (an id from GRAMMAR_TOPIC_GROUPS), or 'other'.
+  topicId: string;
+}
+
+export interface WritingAssessment {
+  isCorrect: boolean;
+  // The learner's answer with its errors fixed and nothing else changed.
+  correctedSentence: string;
+  errors: WritingError[];
+  // e.g. a more natural way to say it, even when the answer is correct.
+  comment: string | null;
+}
+
+export type PartOfSpeech = 'noun' | 'verb' | 'adjective' | 'adverb' | 'pronoun' | 'preposition' | 'conjunction' | 'interjection' | 'phrase' | 'other';
+
+export type GrammaticalGender = 'masculine' | 'feminine';
+
+export type Register = 'formal' | 'neutral' | 'informal' | 'slang';
+
+// Where a word is used: in both variants, or mainly in one of them.
+export type WordVariant = 'both' | LanguageVariant;
+
 export interface VocabularyItem {
   portugueseWord: string;
   englishTranslation: string;
-  wordType: string; // e.g., "noun (masculine)", "verb", "adjective"
+  partOfSpeech: PartOfSpeech;
+  // Nouns only (and adjectives used as nouns); null otherwise.
+  gender: GrammaticalGender | null;
+  plural: string | null;
+  ipa: string | null;
+  register: Register;
+  variant: WordVariant;
+  synonyms: string[];
+  antonyms: string[];
   exampleSentence: string;
   exampleTranslation: string;
+  // Set when Brazilian and European Portuguese use a different word or phrasing.
+  variantNote?: string | null;
+}
+
+// A vocabulary topic; custom ones are generated from a topic the user typed and saved.
+export interface VocabularyCategory {
+  id: string;
+  name: string;
+  emoji: string;
+  description: string;
+  isCustom?: boolean;
 }
 
 export interface FunctionalPhrase {
@@ -100,6 +263,12 @@ export interface ChatMessage {
     } | null;
 }
 
+// The conversation in progress, kept so it can be picked up again later.
+export interface SavedChat {
+    topic: { id: string; name: string };
+    messages: ChatMessage[];
+}
+
 export type ChatStreamEvent =
     | { type: 'correction'; correction: { portuguese: string; english: string } | null }
     | { type: 'portuguese_chunk'; chunk: string }
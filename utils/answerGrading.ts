@@ -0,0 +1,163 @@
+// Grading of typed answers, shared by the quizzes and drills. An answer is exact, right but
+// for its accents, right but for a small typo, another form of the right word (fala for
+// falo), the right noun without its article, or wrong; the character diff lets the feedback
+// show what to fix.
+
+export type AnswerVerdict = 'exact' | 'accent' | 'typo' | 'wrong-form' | 'missing-article' | 'wrong';
+
+// `same` and `accent` characters are in both answers (`accent` with a different accent),
+// `extra` ones only in the learner's answer and `missing` ones only in the expected one.
+export type DiffKind = 'same' | 'accent' | 'extra' | 'missing';
+
+export interface DiffSegment {
+    kind: DiffKind;
+    // The expected text, except for `extra` segments which hold what the learner typed.
+    text: string;
+}
+
+export interface AnswerGrade {
+    verdict: AnswerVerdict;
+    isCorrect: boolean;
+    // The accepted answer closest to the learner's.
+    expected: string;
+    diff: DiffSegment[];
+}
+
+export interface GradeOptions {
+    // Other forms of the expected word, e.g. the rest of a verb's conjugations. Typing one of
+    // them is a wrong form rather than a typo.
+    otherForms?: string[];
+    // Answers with a wrong or missing accent don't count as correct.
+    accentStrict?: boolean;
+    // Defaults to true. Verb forms turn it off, since a one-letter slip there is usually
+    // the very mistake being drilled (dormo for durmo, pedo for peço).
+    allowTypos?: boolean;
+}
+
+// Removes accents and diacritics for a more forgiving comparison
+export const normalizeString = (str: string): string => {
+    return str
+        .normalize("NFD") // Decompose accented characters
+        .replace(/[\u0300-\u036f]/g, "") // Remove diacritical marks
+        .toLowerCase()
+        .trim();
+};
+
+export const levenshteinDistance = (a: string, b: string): number => {
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(
+                previous[j] + 1,
+                current[j - 1] + 1,
+                previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+            );
+        }
+        previous = current;
+    }
+    return previous[b.length];
+};
+
+// One typo is forgiven in words of four letters or more, two in longer phrases.
+export const getTypoAllowance = (length: number): number => (length < 4 ? 0 : length < 10 ? 1 : 2);
+
+// Case and spacing never count as mistakes.
+const tidy = (text: string) => text.normalize('NFC').trim().replace(/\s+/g, ' ');
+
+// --- Diff ---
+
+const mergeSegments = (segments: DiffSegment[]): DiffSegment[] =>
+    segments.reduce<DiffSegment[]>((merged, segment) => {
+        const last = merged[merged.length - 1];
+        if (last && last.kind === segment.kind) {
+            last.text += segment.text;
+        } else {
+            merged.push({ ...segment });
+        }
+        return merged;
+    }, []);
+
+// Aligns the two answers letter by letter, ignoring accents, then marks the aligned letters
+// whose accents differ.
+export const diffAnswer = (userAnswer: string, expected: string): DiffSegment[] => {
+    const typed = Array.from(tidy(userAnswer));
+    const wanted = Array.from(tidy(expected));
+    const typedBase = typed.map(normalizeString);
+    const wantedBase = wanted.map(normalizeString);
+
+    // distances[i][j]: edits from the first i typed letters to the first j expected ones.
+    const distances = typed.map(() => new Array<number>(wanted.length + 1).fill(0));
+    distances.push(new Array<number>(wanted.length + 1).fill(0));
+    for (let i = 0; i <= typed.length; i++) {
+        for (let j = 0; j <= wanted.length; j++) {
+            distances[i][j] = i === 0 ? j : j === 0 ? i : Math.min(
+                distances[i - 1][j] + 1,
+                distances[i][j - 1] + 1,
+                distances[i - 1][j - 1] + (typedBase[i - 1] === wantedBase[j - 1] ? 0 : 2)
+            );
+        }
+    }
+
+    const segments: DiffSegment[] = [];
+    let i = typed.length;
+    let j = wanted.length;
+    while (i > 0 || j > 0) {
+        if (i > 0 && j > 0 && typedBase[i - 1] === wantedBase[j - 1] && distances[i][j] === distances[i - 1][j - 1]) {
+            const sameAccent = typed[i - 1].toLowerCase() === wanted[j - 1].toLowerCase();
+            segments.push({ kind: sameAccent ? 'same' : 'accent', text: wanted[j - 1] });
+            i--;
+            j--;
+        } else if (j > 0 && (i === 0 || distances[i][j] === distances[i][j - 1] + 1)) {
+            segments.push({ kind: 'missing', text: wanted[j - 1] });
+            j--;
+        } else {
+            segments.push({ kind: 'extra', text: typed[i - 1] });
+            i--;
+        }
+    }
+    return mergeSegments(segments.reverse());
+};
+
+// --- Grading ---
+
+const grade = (verdict: AnswerVerdict, userAnswer: string, expected: string, options: GradeOptions): AnswerGrade => {
+    const { accentStrict = false, allowTypos = true } = options;
+    const diff = diffAnswer(userAnswer, expected);
+    const hasAccentError = diff.some(segment => segment.kind === 'accent');
+    const isCorrect = verdict === 'exact'
+        || (verdict === 'accent' && !accentStrict)
+        || (verdict === 'typo' && allowTypos && !(accentStrict && hasAccentError));
+    return { verdict, isCorrect, expected, diff };
+};
+
+// `accepted` is the expected answer, or every answer that counts as right.
+export const gradeAnswer = (userAnswer: string, accepted: string | string[], options: GradeOptions = {}): AnswerGrade => {
+    const { otherForms = [] } = options;
+    const answers = (Array.isArray(accepted) ? accepted : [accepted]).filter(answer => answer.trim());
+    const typed = tidy(userAnswer);
+    if (answers.length === 0) {
+        return { verdict: 'wrong', isCorrect: false, expected: '', diff: [] };
+    }
+    if (!typed) {
+        return { verdict: 'wrong', isCorrect: false, expected: answers[0], diff: [{ kind: 'missing', text: tidy(answers[0]) }] };
+    }
+
+    const exactMatch = answers.find(answer => tidy(answer).toLowerCase() === typed.toLowerCase());
+    if (exactMatch) return grade('exact', typed, exactMatch, options);
+
+    const base = normalizeString(typed);
+    const accentMatch = answers.find(answer => normalizeString(tidy(answer)) === base);
+    if (accentMatch) return grade('accent', typed, accentMatch, options);
+
+    const distances = answers.map(answer => levenshteinDistance(base, normalizeString(tidy(answer))));
+    const closestIndex = distances.indexOf(Math.min(...distances));
+    const closest = answers[closestIndex];
+
+    if (otherForms.some(form => normalizeString(tidy(form)) === base)) {
+        return grade('wrong-form', typed, closest, options);
+    }
+
+    const allowance = getTypoAllowance(normalizeString(tidy(closest)).length);
+    return grade(distances[closestIndex] <= allowance ? 'typo' : 'wrong', typed, closest, options);
+};
@@ -10,6 +10,14 @@ export function decode(base64: string): Uint8Array {
   return bytes;
 }
 
+export function encode(bytes: Uint8Array): string {
+  let binaryString = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binaryString += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binaryString);
+}
+
 export async function decodeAudioData(
   data: Uint8Array,
   ctx: AudioContext,
@@ -44,4 +52,28 @@ export const playAudio = async (base64Audio: string, audioContext: AudioContext)
         console.error("Error playing audio:", error);
         throw new Error("Failed to decode or play audio.");
     }
-};
\ No newline at end of file
+};
+// Wraps raw 16-bit mono PCM, as returned by the speech providers, in a WAV header so it
+// can be saved as a file and played by other apps.
+export function pcmToWav(pcm: Uint8Array, sampleRate = 24000): Uint8Array {
+  const wav = new Uint8Array(44 + pcm.length);
+  const view = new DataView(wav.buffer);
+  const writeText = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+  writeText(0, 'RIFF');
+  view.setUint32(4, 36 + pcm.length, true);
+  writeText(8, 'WAVE');
+  writeText(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeText(36, 'data');
+  view.setUint32(40, pcm.length, true);
+  wav.set(pcm, 44);
+  return wav;
+}
@@ -0,0 +1,96 @@
+import type { ConjugationData, LanguageVariant } from '../types';
+import { conjugateRegularly, flattenTable } from './conjugationEngine';
+
+// Marks the forms of a conjugation table that depart from the regular paradigm of the verb's
+// class, by comparing them with the table conjugateRegularly builds. Works on any table,
+// including ones the model produced for verbs the engine doesn't know.
+
+// 'spelling': only the spelling of the stem changes to keep its sound (ficar → fiquei).
+// 'stem_change': a stem vowel changes (dormir → durmo, passear → passeio).
+// 'irregular': anything else (fazer → fiz).
+export type FormIrregularity = 'spelling' | 'stem_change' | 'irregular';
+
+export interface FormAnnotation {
+    kind: FormIrregularity;
+    // What the paradigm would give, e.g. "fazi" for "fiz".
+    regularForm: string;
+}
+
+export interface ConjugationIrregularities {
+    // Keyed by the path of the form in the table, e.g. "presente.eu" or "participio.1".
+    // Forms that follow the paradigm have no entry.
+    forms: Record<string, FormAnnotation>;
+    // Tenses with at least one form of each kind, in table order.
+    irregularTenses: string[];
+    stemChangeTenses: string[];
+    spellingTenses: string[];
+}
+
+// Stem vowels only alternate under stress, which in these tenses falls on the stem.
+const STEM_CHANGE_TENSES = ['presente', 'presente_do_subjuntivo', 'imperativo_afirmativo', 'imperativo_negativo'];
+
+const VOWELS = /^[aeiouáéíóúâêôãõ]*$/;
+
+// The conjugated word of compound and negative forms: "tenho feito" → "feito".
+const lastWord = (form: string) => form.trim().toLowerCase().split(/\s+/).pop() ?? '';
+
+// Whether `form` is `regular` with only vowels changed or inserted in the stem:
+// dormo → durmo, passeo → passeio, odio → odeio.
+const isStemVowelChange = (form: string, regular: string, stem: string): boolean => {
+    let prefix = 0;
+    while (prefix < form.length && prefix < regular.length && form[prefix] === regular[prefix]) prefix++;
+    let suffix = 0;
+    while (
+        suffix < form.length - prefix && suffix < regular.length - prefix &&
+        form[form.length - 1 - suffix] === regular[regular.length - 1 - suffix]
+    ) suffix++;
+    // The difference has to be confined to the stem, so that the ending is the regular one.
+    if (regular.length - suffix > stem.length) return false;
+    return VOWELS.test(form.slice(prefix, form.length - suffix)) && VOWELS.test(regular.slice(prefix, regular.length - suffix));
+};
+
+const classify = (form: string, regular: string, stem: string, stemChanges: boolean): FormIrregularity | null => {
+    const word = lastWord(form);
+    const regularWord = lastWord(regular);
+    if (word === regularWord) {
+        // The regular form itself is respelled when the spelling rules change its stem.
+        return regularWord.startsWith(stem) ? null : 'spelling';
+    }
+    if (stemChanges && isStemVowelChange(word, regularWord, stem)) {
+        return 'stem_change';
+    }
+    return 'irregular';
+};
+
+export const analyzeConjugations = (verb: string, conjugations: ConjugationData, variant?: LanguageVariant): ConjugationIrregularities | null => {
+    const regular = conjugateRegularly(verb, variant);
+    if (!regular) return null;
+
+    const infinitive = verb.trim().toLowerCase();
+    const stem = infinitive.slice(0, -2);
+    // pôr and its derivatives don't follow any paradigm closely enough to compare stems with.
+    const hasParadigm = /[aei]r$/.test(infinitive);
+    const regularForms = new Map(flattenTable(regular));
+    const result: ConjugationIrregularities = { forms: {}, irregularTenses: [], stemChangeTenses: [], spellingTenses: [] };
+    const tensesByKind: Record<FormIrregularity, string[]> = {
+        irregular: result.irregularTenses,
+        stem_change: result.stemChangeTenses,
+        spelling: result.spellingTenses,
+    };
+
+    flattenTable(conjugations).forEach(([path, form]) => {
+        // The second participle (aceito) has no regular counterpart; compare it with the first.
+        const regularForm = regularForms.get(path) ?? (path.startsWith('participio.') ? regularForms.get('participio.0') : undefined);
+        if (!regularForm || !form) return;
+
+        const tense = path.split('.')[0];
+        const kind = classify(form, regularForm, stem, hasParadigm && STEM_CHANGE_TENSES.includes(tense));
+        if (!kind) return;
+        result.forms[path] = { kind, regularForm };
+        if (!tensesByKind[kind].includes(tense)) {
+            tensesByKind[kind].push(tense);
+        }
+    });
+
+    return result;
+};
@@ -0,0 +1,463 @@
+import type { ConjugationData, ConjugationForms, LanguageVariant } from '../types';
+import {
+    EAR_LIKE_IAR_VERBS,
+    FULLY_RAISING_IR_ENDINGS,
+    HIATUS_STRESSED_STEMS,
+    IRREGULAR_VERBS,
+    LOWERING_IR_VERBS,
+    RAISING_IR_ENDINGS,
+    REGULAR_IR_VERBS,
+    UNSUPPORTED_VERBS,
+} from './verbParadigms';
+import type { IrregularVerb, PersonForms } from './verbParadigms';
+
+// Conjugates Portuguese verbs locally from the paradigm tables in verbParadigms.ts,
+// so that regular and common irregular verbs never need a model call. Verbs the rules can't
+// vouch for (defective verbs, unlisted stem-changing -ir verbs, ...) return null.
+
+type VerbClass = 'ar' | 'er' | 'ir';
+
+export interface ConjugateOptions {
+    // Conjugate verbs the engine doesn't recognise as if they were regular instead of
+    // returning null. Used by the offline mock provider.
+    assumeRegular?: boolean;
+    // Defaults to pt-BR. The variants only differ in the "nós" preterite of -ar verbs,
+    // which European Portuguese spells with an accent: falámos.
+    variant?: LanguageVariant;
+}
+
+// --- Endings ---
+
+const REGULAR_ENDINGS: Record<VerbClass, Record<'presente' | 'preterito_perfeito' | 'preterito_imperfeito' | 'presente_do_subjuntivo', PersonForms>> = {
+    ar: {
+        presente: ['o', 'as', 'a', 'amos', 'ais', 'am'],
+        preterito_perfeito: ['ei', 'aste', 'ou', 'amos', 'astes', 'aram'],
+        preterito_imperfeito: ['ava', 'avas', 'ava', 'ávamos', 'áveis', 'avam'],
+        presente_do_subjuntivo: ['e', 'es', 'e', 'emos', 'eis', 'em'],
+    },
+    er: {
+        presente: ['o', 'es', 'e', 'emos', 'eis', 'em'],
+        preterito_perfeito: ['i', 'este', 'eu', 'emos', 'estes', 'eram'],
+        preterito_imperfeito: ['ia', 'ias', 'ia', 'íamos', 'íeis', 'iam'],
+        presente_do_subjuntivo: ['a', 'as', 'a', 'amos', 'ais', 'am'],
+    },
+    ir: {
+        presente: ['o', 'es', 'e', 'imos', 'is', 'em'],
+        preterito_perfeito: ['i', 'iste', 'iu', 'imos', 'istes', 'iram'],
+        preterito_imperfeito: ['ia', 'ias', 'ia', 'íamos', 'íeis', 'iam'],
+        presente_do_subjuntivo: ['a', 'as', 'a', 'amos', 'ais', 'am'],
+    },
+};
+
+// -ir verbs whose stem ends in a vowel (sair, incluir) take an accent to mark the hiatus.
+const VOWEL_STEM_IR_ENDINGS = {
+    presente_air: ['io', 'is', 'i', 'ímos', 'ís', 'em'] as PersonForms,
+    presente_uir: ['o', 'is', 'i', 'ímos', 'ís', 'em'] as PersonForms,
+    preterito_perfeito: ['í', 'íste', 'iu', 'ímos', 'ístes', 'íram'] as PersonForms,
+    preterito_imperfeito: ['ía', 'ías', 'ía', 'íamos', 'íeis', 'íam'] as PersonForms,
+};
+
+const FUTURE_ENDINGS: PersonForms = ['ei', 'ás', 'á', 'emos', 'eis', 'ão'];
+const CONDITIONAL_ENDINGS: PersonForms = ['ia', 'ias', 'ia', 'íamos', 'íeis', 'iam'];
+const PLUPERFECT_ENDINGS: PersonForms = ['ra', 'ras', 'ra', 'ramos', 'reis', 'ram'];
+const IMPERFECT_SUBJUNCTIVE_ENDINGS: PersonForms = ['sse', 'sses', 'sse', 'ssemos', 'sseis', 'ssem'];
+const FUTURE_SUBJUNCTIVE_ENDINGS: PersonForms = ['r', 'res', 'r', 'rmos', 'rdes', 'rem'];
+const TER_PRESENTE = IRREGULAR_VERBS.ter.presente!;
+const TER_IMPERFEITO = IRREGULAR_VERBS.ter.preterito_imperfeito!;
+
+// Present forms whose stem carries the stress: eu, tu, você and vocês.
+const STRESSED_PERSONS = [0, 1, 2, 5];
+
+// Prefixed forms of ter and vir gain an accent: mantém, convéns.
+const DERIVED_MONOSYLLABLES: Record<string, string> = { tem: 'tém', tens: 'téns', vem: 'vém', vens: 'véns' };
+
+// --- Spelling ---
+
+const isFrontVowel = (ending: string) => /^[eéêiíî]/.test(ending);
+
+// Joins a stem and an ending, keeping the consonant sound of the stem:
+// ficar → fiquei, chegar → cheguei, começar → comecei, conhecer → conheço,
+// proteger → protejo, seguir → sigo.
+const attach = (stem: string, ending: string, verbClass: VerbClass): string => {
+    const front = isFrontVowel(ending);
+    if (verbClass === 'ar' && front) {
+        if (stem.endsWith('c')) return `${stem.slice(0, -1)}qu${ending}`;
+        if (stem.endsWith('g')) return `${stem.slice(0, -1)}gu${ending}`;
+        if (stem.endsWith('ç')) return `${stem.slice(0, -1)}c${ending}`;
+    }
+    if (verbClass !== 'ar' && !front) {
+        if (stem.endsWith('gu')) return `${stem.slice(0, -2)}g${ending}`;
+        if (stem.endsWith('c')) return `${stem.slice(0, -1)}ç${ending}`;
+        if (stem.endsWith('g')) return `${stem.slice(0, -1)}j${ending}`;
+    }
+    return stem + ending;
+};
+
+const withEndings = (stem: string | string[], endings: PersonForms, verbClass: VerbClass): PersonForms =>
+    endings.map((ending, person) => attach(Array.isArray(stem) ? stem[person] : stem, ending, verbClass)) as PersonForms;
+
+// The vowel before the personal ending, ignoring the silent u of gu/qu.
+const lastStemVowel = (stem: string): string | undefined =>
+    stem.replace(/([gq])u$/, '$1').match(/[aeiouáéíóúâêôãõ]/g)?.pop();
+
+const replaceLast = (text: string, search: string, replacement: string): string => {
+    const index = text.lastIndexOf(search);
+    return index === -1 ? text : text.slice(0, index) + replacement + text.slice(index + search.length);
+};
+
+// falá-, comê-, fizé-, fô- : the stressed vowel before -ssemos and -sseis.
+const accentThemeVowel = (base: string, strongPreterite: boolean): string => {
+    const accents: Record<string, string> = { a: 'á', e: strongPreterite ? 'é' : 'ê', i: 'í', o: 'ô' };
+    const last = base.slice(-1);
+    return accents[last] ? base.slice(0, -1) + accents[last] : base;
+};
+
+// --- Verb lookup ---
+
+const normalizeVerb = (verb: string): string => {
+    const infinitive = verb.trim().toLowerCase();
+    return infinitive === 'por' ? 'pôr' : infinitive;
+};
+
+const findIrregular = (infinitive: string): { entry: IrregularVerb; prefix: string } | null => {
+    if (IRREGULAR_VERBS[infinitive]) {
+        return { entry: IRREGULAR_VERBS[infinitive], prefix: '' };
+    }
+    for (const [base, entry] of Object.entries(IRREGULAR_VERBS)) {
+        if (entry.derivatives?.includes(infinitive)) {
+            return { entry, prefix: infinitive.slice(0, infinitive.length - base.length) };
+        }
+    }
+    return null;
+};
+
+const getVerbClass = (infinitive: string, isIrregular: boolean): VerbClass | null => {
+    // pôr and its derivatives are historically -er verbs; no other verb ends in -or.
+    if (/[oô]r$/.test(infinitive)) return isIrregular ? 'er' : null;
+    const ending = infinitive.slice(-2);
+    return ending === 'ar' || ending === 'er' || ending === 'ir' ? ending : null;
+};
+
+const endsWithAny = (infinitive: string, endings: string[]) => endings.some(ending => infinitive.endsWith(ending));
+
+const isVowelStemIr = (verbClass: VerbClass, stem: string) =>
+    verbClass === 'ir' && (/a$/.test(stem) || /[^gq]u$/.test(stem));
+
+// Whether the regular rules can be trusted for a verb that isn't in the irregular table.
+const isRecognisedRegular = (infinitive: string, verbClass: VerbClass, stem: string): boolean => {
+    if (UNSUPPORTED_VERBS.includes(infinitive) || /oer$|[gq]uar$/.test(infinitive)) return false;
+    if (verbClass !== 'ir') return true;
+    if (isVowelStemIr(verbClass, stem) || infinitive.endsWith('uzir') || HIATUS_STRESSED_STEMS[infinitive]) return true;
+    if (endsWithAny(infinitive, RAISING_IR_ENDINGS) || endsWithAny(infinitive, FULLY_RAISING_IR_ENDINGS)) return true;
+    if (LOWERING_IR_VERBS.includes(infinitive) || REGULAR_IR_VERBS.includes(infinitive)) return true;
+    // Only -ir verbs with e, o or u in the stem change their stem vowel.
+    const vowel = lastStemVowel(stem);
+    return vowel === 'a' || vowel === 'i';
+};
+
+// --- Tense builders ---
+
+interface PresentStems {
+    stems: string[];
+    // Set for changes that only follow the stress (passear → passeio but passeemos), so
+    // the nós and vós subjunctive forms keep the plain stem.
+    stressOnly: boolean;
+}
+
+const getPresentStems = (infinitive: string, verbClass: VerbClass, stem: string): PresentStems => {
+    const stems = Array<string>(6).fill(stem);
+    const stressed = (stressedStem: string, persons = STRESSED_PERSONS) =>
+        persons.forEach(person => { stems[person] = stressedStem; });
+
+    if (HIATUS_STRESSED_STEMS[infinitive]) {
+        stressed(HIATUS_STRESSED_STEMS[infinitive]);
+        return { stems, stressOnly: true };
+    }
+    if (verbClass === 'ar') {
+        if (stem.endsWith('e')) {
+            stressed(`${stem}i`);
+            return { stems, stressOnly: true };
+        }
+        if (EAR_LIKE_IAR_VERBS.includes(infinitive)) {
+            stressed(`${stem.slice(0, -1)}ei`);
+            return { stems, stressOnly: true };
+        }
+    }
+    if (verbClass === 'ir') {
+        const vowel = lastStemVowel(stem);
+        const raised = vowel === 'e' ? replaceLast(stem, 'e', 'i') : vowel === 'o' ? replaceLast(stem, 'o', 'u') : stem;
+        if (endsWithAny(infinitive, FULLY_RAISING_IR_ENDINGS)) {
+            stressed(raised);
+        } else if (endsWithAny(infinitive, RAISING_IR_ENDINGS)) {
+            stressed(raised, [0]);
+        } else if (LOWERING_IR_VERBS.includes(infinitive)) {
+            stressed(replaceLast(stem, 'u', 'o'), [1, 2, 5]);
+        }
+    }
+    return { stems, stressOnly: false };
+};
+
+const buildPresent = (infinitive: string, verbClass: VerbClass, stem: string, presentStems: PresentStems): PersonForms => {
+    if (isVowelStemIr(verbClass, stem)) {
+        return withEndings(stem, stem.endsWith('a') ? VOWEL_STEM_IR_ENDINGS.presente_air : VOWEL_STEM_IR_ENDINGS.presente_uir, verbClass);
+    }
+    const forms = withEndings(presentStems.stems, REGULAR_ENDINGS[verbClass].presente, verbClass);
+    if (infinitive.endsWith('uzir')) {
+        forms[2] = stem; // produzir → produz
+    }
+    return forms;
+};
+
+// The subjunctive is built on the "eu" present (faço → faça, sigo → siga). Only -ar verbs
+// need a spelling change, since their ending switches from o to e (fico → fique).
+const buildPresentSubjunctive = (verbClass: VerbClass, stem: string, presente: PersonForms, presentStems: PresentStems): PersonForms => {
+    const eu = presente[0];
+    const euStem = eu.endsWith('o') ? eu.slice(0, -1) : stem;
+    const join = (base: string, ending: string) => verbClass === 'ar' ? attach(base, ending, verbClass) : base + ending;
+    const endings = REGULAR_ENDINGS[verbClass].presente_do_subjuntivo;
+    const forms = endings.map(ending => join(euStem, ending)) as PersonForms;
+    if (presentStems.stressOnly) {
+        forms[3] = join(stem, endings[3]);
+        forms[4] = join(stem, endings[4]);
+    }
+    return forms;
+};
+
+const prefixForms = (prefix: string, forms: PersonForms): PersonForms =>
+    forms.map(form => {
+        if (!prefix) return form;
+        return prefix + (DERIVED_MONOSYLLABLES[form] ?? form);
+    }) as PersonForms;
+
+const toConjugationForms = (forms: PersonForms): ConjugationForms => ({
+    eu: forms[0],
+    tu: forms[1],
+    voce: forms[2],
+    nos: forms[3],
+    vos: forms[4],
+    voces: forms[5],
+});
+
+// --- Derived tenses ---
+// These only need the infinitive and forms that every conjugation table has, so they are
+// also used to complete tables saved before ConjugationData had them.
+
+// Strong preterites (fiz, tive, pus, dei) take é rather than ê: fizéssemos but comêssemos.
+const isStrongPreterite = (preteriteEu: string) => !preteriteEu.endsWith('i') || preteriteEu.endsWith('ei');
+
+// Built on the "eles" preterite: falaram → falasse, falara; fizeram → fizesse, fizera;
+// foram → fôssemos.
+const fromPreteriteBase = (preteriteEu: string, preteriteEles: string, endings: PersonForms): PersonForms => {
+    const base = preteriteEles.replace(/ram$/, '');
+    const stressedBase = accentThemeVowel(base, isStrongPreterite(preteriteEu));
+    return endings.map((ending, person) => (person === 3 || person === 4 ? stressedBase : base) + ending) as PersonForms;
+};
+
+// falaram → falar, falares; saíram → sair, saíres, sairmos.
+const buildFutureSubjunctive = (preteriteEles: string): PersonForms => {
+    const base = preteriteEles.replace(/ram$/, '');
+    const unstressedBase = base.replace(/í$/, 'i');
+    return FUTURE_SUBJUNCTIVE_ENDINGS.map((ending, person) =>
+        (person === 1 || person === 5 ? base : unstressedBase) + ending
+    ) as PersonForms;
+};
+
+// Infinitive without its final r, and without the accent of pôr.
+const infinitiveBase = (infinitive: string) => infinitive.slice(0, -1).replace(/ô$/, 'o');
+
+// falar, falares, falarmos; sair, saíres; pôr, pores.
+const buildPersonalInfinitive = (infinitive: string): PersonForms => {
+    const base = infinitiveBase(infinitive);
+    const stressedBase = /(a|[^gq]u)ir$/.test(infinitive) ? `${base.slice(0, -1)}í` : base;
+    return [infinitive, `${stressedBase}res`, infinitive, `${base}rmos`, `${base}rdes`, `${stressedBase}rem`];
+};
+
+const buildGerund = (infinitive: string) => `${infinitiveBase(infinitive)}ndo`;
+
+const buildCompound = (auxiliary: PersonForms, participle: string): ConjugationForms =>
+    toConjugationForms(auxiliary.map(form => `${form} ${participle}`) as PersonForms);
+
+// Affirmative tu and vós drop the final s of the present: falas → fala, falais → falai,
+// tens → tem, fazes → faz.
+const affirmativeFromPresent = (form: string | undefined): string | undefined => {
+    if (!form) return undefined;
+    if (form.endsWith('ns')) return `${form.slice(0, -2)}m`;
+    if (form.endsWith('zes')) return form.slice(0, -2);
+    return form.slice(0, -1);
+};
+
+const negate = (form: string | undefined) => form && `não ${form}`;
+
+// The negative imperative and the affirmative você, nós and vocês are the present
+// subjunctive forms. Tables without tu or vós forms get no tu or vós imperative.
+const buildImperatives = (
+    presente: ConjugationForms,
+    subjunctive: ConjugationForms,
+    entry: Pick<IrregularVerb, 'imperativeTu' | 'imperativeVos'> = {},
+): Pick<ConjugationData, 'imperativo_afirmativo' | 'imperativo_negativo'> => ({
+    imperativo_afirmativo: {
+        tu: presente.tu && (entry.imperativeTu ?? affirmativeFromPresent(presente.tu)),
+        voce: subjunctive.voce,
+        nos: subjunctive.nos,
+        vos: presente.vos && (entry.imperativeVos ?? affirmativeFromPresent(presente.vos)),
+        voces: subjunctive.voces,
+    },
+    imperativo_negativo: {
+        tu: negate(subjunctive.tu),
+        voce: negate(subjunctive.voce),
+        nos: negate(subjunctive.nos),
+        vos: negate(subjunctive.vos),
+        voces: negate(subjunctive.voces),
+    },
+});
+
+interface TableRules {
+    entry: IrregularVerb;
+    // Prepended to the forms in `entry`, for prefixed verbs such as manter.
+    prefix: string;
+    presentStems: PresentStems;
+    variant?: LanguageVariant;
+}
+
+const buildTable = (infinitive: string, verbClass: VerbClass, stem: string, { entry, prefix, presentStems, variant }: TableRules): ConjugationData => {
+    const override = (forms: PersonForms | undefined, fallback: () => PersonForms) =>
+        forms ? prefixForms(prefix, forms) : fallback();
+    const vowelStem = isVowelStemIr(verbClass, stem);
+
+    const presente = override(entry.presente, () => buildPresent(infinitive, verbClass, stem, presentStems));
+    const preteritoPerfeito = override(entry.preterito_perfeito, () =>
+        withEndings(stem, vowelStem ? VOWEL_STEM_IR_ENDINGS.preterito_perfeito : REGULAR_ENDINGS[verbClass].preterito_perfeito, verbClass)
+    );
+    if (variant === 'pt-PT' && verbClass === 'ar' && !entry.preterito_perfeito) {
+        preteritoPerfeito[3] = replaceLast(preteritoPerfeito[3], 'amos', 'ámos');
+    }
+    const preteritoImperfeito = override(entry.preterito_imperfeito, () =>
+        withEndings(stem, vowelStem ? VOWEL_STEM_IR_ENDINGS.preterito_imperfeito : REGULAR_ENDINGS[verbClass].preterito_imperfeito, verbClass)
+    );
+    const presenteDoSubjuntivo = toConjugationForms(override(entry.presente_do_subjuntivo, () =>
+        buildPresentSubjunctive(verbClass, stem, presente, presentStems)
+    ));
+
+    const futureStem = entry.futureStem ? prefix + entry.futureStem : infinitive;
+    const participio = entry.participio
+        ? prefix + entry.participio
+        : attach(stem, verbClass === 'ar' ? 'ado' : vowelStem ? 'ído' : 'ido', verbClass);
+    const [preteriteEu, preteriteEles] = [preteritoPerfeito[0], preteritoPerfeito[5]];
+
+    return {
+        presente: toConjugationForms(presente),
+        preterito_perfeito: toConjugationForms(preteritoPerfeito),
+        preterito_imperfeito: toConjugationForms(preteritoImperfeito),
+        preterito_mais_que_perfeito: toConjugationForms(fromPreteriteBase(preteriteEu, preteriteEles, PLUPERFECT_ENDINGS)),
+        preterito_perfeito_composto: buildCompound(TER_PRESENTE, participio),
+        preterito_mais_que_perfeito_composto: buildCompound(TER_IMPERFEITO, participio),
+        futuro_do_presente: toConjugationForms(FUTURE_ENDINGS.map(ending => futureStem + ending) as PersonForms),
+        futuro_do_preterito: toConjugationForms(CONDITIONAL_ENDINGS.map(ending => futureStem + ending) as PersonForms),
+        presente_do_subjuntivo: presenteDoSubjuntivo,
+        imperfeito_do_subjuntivo: toConjugationForms(fromPreteriteBase(preteriteEu, preteriteEles, IMPERFECT_SUBJUNCTIVE_ENDINGS)),
+        futuro_do_subjuntivo: toConjugationForms(buildFutureSubjunctive(preteriteEles)),
+        ...buildImperatives(toConjugationForms(presente), presenteDoSubjuntivo, {
+            imperativeTu: entry.imperativeTu && prefix + entry.imperativeTu,
+            imperativeVos: entry.imperativeVos && prefix + entry.imperativeVos,
+        }),
+        infinitivo_pessoal: toConjugationForms(buildPersonalInfinitive(infinitive)),
+        gerundio: buildGerund(infinitive),
+        participio: entry.shortParticiple ? [participio, prefix + entry.shortParticiple] : [participio],
+    };
+};
+
+// --- Public API ---
+
+export const conjugateVerb = (verb: string, options: ConjugateOptions = {}): ConjugationData | null => {
+    const infinitive = normalizeVerb(verb);
+    if (!/^[a-zà-ü]+$/.test(infinitive)) return null;
+
+    const irregular = findIrregular(infinitive);
+    const verbClass = getVerbClass(infinitive, Boolean(irregular));
+    if (!verbClass) return null;
+
+    const stem = infinitive.slice(0, -2);
+    if (!irregular && !options.assumeRegular && !isRecognisedRegular(infinitive, verbClass, stem)) {
+        return null;
+    }
+
+    const { entry = {}, prefix = '' } = irregular ?? {};
+    return buildTable(infinitive, verbClass, stem, {
+        entry,
+        prefix,
+        presentStems: getPresentStems(infinitive, verbClass, stem),
+        variant: options.variant,
+    });
+};
+
+// The table a verb would have if it followed the paradigm of its class exactly: no
+// irregular forms and no stem vowel changes, only the spelling changes that keep the sound
+// of the stem (ficar → fiquei). Used to point out where a verb departs from the paradigm.
+export const conjugateRegularly = (verb: string, variant?: LanguageVariant): ConjugationData | null => {
+    const infinitive = normalizeVerb(verb);
+    const verbClass = getVerbClass(infinitive, Boolean(findIrregular(infinitive)));
+    if (!verbClass) return null;
+
+    const stem = infinitive.slice(0, -2);
+    return buildTable(infinitive, verbClass, stem, {
+        entry: {},
+        prefix: '',
+        presentStems: { stems: Array<string>(6).fill(stem), stressOnly: false },
+        variant,
+    });
+};
+
+// Whether a verb is named in verbParadigms.ts, either with forms of its own or in one of the
+// lists of stem-changing verbs, rather than only fitting the regular rules. A guessed
+// infinitive that passes is a real verb.
+export const isListedVerb = (verb: string): boolean => {
+    const infinitive = normalizeVerb(verb);
+    if (findIrregular(infinitive) || EAR_LIKE_IAR_VERBS.includes(infinitive) || HIATUS_STRESSED_STEMS[infinitive]) return true;
+    return infinitive.endsWith('ir') && (
+        endsWithAny(infinitive, RAISING_IR_ENDINGS) || endsWithAny(infinitive, FULLY_RAISING_IR_ENDINGS) ||
+        LOWERING_IR_VERBS.includes(infinitive) || REGULAR_IR_VERBS.includes(infinitive)
+    );
+};
+
+// Every verb with forms of its own in verbParadigms.ts, including prefixed ones (manter).
+export const listIrregularVerbs = (): string[] =>
+    Object.entries(IRREGULAR_VERBS).flatMap(([verb, entry]) => [verb, ...(entry.derivatives ?? [])]);
+
+// Every cell of a table with its path:
+// { presente: { eu: 'falo' }, participio: ['falado'] } → [['presente.eu', 'falo'], ['participio.0', 'falado']]
+export const flattenTable = (value: unknown, path = ''): [string, string][] => {
+    if (typeof value === 'string') return [[path, value]];
+    if (typeof value !== 'object' || value === null) return [];
+    return Object.entries(value).flatMap(([key, child]) => flattenTable(child, path ? `${path}.${key}` : key));
+};
+
+// Every distinct form in a table, e.g. the wrong forms a drill answer is checked against.
+export const listForms = (table: ConjugationData): string[] =>
+    Array.from(new Set(flattenTable(table).map(([, form]) => form)));
+
+// The tenses ConjugationData had before the mais-que-perfeito, future subjunctive,
+// imperative and non-finite forms were added.
+export type LegacyConjugationData = Pick<ConjugationData,
+    'presente' | 'preterito_perfeito' | 'preterito_imperfeito' | 'preterito_perfeito_composto' |
+    'futuro_do_presente' | 'futuro_do_preterito' | 'presente_do_subjuntivo' | 'imperfeito_do_subjuntivo'>;
+
+// Completes a table in the old shape (e.g. one the model produced for a verb the engine
+// doesn't know) by deriving the missing forms from the ones it has.
+export const extendLegacyConjugations = (verb: string, legacy: LegacyConjugationData): ConjugationData => {
+    const infinitive = normalizeVerb(verb);
+    const { eu: preteriteEu, voces: preteriteEles } = legacy.preterito_perfeito;
+    // "tenho falado" → "falado"
+    const participio = legacy.preterito_perfeito_composto.eu.trim().split(/\s+/).slice(1).join(' ');
+    const shortParticiple = findIrregular(infinitive)?.entry.shortParticiple;
+
+    return {
+        ...legacy,
+        preterito_mais_que_perfeito: toConjugationForms(fromPreteriteBase(preteriteEu, preteriteEles, PLUPERFECT_ENDINGS)),
+        preterito_mais_que_perfeito_composto: buildCompound(TER_IMPERFEITO, participio),
+        futuro_do_subjuntivo: toConjugationForms(buildFutureSubjunctive(preteriteEles)),
+        ...buildImperatives(legacy.presente, legacy.presente_do_subjuntivo),
+        infinitivo_pessoal: toConjugationForms(buildPersonalInfinitive(infinitive)),
+        gerundio: buildGerund(infinitive),
+        participio: shortParticiple ? [participio, shortParticiple] : [participio],
+    };
+};
@@ -0,0 +1,43 @@
+import type { ConjugationForms } from '../types';
+import { isPlainObject } from './typeGuards';
+
+// Drill results per conjugation cell (verb × tense × pronoun). Mastery is the share of the
+// most recent answers that were right, so old mistakes stop counting once a form is learnt.
+
+const RECENT_ANSWERS = 5;
+
+export interface CellMastery {
+    // Oldest first, at most RECENT_ANSWERS long.
+    recent: boolean[];
+    attempts: number;
+    lastPracticed: number;
+}
+
+export type ConjugationMastery = Record<string, CellMastery>;
+
+export const getMasteryKey = (verb: string, tense: string, pronoun: keyof ConjugationForms): string =>
+    `${verb.trim().toLowerCase()}|${tense}|${pronoun}`;
+
+export const recordAnswer = (mastery: ConjugationMastery, key: string, correct: boolean): ConjugationMastery => {
+    const previous = mastery[key];
+    return {
+        ...mastery,
+        [key]: {
+            recent: [...(previous?.recent ?? []), correct].slice(-RECENT_ANSWERS),
+            attempts: (previous?.attempts ?? 0) + 1,
+            lastPracticed: Date.now(),
+        },
+    };
+};
+
+// 0 to 1, or null for a cell that has never been drilled. Cells with fewer than
+// RECENT_ANSWERS answers count the missing ones as wrong, so one lucky answer isn't mastery.
+export const getMasteryLevel = (cell: CellMastery | undefined): number | null => {
+    if (!cell || cell.recent.length === 0) return null;
+    return cell.recent.filter(Boolean).length / RECENT_ANSWERS;
+};
+
+export const isConjugationMastery = (value: unknown): value is ConjugationMastery =>
+    isPlainObject(value) && Object.values(value).every(cell =>
+        isPlainObject(cell) && Array.isArray(cell.recent) && typeof cell.attempts === 'number' && typeof cell.lastPracticed === 'number'
+    );
@@ -0,0 +1,106 @@
+import { TENSE_LABELS } from '../constants';
+
+// Hash routes, so that links work on any static host: #/verbs/fazer/preterito_perfeito/eu,
+// #/grammar/present_subjunctive/drill, #/vocabulary/food_dining and
+// #/functions/food_and_travel/at-a-restaurant/ordering-food-and-drinks.
+
+export type AppView = 'conjugator' | 'grammar' | 'vocabulary' | 'functional' | 'ai_chat';
+
+// 'practice' is the topic's menu of activities and has no segment of its own.
+export type GrammarMode = 'practice' | 'theory' | 'paragraph' | 'drill' | 'writing' | 'speaking';
+
+export interface AppRoute {
+    view: AppView;
+    // Conjugator: the verb in lower case and the cell, e.g. "presente.eu" or "participio.1".
+    verb?: string;
+    conjugationPath?: string;
+    // Grammar
+    topicId?: string;
+    grammarMode?: GrammarMode;
+    // Vocabulary
+    categoryId?: string;
+    // Functions: the domain id, then the subtopic and function as slugs.
+    domainId?: string;
+    subtopic?: string;
+    func?: string;
+}
+
+const VIEW_SEGMENTS: Record<AppView, string> = {
+    conjugator: 'verbs',
+    grammar: 'grammar',
+    vocabulary: 'vocabulary',
+    functional: 'functions',
+    ai_chat: 'chat',
+};
+
+const GRAMMAR_MODES: GrammarMode[] = ['practice', 'theory', 'paragraph', 'drill', 'writing', 'speaking'];
+
+// A Set rather than `in`, which would also accept inherited names like "toString".
+const KNOWN_TENSES = new Set(Object.keys(TENSE_LABELS));
+
+// "Asking for the bill" → "asking-for-the-bill"; used for names that have no id.
+export const toRouteSlug = (text: string): string =>
+    text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+const decodeSegment = (segment: string) => {
+    try {
+        return decodeURIComponent(segment);
+    } catch {
+        return segment;
+    }
+};
+
+// Anything that isn't a known route opens the conjugator.
+export const parseRoute = (hash: string): AppRoute => {
+    const [viewSegment, ...params] = hash.replace(/^#\/?/, '').split('/').filter(Boolean).map(decodeSegment);
+    const view = (Object.keys(VIEW_SEGMENTS) as AppView[]).find(v => VIEW_SEGMENTS[v] === viewSegment) ?? 'conjugator';
+
+    switch (view) {
+        case 'conjugator': {
+            const [verb, tense, person] = params;
+            if (!verb) return { view };
+            const isKnownTense = KNOWN_TENSES.has(tense);
+            return {
+                view,
+                verb: verb.toLowerCase(),
+                conjugationPath: isKnownTense ? (person ? `${tense}.${person}` : tense) : undefined,
+            };
+        }
+        case 'grammar': {
+            const [topicId, mode] = params;
+            return {
+                view,
+                topicId,
+                grammarMode: topicId ? (GRAMMAR_MODES.find(m => m === mode) ?? 'practice') : undefined,
+            };
+        }
+        case 'vocabulary':
+            return { view, categoryId: params[0] };
+        case 'functional': {
+            const [domainId, subtopic, func] = params;
+            return { view, domainId, subtopic: func ? subtopic : undefined, func };
+        }
+        default:
+            return { view };
+    }
+};
+
+export const formatRoute = (route: AppRoute): string => {
+    let params: (string | undefined)[] = [];
+    switch (route.view) {
+        case 'conjugator':
+            params = route.verb ? [route.verb.toLowerCase(), ...(route.conjugationPath?.split('.') ?? [])] : [];
+            break;
+        case 'grammar':
+            params = route.topicId ? [route.topicId, route.grammarMode !== 'practice' ? route.grammarMode : undefined] : [];
+            break;
+        case 'vocabulary':
+            params = [route.categoryId];
+            break;
+        case 'functional':
+            params = route.domainId ? [route.domainId, route.func && route.subtopic, route.subtopic && route.func] : [];
+            break;
+    }
+    const segments = [VIEW_SEGMENTS[route.view], ...params.filter(Boolean).map(encodeURIComponent)];
+    return `#/${segments.join('/')}`;
+};
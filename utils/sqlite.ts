@@ -0,0 +1,223 @@
+// Minimal SQLite writer for downloads made in the browser, enough for an Anki package. It
+// writes a new database file holding the given tables and their rows, without indexes,
+// following the file format at https://www.sqlite.org/fileformat2.html.
+
+export type SqlValue = number | string | null;
+
+export interface SqliteTable {
+    name: string;
+    // The CREATE TABLE statement, kept as is in sqlite_master.
+    sql: string;
+    // Index of the column declared INTEGER PRIMARY KEY, whose values are the rowids. Without
+    // one, rows are numbered from 1.
+    rowidColumn?: number;
+    rows: SqlValue[][];
+}
+
+const PAGE_SIZE = 4096;
+const DATABASE_HEADER_SIZE = 100;
+const LEAF_TABLE_PAGE = 0x0d;
+const INTERIOR_TABLE_PAGE = 0x05;
+// The largest payload kept on a leaf page, and the least kept there when the rest overflows.
+const MAX_LOCAL_PAYLOAD = PAGE_SIZE - 35;
+const MIN_LOCAL_PAYLOAD = Math.floor(((PAGE_SIZE - 12) * 32) / 255) - 23;
+
+// Big-endian, seven bits per byte. Values here stay below 2^56, so the nine-byte form with its
+// eight-bit last byte is never needed.
+const encodeVarint = (value: number): number[] => {
+    const bytes = [value % 128];
+    for (let rest = Math.floor(value / 128); rest > 0; rest = Math.floor(rest / 128)) {
+        bytes.unshift((rest % 128) | 0x80);
+    }
+    return bytes;
+};
+
+// Serial types 1 to 6 hold integers of these many bytes.
+const INTEGER_SIZES = [1, 2, 3, 4, 6, 8];
+
+const encodeValue = (value: SqlValue, encoder: TextEncoder): { type: number; body: Uint8Array } => {
+    if (value === null) return { type: 0, body: new Uint8Array(0) };
+    if (typeof value === 'string') {
+        const body = encoder.encode(value);
+        return { type: body.length * 2 + 13, body };
+    }
+    if (!Number.isInteger(value)) {
+        const body = new Uint8Array(8);
+        new DataView(body.buffer).setFloat64(0, value);
+        return { type: 7, body };
+    }
+    if (value === 0 || value === 1) return { type: value + 8, body: new Uint8Array(0) };
+
+    const sizeIndex = INTEGER_SIZES.findIndex(size => size === 8 || Math.abs(value) < 2 ** (size * 8 - 1));
+    const size = INTEGER_SIZES[sizeIndex];
+    // Two's complement, most significant byte first.
+    let bits = BigInt.asUintN(size * 8, BigInt(value));
+    const body = new Uint8Array(size);
+    for (let i = size - 1; i >= 0; i--) {
+        body[i] = Number(bits & 0xffn);
+        bits >>= 8n;
+    }
+    return { type: sizeIndex + 1, body };
+};
+
+const encodeRecord = (values: SqlValue[], encoder: TextEncoder): Uint8Array => {
+    const encoded = values.map(value => encodeValue(value, encoder));
+    const types = encoded.flatMap(({ type }) => encodeVarint(type));
+    // The header size counts its own varint.
+    let headerSize = types.length + 1;
+    while (encodeVarint(headerSize).length + types.length !== headerSize) headerSize++;
+
+    const record = new Uint8Array(headerSize + encoded.reduce((total, { body }) => total + body.length, 0));
+    record.set([...encodeVarint(headerSize), ...types]);
+    let position = headerSize;
+    encoded.forEach(({ body }) => {
+        record.set(body, position);
+        position += body.length;
+    });
+    return record;
+};
+
+const concat = (parts: (Uint8Array | number[])[]): Uint8Array => {
+    const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+    let position = 0;
+    parts.forEach(part => {
+        result.set(part, position);
+        position += part.length;
+    });
+    return result;
+};
+
+export const createSqliteDatabase = (tables: SqliteTable[]): Uint8Array => {
+    const encoder = new TextEncoder();
+    // Page n is pages[n - 1]; page 1 starts with the database header and holds sqlite_master.
+    const pages: Uint8Array[] = [new Uint8Array(PAGE_SIZE)];
+    const allocatePage = () => {
+        pages.push(new Uint8Array(PAGE_SIZE));
+        return pages.length;
+    };
+
+    // A leaf cell: the payload size, the rowid and as much of the payload as fits, followed by
+    // the number of the first overflow page holding the rest.
+    const createLeafCell = (rowid: number, payload: Uint8Array): Uint8Array => {
+        const prefix = [...encodeVarint(payload.length), ...encodeVarint(rowid)];
+        if (payload.length <= MAX_LOCAL_PAYLOAD) return concat([prefix, payload]);
+
+        const spread = MIN_LOCAL_PAYLOAD + ((payload.length - MIN_LOCAL_PAYLOAD) % (PAGE_SIZE - 4));
+        const localSize = spread <= MAX_LOCAL_PAYLOAD ? spread : MIN_LOCAL_PAYLOAD;
+        const overflowPages: number[] = [];
+        for (let offset = localSize; offset < payload.length; offset += PAGE_SIZE - 4) {
+            const pageNumber = allocatePage();
+            pages[pageNumber - 1].set(payload.subarray(offset, offset + PAGE_SIZE - 4), 4);
+            if (overflowPages.length > 0) {
+                new DataView(pages[overflowPages[overflowPages.length - 1] - 1].buffer).setUint32(0, pageNumber);
+            }
+            overflowPages.push(pageNumber);
+        }
+        const pointer = new Uint8Array(4);
+        new DataView(pointer.buffer).setUint32(0, overflowPages[0]);
+        return concat([prefix, payload.subarray(0, localSize), pointer]);
+    };
+
+    const writePage = (pageNumber: number, type: number, cells: Uint8Array[], rightChild?: number) => {
+        const page = pages[pageNumber - 1];
+        const view = new DataView(page.buffer);
+        const headerOffset = pageNumber === 1 ? DATABASE_HEADER_SIZE : 0;
+        const headerSize = type === LEAF_TABLE_PAGE ? 8 : 12;
+        let contentStart = PAGE_SIZE;
+        cells.forEach((cell, index) => {
+            contentStart -= cell.length;
+            page.set(cell, contentStart);
+            view.setUint16(headerOffset + headerSize + index * 2, contentStart);
+        });
+        page[headerOffset] = type;
+        view.setUint16(headerOffset + 3, cells.length);
+        view.setUint16(headerOffset + 5, contentStart);
+        if (rightChild !== undefined) view.setUint32(headerOffset + 8, rightChild);
+    };
+
+    // Splits cells into runs that fit on a page, next to their two-byte pointers.
+    const groupCells = <C extends { size: number }>(cells: C[], capacity: number): C[][] => {
+        const groups: C[][] = [[]];
+        let used = 0;
+        cells.forEach(cell => {
+            if (groups[groups.length - 1].length > 0 && used + cell.size + 2 > capacity) {
+                groups.push([]);
+                used = 0;
+            }
+            groups[groups.length - 1].push(cell);
+            used += cell.size + 2;
+        });
+        return groups;
+    };
+
+    // Builds the b-tree bottom up and returns its root page. Rows must be in rowid order.
+    const writeTable = (rows: { rowid: number; record: Uint8Array }[], rootPage?: number): number => {
+        const cells = rows.map(({ rowid, record }) => {
+            const cell = createLeafCell(rowid, record);
+            return { rowid, cell, size: cell.length };
+        });
+        const leafCapacity = PAGE_SIZE - 8 - (rootPage === 1 ? DATABASE_HEADER_SIZE : 0);
+        const leafGroups = groupCells(cells, leafCapacity);
+        if (rootPage !== undefined && leafGroups.length > 1) {
+            throw new Error("The table doesn't fit on its root page.");
+        }
+
+        let level = leafGroups.map(group => {
+            const pageNumber = rootPage ?? allocatePage();
+            writePage(pageNumber, LEAF_TABLE_PAGE, group.map(({ cell }) => cell));
+            return { pageNumber, maxRowid: group.length > 0 ? group[group.length - 1].rowid : 0 };
+        });
+        while (level.length > 1) {
+            // Each child but the last gets a cell keyed by its largest rowid; the last is the
+            // page's right child.
+            const children = level.map(child => ({ ...child, size: 4 + encodeVarint(child.maxRowid).length }));
+            const groups = groupCells(children, PAGE_SIZE - 12);
+            const last = groups[groups.length - 1];
+            if (last.length === 1 && groups.length > 1) last.unshift(groups[groups.length - 2].pop()!);
+            level = groups.map(group => {
+                const pageNumber = allocatePage();
+                const cells = group.slice(0, -1).map(child => {
+                    const pointer = new Uint8Array(4);
+                    new DataView(pointer.buffer).setUint32(0, child.pageNumber);
+                    return concat([pointer, encodeVarint(child.maxRowid)]);
+                });
+                writePage(pageNumber, INTERIOR_TABLE_PAGE, cells, group[group.length - 1].pageNumber);
+                return { pageNumber, maxRowid: group[group.length - 1].maxRowid };
+            });
+        }
+        return level[0].pageNumber;
+    };
+
+    const schemaRows = tables.map((table, index) => {
+        const rows = table.rows
+            .map((values, rowIndex) => {
+                const { rowidColumn } = table;
+                if (rowidColumn === undefined) return { rowid: rowIndex + 1, values };
+                // The rowid alias is stored as NULL in the record.
+                return { rowid: values[rowidColumn] as number, values: values.map((value, column) => (column === rowidColumn ? null : value)) };
+            })
+            .sort((a, b) => a.rowid - b.rowid)
+            .map(({ rowid, values }) => ({ rowid, record: encodeRecord(values, encoder) }));
+        const rootPage = writeTable(rows);
+        return { rowid: index + 1, record: encodeRecord(['table', table.name, table.name, rootPage, table.sql], encoder) };
+    });
+    writeTable(schemaRows, 1);
+
+    const header = new DataView(pages[0].buffer);
+    encoder.encodeInto('SQLite format 3\0', pages[0]);
+    header.setUint16(16, PAGE_SIZE);
+    // File format versions (legacy, no WAL), no reserved bytes, and the fixed payload fractions.
+    pages[0].set([1, 1, 0, 64, 32, 32], 18);
+    // The change counter, and the same number as the "version valid for" below, so that the
+    // page count is trusted.
+    header.setUint32(24, 1);
+    header.setUint32(28, pages.length);
+    // Schema cookie, schema format 4 and UTF-8 text.
+    header.setUint32(40, 1);
+    header.setUint32(44, 4);
+    header.setUint32(56, 1);
+    header.setUint32(92, 1);
+    header.setUint32(96, 3046000);
+
+    return concat(pages);
+};
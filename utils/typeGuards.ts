@@ -0,0 +1,8 @@
+// Checks for data whose shape isn't known yet: records read back from storage, backup files
+// and model responses. Fields of a plain object are still unknown and need checking too.
+
+export const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const isStringArray = (value: unknown): value is string[] =>
+    Array.isArray(value) && value.every(item => typeof item === 'string');
@@ -0,0 +1,118 @@
+import type { NamedVerbList, VerbListsState } from '../types';
+import { isPlainObject, isStringArray } from './typeGuards';
+
+// Pure updates for the user's named verb lists. Each returns a new state, so they can be
+// passed straight to a state setter.
+
+export const DEFAULT_LIST_NAME = 'Default';
+
+const sameVerb = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+const normalizeTag = (tag: string) => tag.trim().toLowerCase().replace(/\s+/g, ' ');
+
+export const createVerbList = (name: string, verbs: string[] = []): NamedVerbList => ({
+    id: `list-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
+    name: name.trim() || DEFAULT_LIST_NAME,
+    entries: verbs.map(verb => ({ verb, tags: [] })),
+});
+
+export const createVerbListsState = (verbs: string[]): VerbListsState => {
+    const list = createVerbList(DEFAULT_LIST_NAME, verbs);
+    return { lists: [list], activeListId: list.id };
+};
+
+export const isVerbListsState = (value: unknown): value is VerbListsState => {
+    if (!isPlainObject(value)) return false;
+    const { lists, activeListId } = value;
+    return Array.isArray(lists) && lists.length > 0 && typeof activeListId === 'string' &&
+        lists.every((list: unknown) =>
+            isPlainObject(list) && typeof list.id === 'string' && typeof list.name === 'string' && Array.isArray(list.entries) &&
+            list.entries.every((entry: unknown) => isPlainObject(entry) && typeof entry.verb === 'string' && isStringArray(entry.tags))
+        );
+};
+
+export const getActiveList = (state: VerbListsState): NamedVerbList =>
+    state.lists.find(list => list.id === state.activeListId) ?? state.lists[0];
+
+const updateList = (state: VerbListsState, listId: string, update: (list: NamedVerbList) => NamedVerbList): VerbListsState => ({
+    ...state,
+    lists: state.lists.map(list => list.id === listId ? update(list) : list),
+});
+
+// --- Lists ---
+
+export const addList = (state: VerbListsState, list: NamedVerbList): VerbListsState => ({
+    lists: [...state.lists, list],
+    activeListId: list.id,
+});
+
+export const renameList = (state: VerbListsState, listId: string, name: string): VerbListsState =>
+    name.trim() ? updateList(state, listId, list => ({ ...list, name: name.trim() })) : state;
+
+// The last list can't be deleted, so there is always one to add verbs to.
+export const deleteList = (state: VerbListsState, listId: string): VerbListsState => {
+    if (state.lists.length <= 1) return state;
+    const lists = state.lists.filter(list => list.id !== listId);
+    return {
+        lists,
+        activeListId: state.activeListId === listId ? lists[0].id : state.activeListId,
+    };
+};
+
+// --- Verbs in a list ---
+
+// New verbs go to the top of the list, as before lists existed.
+export const addVerbToList = (state: VerbListsState, listId: string, verb: string): VerbListsState =>
+    updateList(state, listId, list =>
+        list.entries.some(entry => sameVerb(entry.verb, verb))
+            ? list
+            : { ...list, entries: [{ verb, tags: [] }, ...list.entries] }
+    );
+
+export const removeVerbFromList = (state: VerbListsState, listId: string, verb: string): VerbListsState =>
+    updateList(state, listId, list => ({ ...list, entries: list.entries.filter(entry => !sameVerb(entry.verb, verb)) }));
+
+// Moves `verb` to the position `targetVerb` currently holds.
+export const moveVerbInList = (state: VerbListsState, listId: string, verb: string, targetVerb: string): VerbListsState =>
+    updateList(state, listId, list => {
+        const from = list.entries.findIndex(entry => sameVerb(entry.verb, verb));
+        const to = list.entries.findIndex(entry => sameVerb(entry.verb, targetVerb));
+        if (from === -1 || to === -1 || from === to) return list;
+        const entries = [...list.entries];
+        const [moved] = entries.splice(from, 1);
+        entries.splice(to, 0, moved);
+        return { ...list, entries };
+    });
+
+export const setVerbTags = (state: VerbListsState, listId: string, verb: string, tags: string[]): VerbListsState =>
+    updateList(state, listId, list => ({
+        ...list,
+        entries: list.entries.map(entry => sameVerb(entry.verb, verb)
+            ? { ...entry, tags: Array.from(new Set(tags.map(normalizeTag).filter(Boolean))) }
+            : entry),
+    }));
+
+// Every tag used in a list, alphabetically.
+export const getListTags = (list: NamedVerbList): string[] =>
+    Array.from(new Set(list.entries.flatMap(entry => entry.tags))).sort((a, b) => a.localeCompare(b));
+
+// --- Merging ---
+
+// Adds the lists of `incoming`, e.g. from a backup, to `state`. A list with the same name
+// gains the verbs it was missing, and tags are combined; the active list stays the same.
+export const mergeVerbLists = (state: VerbListsState, incoming: VerbListsState): VerbListsState =>
+    incoming.lists.reduce((merged, incomingList) => {
+        const existing = merged.lists.find(list => list.name.toLowerCase() === incomingList.name.toLowerCase());
+        if (!existing) {
+            const isIdTaken = merged.lists.some(list => list.id === incomingList.id);
+            return { ...merged, lists: [...merged.lists, isIdTaken ? { ...createVerbList(incomingList.name), entries: incomingList.entries } : incomingList] };
+        }
+        return updateList(merged, existing.id, list => {
+            const entries = list.entries.map(entry => {
+                const match = incomingList.entries.find(other => sameVerb(other.verb, entry.verb));
+                return match ? { ...entry, tags: Array.from(new Set([...entry.tags, ...match.tags])) } : entry;
+            });
+            const missing = incomingList.entries.filter(other => !list.entries.some(entry => sameVerb(entry.verb, other.verb)));
+            return { ...list, entries: [...entries, ...missing] };
+        });
+    }, state);
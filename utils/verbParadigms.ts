@@ -0,0 +1,245 @@
+// Paradigm tables for the conjugation engine. Person order everywhere is
+// eu, tu, você/ele/ela, nós, vós, vocês/eles/elas.
+
+export type PersonForms = [string, string, string, string, string, string];
+
+// Only the tenses that can't be derived by rule are listed. Everything else is built from
+// these: the present subjunctive and the imperative from the present, the imperfect
+// and future subjunctive and the mais-que-perfeito from the "eles" preterite, and the
+// future and conditional from `futureStem` (or the infinitive).
+export interface IrregularVerb {
+    presente?: PersonForms;
+    preterito_perfeito?: PersonForms;
+    preterito_imperfeito?: PersonForms;
+    presente_do_subjuntivo?: PersonForms;
+    futureStem?: string;
+    participio?: string;
+    // Second participle used with ser and estar by verbs that have two (aceitado, aceito).
+    shortParticiple?: string;
+    // Affirmative tu and vós imperatives that aren't the present without its final s.
+    imperativeTu?: string;
+    imperativeVos?: string;
+    // Prefixed verbs conjugated like this one, e.g. manter → ter.
+    derivatives?: string[];
+}
+
+const FUI: PersonForms = ['fui', 'foste', 'foi', 'fomos', 'fostes', 'foram'];
+
+export const IRREGULAR_VERBS: Record<string, IrregularVerb> = {
+    ser: {
+        presente: ['sou', 'és', 'é', 'somos', 'sois', 'são'],
+        preterito_perfeito: FUI,
+        preterito_imperfeito: ['era', 'eras', 'era', 'éramos', 'éreis', 'eram'],
+        presente_do_subjuntivo: ['seja', 'sejas', 'seja', 'sejamos', 'sejais', 'sejam'],
+        imperativeTu: 'sê',
+        imperativeVos: 'sede',
+    },
+    estar: {
+        presente: ['estou', 'estás', 'está', 'estamos', 'estais', 'estão'],
+        preterito_perfeito: ['estive', 'estiveste', 'esteve', 'estivemos', 'estivestes', 'estiveram'],
+        presente_do_subjuntivo: ['esteja', 'estejas', 'esteja', 'estejamos', 'estejais', 'estejam'],
+    },
+    ter: {
+        presente: ['tenho', 'tens', 'tem', 'temos', 'tendes', 'têm'],
+        preterito_perfeito: ['tive', 'tiveste', 'teve', 'tivemos', 'tivestes', 'tiveram'],
+        preterito_imperfeito: ['tinha', 'tinhas', 'tinha', 'tínhamos', 'tínheis', 'tinham'],
+        derivatives: ['abster', 'ater', 'conter', 'deter', 'entreter', 'manter', 'obter', 'reter', 'suster'],
+    },
+    haver: {
+        presente: ['hei', 'hás', 'há', 'havemos', 'haveis', 'hão'],
+        preterito_perfeito: ['houve', 'houveste', 'houve', 'houvemos', 'houvestes', 'houveram'],
+        presente_do_subjuntivo: ['haja', 'hajas', 'haja', 'hajamos', 'hajais', 'hajam'],
+    },
+    ir: {
+        presente: ['vou', 'vais', 'vai', 'vamos', 'ides', 'vão'],
+        preterito_perfeito: FUI,
+        presente_do_subjuntivo: ['vá', 'vás', 'vá', 'vamos', 'vades', 'vão'],
+    },
+    vir: {
+        presente: ['venho', 'vens', 'vem', 'vimos', 'vindes', 'vêm'],
+        preterito_perfeito: ['vim', 'vieste', 'veio', 'viemos', 'viestes', 'vieram'],
+        preterito_imperfeito: ['vinha', 'vinhas', 'vinha', 'vínhamos', 'vínheis', 'vinham'],
+        participio: 'vindo',
+        derivatives: ['advir', 'convir', 'intervir', 'provir', 'sobrevir'],
+    },
+    fazer: {
+        presente: ['faço', 'fazes', 'faz', 'fazemos', 'fazeis', 'fazem'],
+        preterito_perfeito: ['fiz', 'fizeste', 'fez', 'fizemos', 'fizestes', 'fizeram'],
+        futureStem: 'far',
+        participio: 'feito',
+        derivatives: ['contrafazer', 'desfazer', 'perfazer', 'refazer', 'satisfazer'],
+    },
+    dizer: {
+        presente: ['digo', 'dizes', 'diz', 'dizemos', 'dizeis', 'dizem'],
+        preterito_perfeito: ['disse', 'disseste', 'disse', 'dissemos', 'dissestes', 'disseram'],
+        futureStem: 'dir',
+        participio: 'dito',
+        derivatives: ['bendizer', 'contradizer', 'desdizer', 'maldizer', 'predizer'],
+    },
+    trazer: {
+        presente: ['trago', 'trazes', 'traz', 'trazemos', 'trazeis', 'trazem'],
+        preterito_perfeito: ['trouxe', 'trouxeste', 'trouxe', 'trouxemos', 'trouxestes', 'trouxeram'],
+        futureStem: 'trar',
+    },
+    poder: {
+        presente: ['posso', 'podes', 'pode', 'podemos', 'podeis', 'podem'],
+        preterito_perfeito: ['pude', 'pudeste', 'pôde', 'pudemos', 'pudestes', 'puderam'],
+    },
+    saber: {
+        presente: ['sei', 'sabes', 'sabe', 'sabemos', 'sabeis', 'sabem'],
+        preterito_perfeito: ['soube', 'soubeste', 'soube', 'soubemos', 'soubestes', 'souberam'],
+        presente_do_subjuntivo: ['saiba', 'saibas', 'saiba', 'saibamos', 'saibais', 'saibam'],
+    },
+    caber: {
+        presente: ['caibo', 'cabes', 'cabe', 'cabemos', 'cabeis', 'cabem'],
+        preterito_perfeito: ['coube', 'coubeste', 'coube', 'coubemos', 'coubestes', 'couberam'],
+    },
+    querer: {
+        presente: ['quero', 'queres', 'quer', 'queremos', 'quereis', 'querem'],
+        preterito_perfeito: ['quis', 'quiseste', 'quis', 'quisemos', 'quisestes', 'quiseram'],
+        presente_do_subjuntivo: ['queira', 'queiras', 'queira', 'queiramos', 'queirais', 'queiram'],
+    },
+    pôr: {
+        presente: ['ponho', 'pões', 'põe', 'pomos', 'pondes', 'põem'],
+        preterito_perfeito: ['pus', 'puseste', 'pôs', 'pusemos', 'pusestes', 'puseram'],
+        preterito_imperfeito: ['punha', 'punhas', 'punha', 'púnhamos', 'púnheis', 'punham'],
+        futureStem: 'por',
+        participio: 'posto',
+        derivatives: [
+            'antepor', 'compor', 'contrapor', 'decompor', 'depor', 'dispor', 'expor', 'impor', 'indispor',
+            'justapor', 'opor', 'predispor', 'pressupor', 'propor', 'recompor', 'repor', 'sobrepor', 'supor', 'transpor',
+        ],
+    },
+    ver: {
+        presente: ['vejo', 'vês', 'vê', 'vemos', 'vedes', 'veem'],
+        preterito_perfeito: ['vi', 'viste', 'viu', 'vimos', 'vistes', 'viram'],
+        participio: 'visto',
+        derivatives: ['antever', 'entrever', 'prever', 'rever'],
+    },
+    dar: {
+        presente: ['dou', 'dás', 'dá', 'damos', 'dais', 'dão'],
+        preterito_perfeito: ['dei', 'deste', 'deu', 'demos', 'destes', 'deram'],
+        presente_do_subjuntivo: ['dê', 'dês', 'dê', 'demos', 'deis', 'deem'],
+    },
+    ler: {
+        presente: ['leio', 'lês', 'lê', 'lemos', 'ledes', 'leem'],
+        derivatives: ['reler'],
+    },
+    crer: {
+        presente: ['creio', 'crês', 'crê', 'cremos', 'credes', 'creem'],
+        derivatives: ['descrer'],
+    },
+    rir: {
+        presente: ['rio', 'ris', 'ri', 'rimos', 'rides', 'riem'],
+        derivatives: ['sorrir'],
+    },
+    valer: {
+        presente: ['valho', 'vales', 'vale', 'valemos', 'valeis', 'valem'],
+        derivatives: ['equivaler'],
+    },
+    perder: {
+        presente: ['perco', 'perdes', 'perde', 'perdemos', 'perdeis', 'perdem'],
+    },
+    pedir: {
+        presente: ['peço', 'pedes', 'pede', 'pedimos', 'pedis', 'pedem'],
+        derivatives: ['despedir', 'expedir', 'impedir'],
+    },
+    medir: {
+        presente: ['meço', 'medes', 'mede', 'medimos', 'medis', 'medem'],
+    },
+    ouvir: {
+        presente: ['ouço', 'ouves', 'ouve', 'ouvimos', 'ouvis', 'ouvem'],
+    },
+    construir: {
+        presente: ['construo', 'constróis', 'constrói', 'construímos', 'construís', 'constroem'],
+        derivatives: ['reconstruir'],
+    },
+    destruir: {
+        presente: ['destruo', 'destróis', 'destrói', 'destruímos', 'destruís', 'destroem'],
+    },
+    // Regular apart from the participle.
+    abrir: { participio: 'aberto', derivatives: ['entreabrir', 'reabrir'] },
+    cobrir: { participio: 'coberto', derivatives: ['descobrir', 'encobrir', 'recobrir'] },
+    escrever: { participio: 'escrito', derivatives: ['descrever', 'inscrever', 'prescrever', 'reescrever', 'subscrever', 'transcrever'] },
+    // In Brazil the short participle has replaced the regular one, even after ter.
+    ganhar: { participio: 'ganho' },
+    gastar: { participio: 'gasto' },
+    pagar: { participio: 'pago' },
+    // Regular participle with ter and haver, short one with ser and estar.
+    aceitar: { shortParticiple: 'aceito' },
+    acender: { shortParticiple: 'aceso' },
+    benzer: { shortParticiple: 'bento' },
+    eleger: { shortParticiple: 'eleito', derivatives: ['reeleger'] },
+    encher: { shortParticiple: 'cheio' },
+    entregar: { shortParticiple: 'entregue' },
+    expressar: { shortParticiple: 'expresso' },
+    expulsar: { shortParticiple: 'expulso' },
+    extinguir: { shortParticiple: 'extinto' },
+    fritar: { shortParticiple: 'frito' },
+    imprimir: { shortParticiple: 'impresso' },
+    isentar: { shortParticiple: 'isento' },
+    juntar: { shortParticiple: 'junto' },
+    limpar: { shortParticiple: 'limpo' },
+    matar: { shortParticiple: 'morto' },
+    morrer: { shortParticiple: 'morto' },
+    omitir: { shortParticiple: 'omisso' },
+    prender: { shortParticiple: 'preso' },
+    salvar: { shortParticiple: 'salvo' },
+    secar: { shortParticiple: 'seco' },
+    soltar: { shortParticiple: 'solto' },
+    suspender: { shortParticiple: 'suspenso' },
+    tingir: { shortParticiple: 'tinto' },
+};
+
+// --- Stem changes in otherwise regular verbs ---
+
+// -ir verbs whose e or o becomes i or u in the "eu" present and the whole present
+// subjunctive (sentir → sinto, sinta; dormir → durmo). Matched as word endings, so
+// "ferir" also covers preferir, referir, transferir and the rest of the family.
+export const RAISING_IR_ENDINGS = [
+    'aderir', 'cernir', 'cobrir', 'despir', 'dormir', 'engolir', 'ferir', 'fletir', 'gerir', 'mentir',
+    'pelir', 'petir', 'seguir', 'sentir', 'servir', 'tossir', 'vergir', 'vertir', 'vestir',
+];
+
+// Like the above, but the change also applies to every stressed present form
+// (agredir → agrido, agrides, agride, agridem).
+export const FULLY_RAISING_IR_ENDINGS = ['gredir', 'prevenir'];
+
+// -ir verbs whose u becomes o in the stressed present forms except "eu"
+// (subir → subo, sobes, sobe, sobem). Listed in full because assumir, resumir and
+// other look-alikes are regular.
+export const LOWERING_IR_VERBS = [
+    'acudir', 'bulir', 'consumir', 'cuspir', 'desentupir', 'entupir', 'escapulir', 'fugir', 'sacudir', 'subir', 'sumir',
+];
+
+// -ar verbs in -iar that conjugate like -ear verbs (odiar → odeio, odeie).
+export const EAR_LIKE_IAR_VERBS = ['ansiar', 'incendiar', 'intermediar', 'mediar', 'odiar', 'remediar'];
+
+// Verbs whose stem vowel is in hiatus and takes an accent when stressed (saudar → saúdo).
+// The stressed stem is given because the spelling alone doesn't tell a hiatus (saudar)
+// from a diphthong (causar).
+export const HIATUS_STRESSED_STEMS: Record<string, string> = {
+    abaular: 'abaúl',
+    amiudar: 'amiúd',
+    arruinar: 'arruín',
+    coibir: 'coíb',
+    desenraizar: 'desenraíz',
+    enraizar: 'enraíz',
+    proibir: 'proíb',
+    reunir: 'reún',
+    saudar: 'saúd',
+};
+
+// -ir verbs with e, o or u in the last stem syllable that are nonetheless fully regular.
+// Any other such verb is left to the model, since it may change its stem vowel.
+export const REGULAR_IR_VERBS = [
+    'aludir', 'assumir', 'aturdir', 'confundir', 'cumprir', 'curtir', 'difundir', 'discutir', 'embutir',
+    'exaurir', 'fundir', 'iludir', 'infundir', 'munir', 'nutrir', 'percutir', 'presumir', 'punir',
+    'repercutir', 'resumir', 'rugir', 'surtir', 'unir', 'urdir', 'zunir',
+];
+
+// Verbs the rules above would get wrong; the model conjugates these.
+export const UNSUPPORTED_VERBS = [
+    'aprazer', 'arguir', 'comprazer', 'delinquir', 'frigir', 'jazer', 'parir', 'prazer',
+    'precaver', 'prover', 'reaver', 'redarguir', 'requerer',
+];
@@ -0,0 +1,87 @@
+import type { GrammaticalGender, PartOfSpeech, Register, VocabularyItem, WordVariant } from '../types';
+import { isPlainObject, isStringArray } from './typeGuards';
+
+// Labels, legacy upgrades and filtering for the structured fields of vocabulary items.
+
+export const PARTS_OF_SPEECH: PartOfSpeech[] = ['noun', 'verb', 'adjective', 'adverb', 'pronoun', 'preposition', 'conjunction', 'interjection', 'phrase', 'other'];
+export const GENDERS: GrammaticalGender[] = ['masculine', 'feminine'];
+export const REGISTERS: Register[] = ['formal', 'neutral', 'informal', 'slang'];
+export const WORD_VARIANTS: WordVariant[] = ['both', 'pt-BR', 'pt-PT'];
+
+export const WORD_VARIANT_LABELS: Record<WordVariant, string> = {
+    both: 'Brazil and Portugal',
+    'pt-BR': 'Brazil',
+    'pt-PT': 'Portugal',
+};
+
+// Reads a free-text word type, as items had before the structured fields and as imported
+// word lists have, e.g. "noun (masculine)", "adj." or "substantivo feminino".
+export const parseWordType = (wordType: string): { partOfSpeech: PartOfSpeech; gender: GrammaticalGender | null } => {
+    const text = wordType.toLowerCase();
+    const partOfSpeech = PARTS_OF_SPEECH.find(part => new RegExp(`\\b${part}\\b`).test(text))
+        ?? (/\bsubst|\bn\.|^n$/.test(text) ? 'noun'
+            : /\badj/.test(text) ? 'adjective'
+            : /\badv/.test(text) ? 'adverb'
+            : /\bv\.|^v$|\bverbo/.test(text) ? 'verb'
+            : /express|idiom|frase/.test(text) ? 'phrase'
+            : 'other');
+    const gender = /\bmasc|\(m\)|\bm\.|^m$/.test(text) ? 'masculine'
+        : /\bfem|\(f\)|\bf\.|^f$/.test(text) ? 'feminine'
+        : null;
+    return { partOfSpeech, gender };
+};
+
+// e.g. "noun (masculine)", "verb"
+export const describeWordType = (item: Pick<VocabularyItem, 'partOfSpeech' | 'gender'>): string =>
+    item.gender ? `${item.partOfSpeech} (${item.gender})` : item.partOfSpeech;
+
+const isOneOf = <T extends string>(options: T[], value: unknown): value is T =>
+    (options as unknown[]).includes(value);
+
+// Items saved or cached before the structured fields only had a free-text wordType, as do
+// the rows of imported word lists. Structured fields already there are kept if valid. Throws
+// if the item has no word or translation, so that the record holding it is set aside.
+export const upgradeLegacyVocabularyItem = (item: unknown): VocabularyItem => {
+    if (!isPlainObject(item) || typeof item.portugueseWord !== 'string' || typeof item.englishTranslation !== 'string') {
+        throw new Error('a vocabulary item has no word or translation');
+    }
+    const parsed = parseWordType(typeof item.wordType === 'string' ? item.wordType : '');
+    const text = (value: unknown) => (typeof value === 'string' ? value : '');
+    const upgraded: VocabularyItem = {
+        portugueseWord: item.portugueseWord,
+        englishTranslation: item.englishTranslation,
+        partOfSpeech: isOneOf(PARTS_OF_SPEECH, item.partOfSpeech) ? item.partOfSpeech : parsed.partOfSpeech,
+        gender: isOneOf(GENDERS, item.gender) ? item.gender : parsed.gender,
+        plural: typeof item.plural === 'string' ? item.plural : null,
+        ipa: typeof item.ipa === 'string' ? item.ipa : null,
+        register: isOneOf(REGISTERS, item.register) ? item.register : 'neutral',
+        variant: isOneOf(WORD_VARIANTS, item.variant) ? item.variant : 'both',
+        synonyms: isStringArray(item.synonyms) ? item.synonyms : [],
+        antonyms: isStringArray(item.antonyms) ? item.antonyms : [],
+        exampleSentence: text(item.exampleSentence),
+        exampleTranslation: text(item.exampleTranslation),
+    };
+    if (typeof item.variantNote === 'string') upgraded.variantNote = item.variantNote;
+    return upgraded;
+};
+
+// --- Filtering ---
+
+export interface VocabularyFilter {
+    partOfSpeech: PartOfSpeech | 'all';
+    gender: GrammaticalGender | 'all';
+    register: Register | 'all';
+    // A variant also matches the words used in both.
+    variant: WordVariant | 'all';
+}
+
+export const ALL_WORDS_FILTER: VocabularyFilter = { partOfSpeech: 'all', gender: 'all', register: 'all', variant: 'all' };
+
+export const isFilterActive = (filter: VocabularyFilter): boolean =>
+    Object.values(filter).some(value => value !== 'all');
+
+export const matchesVocabularyFilter = (item: VocabularyItem, filter: VocabularyFilter): boolean =>
+    (filter.partOfSpeech === 'all' || item.partOfSpeech === filter.partOfSpeech) &&
+    (filter.gender === 'all' || item.gender === filter.gender) &&
+    (filter.register === 'all' || item.register === filter.register) &&
+    (filter.variant === 'all' || item.variant === filter.variant || item.variant === 'both');
@@ -0,0 +1,144 @@
+import type { VocabularyItem } from '../types';
+import { diffAnswer, gradeAnswer, normalizeString } from './answerGrading';
+import type { AnswerGrade } from './answerGrading';
+import { conjugateVerb, listForms } from './conjugationEngine';
+
+// Question building and answer checking for the vocabulary quiz. A quiz can mix modes: each
+// word is asked in one of the chosen modes, falling back to typing the Portuguese word when
+// the mode doesn't suit it (e.g. the article question for a verb).
+
+export type QuizMode = 'en-to-pt' | 'pt-to-en' | 'multiple-choice' | 'listening' | 'gender' | 'cloze';
+
+export const QUIZ_MODES: { mode: QuizMode; label: string }[] = [
+    { mode: 'en-to-pt', label: 'English → Portuguese' },
+    { mode: 'pt-to-en', label: 'Portuguese → English' },
+    { mode: 'multiple-choice', label: 'Multiple choice' },
+    { mode: 'listening', label: 'Listening' },
+    { mode: 'gender', label: 'o or a?' },
+    { mode: 'cloze', label: 'Fill the gap' },
+];
+
+export interface QuizQuestion {
+    item: VocabularyItem;
+    mode: QuizMode;
+    // The answer shown when revealing or after checking.
+    answer: string;
+    // Multiple choice and gender questions are answered by picking one of these.
+    options?: string[];
+    // Cloze questions: the example sentence with the word replaced by ___.
+    sentenceWithBlank?: string;
+    // Gender questions: the noun without its article.
+    noun?: string;
+}
+
+const MULTIPLE_CHOICE_OPTIONS = 4;
+const ARTICLE_PATTERN = /^(o|a|os|as|um|uma)\s+/i;
+
+export const shuffleArray = <T,>(array: T[]): T[] => {
+    const newArray = [...array];
+    for (let i = newArray.length - 1; i > 0; i--) {
+        const j = Math.floor(Math.random() * (i + 1));
+        [newArray[i], newArray[j]] = [newArray[j], newArray[i]];
+    }
+    return newArray;
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// The word as it appears in its example sentence, with or without its article.
+const findInSentence = (item: VocabularyItem): RegExpMatchArray | null => {
+    const candidates = [item.portugueseWord, item.portugueseWord.replace(ARTICLE_PATTERN, '')];
+    for (const candidate of candidates) {
+        const match = item.exampleSentence.match(new RegExp(`(?<![\\p{L}])${escapeRegExp(candidate.trim())}(?![\\p{L}])`, 'iu'));
+        if (match) return match;
+    }
+    return null;
+};
+
+// Options come from the other words of the topic, preferring the same part of speech so that
+// the answer can't be guessed from its form.
+const pickDistractors = (item: VocabularyItem, pool: VocabularyItem[]): string[] => {
+    const others = shuffleArray(pool.filter(other => normalizeString(other.portugueseWord) !== normalizeString(item.portugueseWord)));
+    const ordered = [...others.filter(other => other.partOfSpeech === item.partOfSpeech), ...others.filter(other => other.partOfSpeech !== item.partOfSpeech)];
+    return Array.from(new Set(ordered.map(other => other.portugueseWord))).slice(0, MULTIPLE_CHOICE_OPTIONS - 1);
+};
+
+const buildQuestion = (item: VocabularyItem, mode: QuizMode, pool: VocabularyItem[]): QuizQuestion | null => {
+    switch (mode) {
+        case 'en-to-pt':
+        case 'listening':
+            return { item, mode, answer: item.portugueseWord };
+        case 'pt-to-en':
+            return { item, mode, answer: item.englishTranslation };
+        case 'multiple-choice': {
+            const distractors = pickDistractors(item, pool);
+            if (distractors.length < 2) return null;
+            return { item, mode, answer: item.portugueseWord, options: shuffleArray([item.portugueseWord, ...distractors]) };
+        }
+        case 'gender': {
+            if (item.partOfSpeech !== 'noun' || !item.gender) return null;
+            return { item, mode, answer: item.gender === 'masculine' ? 'o' : 'a', options: ['o', 'a'], noun: item.portugueseWord.replace(ARTICLE_PATTERN, '') };
+        }
+        case 'cloze': {
+            const match = findInSentence(item);
+            if (!match) return null;
+            const sentenceWithBlank = item.exampleSentence.slice(0, match.index) + '___' + item.exampleSentence.slice(match.index! + match[0].length);
+            return { item, mode, answer: match[0], sentenceWithBlank };
+        }
+    }
+};
+
+// Spreads the chosen modes evenly over the words, in a random order.
+export const buildQuizQuestions = (items: VocabularyItem[], modes: QuizMode[], pool: VocabularyItem[]): QuizQuestion[] => {
+    const assignedModes = shuffleArray(items.map((_, index) => modes[index % modes.length]));
+    return items.map((item, index) =>
+        buildQuestion(item, assignedModes[index], pool) ?? buildQuestion(item, 'en-to-pt', pool)!
+    );
+};
+
+// --- Checking answers ---
+
+// "to eat", "the table" and "a house" are also accepted as "eat", "table" and "house".
+const normalizeEnglish = (text: string): string =>
+    normalizeString(text).replace(/[^a-z0-9' ]/g, ' ').replace(/^(to|the|a|an)\s+/, '').replace(/\s+/g, ' ').trim();
+
+// A translation like "beautiful, pretty" or "car / automobile" accepts each of its meanings,
+// and "bread (loaf)" also accepts "bread".
+const getAcceptedTranslations = (translation: string): string[] => {
+    const withoutNotes = translation.replace(/\([^)]*\)/g, '');
+    return [translation, withoutNotes, ...withoutNotes.split(/[,;/]|\bor\b/)].map(normalizeEnglish).filter(Boolean);
+};
+
+// Forms of the word that answer a different question: the plural, or another conjugation of
+// a verb. The noun without its article gets a verdict of its own.
+const getOtherForms = (item: VocabularyItem): string[] => {
+    const word = item.portugueseWord.trim();
+    const forms = [word];
+    if (item.plural) forms.push(item.plural);
+    if (item.partOfSpeech === 'verb') {
+        const table = conjugateVerb(word);
+        if (table) forms.push(...listForms(table));
+    }
+    return forms;
+};
+
+export const gradeQuizAnswer = (question: QuizQuestion, userAnswer: string): AnswerGrade => {
+    // Picking an option is either right or wrong.
+    if (question.options) {
+        const isCorrect = userAnswer === question.answer;
+        return { verdict: isCorrect ? 'exact' : 'wrong', isCorrect, expected: question.answer, diff: [] };
+    }
+    if (question.mode === 'pt-to-en') {
+        return gradeAnswer(normalizeEnglish(userAnswer), getAcceptedTranslations(question.answer));
+    }
+    const withoutArticle = question.answer.replace(ARTICLE_PATTERN, '');
+    if (withoutArticle !== question.answer && normalizeString(userAnswer) === normalizeString(withoutArticle)) {
+        return { verdict: 'missing-article', isCorrect: false, expected: question.answer, diff: diffAnswer(userAnswer, question.answer) };
+    }
+    // A Portuguese synonym is also a right answer to an English prompt.
+    const accepted = question.mode === 'en-to-pt' ? [question.answer, ...question.item.synonyms] : [question.answer];
+    // The gap in a verb's example sentence takes a conjugated form, where a slip of one
+    // letter is a wrong conjugation rather than a typo.
+    const isVerbForm = question.mode === 'cloze' && question.item.partOfSpeech === 'verb' && !question.answer.includes(' ');
+    return gradeAnswer(userAnswer, accepted, { otherForms: getOtherForms(question.item), allowTypos: !isVerbForm });
+};
@@ -0,0 +1,193 @@
+import type { VocabularyItem } from '../types';
+import { upgradeLegacyVocabularyItem } from './vocabularyItem';
+
+// Reading word lists exported from spreadsheets or other apps (CSV or TSV) into word bank
+// items. Columns are mapped to fields by their header when there is one, otherwise by position.
+
+export type ImportField = 'portugueseWord' | 'englishTranslation' | 'wordType' | 'exampleSentence' | 'exampleTranslation';
+
+// Column index for each field; -1 when the list has no such column.
+export type ColumnMapping = Record<ImportField, number>;
+
+export interface WordList {
+    // Null when the first row is already a word.
+    headers: string[] | null;
+    rows: string[][];
+    columnCount: number;
+}
+
+export interface WordListImport {
+    words: VocabularyItem[];
+    // Portuguese words that are already in the word bank or appear twice in the list.
+    duplicates: string[];
+    // Rows without a Portuguese word or an English translation.
+    incompleteRows: number;
+}
+
+export const IMPORT_FIELDS: { field: ImportField; label: string; required: boolean }[] = [
+    { field: 'portugueseWord', label: 'Portuguese', required: true },
+    { field: 'englishTranslation', label: 'English', required: true },
+    { field: 'wordType', label: 'Word type', required: false },
+    { field: 'exampleSentence', label: 'Example', required: false },
+    { field: 'exampleTranslation', label: 'Example translation', required: false },
+];
+
+const HEADER_NAMES: Record<ImportField, string[]> = {
+    portugueseWord: ['portuguese', 'portugues', 'word', 'palavra', 'front', 'term'],
+    englishTranslation: ['english', 'ingles', 'translation', 'meaning', 'back', 'definition'],
+    wordType: ['wordtype', 'type', 'partofspeech', 'pos', 'tipo'],
+    exampleSentence: ['example', 'examplesentence', 'sentence', 'exemplo', 'frase'],
+    exampleTranslation: ['exampletranslation', 'sentencetranslation', 'translatedexample'],
+};
+
+const normalizeHeader = (header: string): string =>
+    header.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z]/g, '');
+
+const findField = (header: string): ImportField | undefined => {
+    const normalized = normalizeHeader(header);
+    return IMPORT_FIELDS.find(({ field }) => HEADER_NAMES[field].includes(normalized))?.field;
+};
+
+// Tabs win when the first line has one; otherwise whichever of commas and semicolons
+// (spreadsheets in Portuguese locales use semicolons) appears more often.
+const detectDelimiter = (firstLine: string): string => {
+    if (firstLine.includes('\t')) return '\t';
+    const count = (char: string) => firstLine.split(char).length - 1;
+    return count(';') > count(',') ? ';' : ',';
+};
+
+// Splits delimited text into rows, handling quoted fields with embedded delimiters,
+// doubled quotes and line breaks.
+const parseRows = (text: string, delimiter: string): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (inQuotes) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"' && field === '') {
+            inQuotes = true;
+        } else if (char === delimiter) {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    if (field !== '' || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+    return rows
+        .map(cells => cells.map(cell => cell.trim()))
+        .filter(cells => cells.some(cell => cell !== ''));
+};
+
+export const parseWordList = (text: string): WordList => {
+    // Lines starting with # are comments, e.g. the header lines of Anki exports, except that
+    // "#columns:" names the columns.
+    const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+    const columnsLine = lines.find(line => line.startsWith('#columns:'));
+    const content = [
+        ...(columnsLine ? [columnsLine.slice('#columns:'.length)] : []),
+        ...lines.filter(line => !line.startsWith('#')),
+    ].join('\n');
+    const rows = parseRows(content, detectDelimiter(content.split('\n')[0] ?? ''));
+    const hasHeaders = rows.length > 0 && rows[0].some(cell => findField(cell) !== undefined);
+    const columnCount = rows.reduce((max, row) => Math.max(max, row.length), 0);
+    return {
+        headers: hasHeaders ? rows[0] : null,
+        rows: hasHeaders ? rows.slice(1) : rows,
+        columnCount,
+    };
+};
+
+// Matches columns to fields by header name; without headers the columns are taken in the
+// order of IMPORT_FIELDS.
+export const guessColumnMapping = (wordList: WordList): ColumnMapping => {
+    const mapping = Object.fromEntries(IMPORT_FIELDS.map(({ field }) => [field, -1])) as ColumnMapping;
+    if (wordList.headers) {
+        wordList.headers.forEach((header, index) => {
+            const field = findField(header);
+            if (field && mapping[field] === -1) mapping[field] = index;
+        });
+    } else {
+        IMPORT_FIELDS.forEach(({ field }, index) => {
+            if (index < wordList.columnCount) mapping[field] = index;
+        });
+    }
+    return mapping;
+};
+
+const normalizeWord = (word: string): string => word.trim().toLowerCase();
+
+export const buildWordListImport = (wordList: WordList, mapping: ColumnMapping, bankedWords: Iterable<string>): WordListImport => {
+    const seen = new Set(Array.from(bankedWords, normalizeWord));
+    const words: VocabularyItem[] = [];
+    const duplicates: string[] = [];
+    let incompleteRows = 0;
+    const cell = (row: string[], field: ImportField) => (mapping[field] >= 0 ? row[mapping[field]] ?? '' : '');
+
+    wordList.rows.forEach(row => {
+        const portugueseWord = cell(row, 'portugueseWord');
+        const englishTranslation = cell(row, 'englishTranslation');
+        if (!portugueseWord || !englishTranslation) {
+            incompleteRows++;
+            return;
+        }
+        if (seen.has(normalizeWord(portugueseWord))) {
+            duplicates.push(portugueseWord);
+            return;
+        }
+        seen.add(normalizeWord(portugueseWord));
+        words.push(upgradeLegacyVocabularyItem({
+            portugueseWord,
+            englishTranslation,
+            wordType: cell(row, 'wordType'),
+            exampleSentence: cell(row, 'exampleSentence'),
+            exampleTranslation: cell(row, 'exampleTranslation'),
+        }));
+    });
+
+    return { words, duplicates, incompleteRows };
+};
+
+export const isMissingExample = (item: VocabularyItem): boolean => !item.exampleSentence;
+
+// Takes the details of imported words from AI-completed items, keeping what the list had: the
+// word and translation, the word type if it could be read, and the example sentence.
+export const mergeCompletedWords = (words: VocabularyItem[], completed: VocabularyItem[]): VocabularyItem[] => {
+    const completedByWord = new Map(completed.map(item => [normalizeWord(item.portugueseWord), item]));
+    return words.map(word => {
+        const match = completedByWord.get(normalizeWord(word.portugueseWord));
+        if (!match) return word;
+        return {
+            ...match,
+            portugueseWord: word.portugueseWord,
+            englishTranslation: word.englishTranslation,
+            ...(word.partOfSpeech !== 'other' && { partOfSpeech: word.partOfSpeech, gender: word.gender }),
+            // The sentence and its translation are taken together so that they match; a sentence
+            // from the list is kept even without a translation.
+            ...(!isMissingExample(word) && {
+                exampleSentence: word.exampleSentence,
+                exampleTranslation: word.exampleTranslation,
+            }),
+        };
+    });
+};
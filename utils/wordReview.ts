@@ -0,0 +1,97 @@
+import type { VocabularyItem } from '../types';
+import { isPlainObject } from './typeGuards';
+
+// Spaced-repetition scheduling for the word bank, following SM-2: each word has an ease
+// factor and an interval that grows by that factor every time it's recalled. A miss resets
+// the interval and lowers the ease, so difficult words come back more often.
+
+export type ReviewGrade = 'correct' | 'revealed' | 'wrong';
+
+export interface WordReviewState {
+    ease: number;
+    intervalDays: number;
+    // Correct answers in a row since the last miss.
+    repetitions: number;
+    lapses: number;
+    due: number;
+    lastReviewed: number;
+}
+
+// Keyed by getReviewKey; words that have never been reviewed have no entry and are due.
+export type WordReviewSchedule = Record<string, WordReviewState>;
+
+export interface DueWord {
+    item: VocabularyItem;
+    category: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+
+// SM-2 rates answers from 0 to 5; 3 and above count as recalled.
+const GRADE_QUALITY: Record<ReviewGrade, number> = {
+    correct: 4,
+    revealed: 2,
+    wrong: 1,
+};
+
+export const getReviewKey = (portugueseWord: string): string => portugueseWord.trim().toLowerCase();
+
+export const reviewWord = (schedule: WordReviewSchedule, portugueseWord: string, grade: ReviewGrade, now = Date.now()): WordReviewSchedule => {
+    const key = getReviewKey(portugueseWord);
+    const previous = schedule[key];
+    const quality = GRADE_QUALITY[grade];
+    const ease = Math.max(MIN_EASE, (previous?.ease ?? INITIAL_EASE) + 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02));
+
+    let repetitions = 0;
+    let intervalDays = 1;
+    if (quality >= 3) {
+        repetitions = (previous?.repetitions ?? 0) + 1;
+        intervalDays = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round((previous?.intervalDays ?? 1) * ease);
+    }
+
+    return {
+        ...schedule,
+        [key]: {
+            ease,
+            intervalDays,
+            repetitions,
+            lapses: (previous?.lapses ?? 0) + (quality >= 3 ? 0 : 1),
+            due: now + intervalDays * DAY_MS,
+            lastReviewed: now,
+        },
+    };
+};
+
+export const isWordDue = (state: WordReviewState | undefined, now = Date.now()): boolean => !state || state.due <= now;
+
+// Banked words that are due, from every category: the most overdue first, then those never
+// reviewed. A word saved under two categories is only included once.
+export const getDueWords = (wordBank: Record<string, VocabularyItem[]>, schedule: WordReviewSchedule, now = Date.now()): DueWord[] => {
+    const seen = new Set<string>();
+    const due: DueWord[] = [];
+    Object.entries(wordBank).forEach(([category, items]) => {
+        items.forEach(item => {
+            const key = getReviewKey(item.portugueseWord);
+            if (seen.has(key)) return;
+            seen.add(key);
+            if (isWordDue(schedule[key], now)) due.push({ item, category });
+        });
+    });
+    const dueAt = (word: DueWord) => schedule[getReviewKey(word.item.portugueseWord)]?.due ?? Number.MAX_SAFE_INTEGER;
+    return due.sort((a, b) => dueAt(a) - dueAt(b));
+};
+
+// e.g. "Due", "In 1 day", "In 6 days"
+export const describeNextReview = (state: WordReviewState | undefined, now = Date.now()): string => {
+    if (isWordDue(state, now)) return 'Due';
+    const days = Math.ceil((state!.due - now) / DAY_MS);
+    return `In ${days} day${days === 1 ? '' : 's'}`;
+};
+
+export const isWordReviewSchedule = (value: unknown): value is WordReviewSchedule =>
+    isPlainObject(value) && Object.values(value).every(state =>
+        isPlainObject(state) &&
+        ['ease', 'intervalDays', 'repetitions', 'lapses', 'due', 'lastReviewed'].every(field => typeof state[field] === 'number')
+    );
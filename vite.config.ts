@@ -12,7 +12,12 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.AI_PROVIDER': JSON.stringify(env.AI_PROVIDER),
+        'process.env.OPENAI_COMPATIBLE_BASE_URL': JSON.stringify(env.OPENAI_COMPATIBLE_BASE_URL),
+        'process.env.OPENAI_COMPATIBLE_API_KEY': JSON.stringify(env.OPENAI_COMPATIBLE_API_KEY),
+        'process.env.OPENAI_COMPATIBLE_MODEL': JSON.stringify(env.OPENAI_COMPATIBLE_MODEL),
+        'process.env.CONJUGATION_CROSS_CHECK': JSON.stringify(env.CONJUGATION_CROSS_CHECK ?? String(mode === 'development'))
       },
       resolve: {
         alias: {